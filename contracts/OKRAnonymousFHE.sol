@@ -1,12 +1,45 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import { FHE, euint32 } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint8, euint16, euint32, externalEuint32 } from "@fhevm/solidity/lib/FHE.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
 
 contract EncryptedOKRPlatformFHE is SepoliaConfig {
+    // one encrypted input carries at most 64 euint32 values, four of them per OKR
+    uint256 public constant MAX_KEY_RESULTS = 16;
+    // OKR priorities run from 1 (low) to this value; aggregates weight progress by them
+    uint256 public constant MAX_PRIORITY = 3;
+    // check-in notes arrive sealed by the owner's client; this bounds what one note costs to store
+    uint256 public constant MAX_NOTE_LENGTH = 1024;
+    // team names, objective titles and key copies arrive sealed too, under the same kind of bound
+    uint256 public constant MAX_SEALED_LENGTH = 512;
+
+    // fewest distinct contributors an aggregate may be decrypted with, unless its team sets another
+    uint256 public constant DEFAULT_MIN_CONTRIBUTORS = 3;
+    // below two, a reveal is one person's exact progress
+    uint256 public constant MIN_CONTRIBUTORS_FLOOR = 2;
+
+    // aggregates become decryptable at these fixed boundaries, once per epoch
+    uint256 public constant REVEAL_EPOCH = 7 days;
+    // decryption requests a team may make per epoch, across its team and objective aggregates
+    uint256 public constant MAX_TEAM_REQUESTS_PER_EPOCH = 4;
+
+    // one person moves a sum by at most their whole 0-100 progress
+    uint256 public constant PROGRESS_SENSITIVITY = 100;
+    // privacy budgets are kept in thousandths of epsilon
+    uint256 public constant MIN_EPSILON_PER_REVEAL = 10;
+    // ln(2) in millionths, for the noise scale
+    uint256 private constant LN2_MICRO = 693147;
+    // each geometric draw is truncated after this many halvings; a team reveal noises six values and
+    // must stay within the coprocessor's per-transaction compute limit
+    uint8 private constant NOISE_DRAWS = 9;
+
     // storage counters
     uint256 public okrCount;
+    uint256 public objectiveCount;
+
+    // may create company-level objectives
+    address public companyAdmin;
 
     // encrypted personal OKR container
     struct EncryptedOKR {
@@ -15,135 +48,1103 @@ contract EncryptedOKRPlatformFHE is SepoliaConfig {
         euint32 encryptedObjective;
         euint32 encryptedKeyResults;
         euint32 encryptedProgress;
+        bytes32 teamId;
         uint256 timestamp;
+        euint32 encryptedWeight;
     }
 
-    // encrypted aggregated metric container
+    // encrypted aggregated metric container; the sum is weighted by priority and encryptedWeightTotal
+    // holds the weights. contributors counts summed values, distinctContributors the people behind them
+    // changedContributors counts the people whose part differs from the last decrypted sum
     struct EncryptedAggregate {
         bytes32 idHash;
         euint32 encryptedSum;
+        euint32 encryptedWeightTotal;
+        uint256 contributors;
+        uint256 distinctContributors;
+        uint256 changedContributors;
         uint256 lastUpdated;
     }
 
+    // running sum while an aggregate is recomputed; changed[i] belongs to owners[i]
+    struct Tally {
+        euint32 acc;
+        euint32 weightTotal;
+        uint256 contributors;
+        address[] owners;
+        bool[] changed;
+        uint256 distinctContributors;
+        uint256 changedContributors;
+    }
+
+    // one progress update; confidence is left uninitialized when none was given
+    struct EncryptedCheckIn {
+        euint32 progress;
+        euint32 confidence;
+        uint256 timestamp;
+        // sealed client-side with a key only the owner can derive; empty when no note was written
+        string sealedNote;
+    }
+
+    // clear sum of an aggregate as verified by the decryption oracle, with the snapshot it was taken from
+    // noiseScale is zero for exact sums, otherwise the grid step of the noise that was added to the sum
+    struct RevealedAggregate {
+        uint32 clearSum;
+        uint32 weightTotal;
+        uint256 contributors;
+        uint256 computedAt;
+        uint256 revealedAt;
+        uint256 noiseScale;
+    }
+
+    // spread of a team's latest progress values: members below 25, 50 and 75 percent. How many there
+    // are in all is the aggregate's public contributor count.
+    struct EncryptedDistribution {
+        euint32 below25;
+        euint32 below50;
+        euint32 below75;
+    }
+
+    // counts as revealed with a team sum; noiseScale is zero for exact counts and count is always exact
+    struct RevealedDistribution {
+        uint32 below25;
+        uint32 below50;
+        uint32 below75;
+        uint32 count;
+        uint256 noiseScale;
+        uint256 revealedAt;
+    }
+
+    // opt-in noise for a team's reveals, in thousandths of epsilon; on for good once configured and
+    // the total never grows, so a spent budget stays spent. The zero team id holds company objectives.
+    struct PrivacyBudget {
+        uint256 epsilonPerReveal;
+        uint256 totalEpsilon;
+        uint256 spentEpsilon;
+    }
+
+    // shared objective: company level when teamId is zero, otherwise owned by a team. The title is
+    // sealed with the owning team's key, or the company key for company objectives.
+    struct Objective {
+        uint256 id;
+        string sealedTitle;
+        bytes32 teamId;
+        uint256 parentId;
+        uint256 createdAt;
+    }
+
+    // named team; the name is sealed with the team key its members hold. The member roster itself is
+    // never exposed, only its size.
+    struct Team {
+        string sealedName;
+        address admin;
+        uint256 memberCount;
+        uint256 createdAt;
+    }
+
     // storage mappings
     mapping(uint256 => EncryptedOKR) public encryptedOkrs;
+    // text, status, cycle and alignment sealed under the owner's text key, so any of their devices
+    // can read them back. Uncapped: only the owner writes and pays for it.
+    mapping(uint256 => string) public okrRecords;
+    mapping(bytes32 => Team) public teams;
+    mapping(bytes32 => mapping(bytes32 => bool)) private inviteCodes;
+    mapping(bytes32 => mapping(address => bool)) private teamAllowlist;
+    mapping(bytes32 => uint256) private teamMinContributors;
+    mapping(bytes32 => PrivacyBudget) public privacyBudgets;
+    mapping(uint256 => Objective) public objectives;
+    mapping(uint256 => uint256[]) private childObjectives;
+    // alignment links stay private so the tree never shows who contributed
+    mapping(uint256 => uint256[]) private alignedOkrs;
+    mapping(uint256 => uint256) private okrObjective;
+    // encrypted 0-100 progress of each key result, in the owner's order
+    mapping(uint256 => euint32[]) private keyResultProgress;
+    // every progress value an OKR ever had, oldest first
+    mapping(uint256 => EncryptedCheckIn[]) private checkIns;
     mapping(bytes32 => EncryptedAggregate) public teamAggregates;
+    mapping(bytes32 => EncryptedDistribution) private teamDistributions;
+    mapping(bytes32 => RevealedDistribution) public revealedDistributions;
     mapping(bytes32 => address[]) private teamMembers;
+    mapping(bytes32 => mapping(address => bool)) private isTeamMember;
+    // each holder's copy of a team key sealed to them; the zero team id holds the company admin's company key
+    mapping(bytes32 => mapping(address => string)) private heldKeys;
+    // the company key sealed with a team's key, so its members can read company objective titles
+    mapping(bytes32 => string) public teamCompanyKeys;
+    // a value derived from the same wallet signature as each account's text key, so a client can tell
+    // when the wallet now signs differently and the key it derived opens nothing
+    mapping(address => bytes32) public textKeyChecks;
     mapping(uint256 => uint256) private requestToOkrId;
     mapping(uint256 => bytes32) private requestToTeamId;
+    mapping(uint256 => RevealedAggregate) private requestSnapshots;
+    mapping(uint256 => uint256) private requestCountNoise;
+    mapping(uint256 => uint256) private requestWeightNoise;
+    mapping(bytes32 => RevealedAggregate) public revealedAggregates;
+    // when an aggregate may next be sent for decryption; zero until its first request
+    mapping(bytes32 => uint256) public nextRevealAt;
+    // lastUpdated of the sum last sent for decryption; changes are counted from there
+    mapping(bytes32 => uint256) private revealBaseline;
+    // owners who deleted an OKR counted in an aggregate, and when
+    mapping(bytes32 => address[]) private departedOwners;
+    mapping(bytes32 => mapping(address => uint256)) private departedAt;
+    mapping(bytes32 => mapping(uint256 => uint256)) private teamRequestsPerEpoch;
+    // set while the latest decryption request of an aggregate awaits the oracle
+    mapping(bytes32 => bool) public decryptionPending;
+    mapping(bytes32 => uint256) private latestRequest;
 
     // events
+    event TeamCreated(bytes32 indexed teamId);
+    event TeamJoined(bytes32 indexed teamId, uint256 memberCount);
+    event MinContributorsChanged(bytes32 indexed teamId, uint256 minimum);
+    event PrivacyBudgetConfigured(bytes32 indexed teamId, uint256 epsilonPerReveal, uint256 totalEpsilon);
     event OKRSubmitted(uint256 indexed id, address indexed owner, uint256 timestamp);
+    event ProgressUpdated(uint256 indexed id, uint256 timestamp);
+    event OKREdited(uint256 indexed id, uint256 timestamp);
+    event OKRDeleted(uint256 indexed id, address indexed owner);
+    event KeyResultsUpdated(uint256 indexed id, uint256 count, uint256 timestamp);
+    event CheckInRecorded(uint256 indexed id, uint256 index, uint256 timestamp);
     event TeamAggregated(bytes32 indexed teamId, uint256 timestamp);
-    event DecryptionRequested(uint256 indexed requestId);
+    event ObjectiveCreated(uint256 indexed id, bytes32 indexed teamId, uint256 indexed parentId);
+    event ObjectiveAggregated(uint256 indexed objectiveId, bytes32 aggregateKey, uint256 timestamp);
+    event DecryptionRequested(uint256 indexed requestId, bytes32 indexed aggregateKey);
     event AggregateDecrypted(bytes32 indexed teamId, uint32 clearValue);
 
-    // placeholder access control
+    // access control; modifier bodies are copied into every function using them, so the checks are
+    // functions to keep the contract under the code size limit
     modifier onlyOwner(uint256 okrId) {
-        // access control stub
+        requireOwner(okrId);
         _;
     }
 
-    // placeholder membership guard
     modifier onlyTeamMember(bytes32 teamId) {
-        // membership check stub
+        requireTeamMember(teamId);
+        _;
+    }
+
+    modifier onlyTeamAdmin(bytes32 teamId) {
+        requireTeamAdmin(teamId);
         _;
     }
 
+    function requireOwner(uint256 okrId) private view {
+        require(encryptedOkrs[okrId].owner == msg.sender, "Not OKR owner");
+    }
+
+    function requireTeamMember(bytes32 teamId) private view {
+        require(isTeamMember[teamId][msg.sender], "Not team member");
+    }
+
+    function requireTeamAdmin(bytes32 teamId) private view {
+        require(teams[teamId].admin == msg.sender, "Not team admin");
+    }
+
+    function requireCompanyAdmin() private view {
+        require(msg.sender == companyAdmin, "Not company admin");
+    }
+
+    constructor() {
+        companyAdmin = msg.sender;
+    }
+
+    /// @notice Create a team under a random id chosen by the client; the creator becomes its admin and
+    /// first member. The name arrives sealed with a fresh team key, sealedKey is the creator's copy of it.
+    /// @dev Neither the name nor anything derived from it reaches the chain in clear
+    function createTeam(bytes32 teamId, string calldata sealedName, string calldata sealedKey) public {
+        require(teamId != bytes32(0), "Invalid team id");
+        require(bytes(sealedName).length > 0, "Empty name");
+        requireSealedLength(sealedName);
+        require(teams[teamId].admin == address(0), "Team exists");
+
+        teams[teamId] = Team({ sealedName: sealedName, admin: msg.sender, memberCount: 0, createdAt: block.timestamp });
+        emit TeamCreated(teamId);
+
+        addTeamMember(teamId, msg.sender);
+        storeHeldKey(teamId, sealedKey);
+    }
+
+    /// @notice Replace the caller's sealed copy of a team key. The zero team id holds the company key,
+    /// which only the company admin keeps this way.
+    function setHeldKey(bytes32 teamId, string calldata sealedKey) public {
+        if (teamId == bytes32(0)) {
+            requireCompanyAdmin();
+        } else {
+            requireTeamMember(teamId);
+        }
+        storeHeldKey(teamId, sealedKey);
+    }
+
+    /// @notice The caller's sealed copy of a team key; there is no lookup for other addresses
+    function heldKey(bytes32 teamId) public view returns (string memory) {
+        return heldKeys[teamId][msg.sender];
+    }
+
+    /// @notice Pass the company key on to a team's members, sealed with the team key
+    function shareCompanyKey(bytes32 teamId, string calldata sealedCompanyKey) public onlyTeamAdmin(teamId) {
+        requireSealedLength(sealedCompanyKey);
+        teamCompanyKeys[teamId] = sealedCompanyKey;
+    }
+
+    /// @notice Record the check value of the caller's text key. Replacing it abandons the text sealed
+    /// under the old key, which is what a user who lost that key has to do anyway.
+    function setTextKeyCheck(bytes32 check) public {
+        require(check != bytes32(0), "Empty key check");
+        textKeyChecks[msg.sender] = check;
+    }
+
+    function requireSealedLength(string calldata value) private pure {
+        require(bytes(value).length <= MAX_SEALED_LENGTH, "Sealed text too long");
+    }
+
+    function storeHeldKey(bytes32 teamId, string calldata sealedKey) private {
+        require(bytes(sealedKey).length > 0, "Empty key");
+        requireSealedLength(sealedKey);
+        heldKeys[teamId][msg.sender] = sealedKey;
+    }
+
+    /// @notice Hash an invite is registered under; binding the member keeps a code seen in a pending
+    /// joinTeam transaction useless to anyone else
+    function inviteHashFor(bytes32 inviteCode, address member) public pure returns (bytes32) {
+        return keccak256(abi.encodePacked(inviteCode, member));
+    }
+
+    /// @notice Register a single-use invite for one address; only inviteHashFor(code, member) goes on chain
+    function addInvite(bytes32 teamId, bytes32 codeHash) public onlyTeamAdmin(teamId) {
+        inviteCodes[teamId][codeHash] = true;
+    }
+
+    /// @notice Let an address join without an invite code
+    function allowMember(bytes32 teamId, address member) public onlyTeamAdmin(teamId) {
+        teamAllowlist[teamId][member] = true;
+    }
+
+    /// @notice Set how many distinct contributors the team's aggregates need before decryption
+    function setMinContributors(bytes32 teamId, uint256 minimum) public onlyTeamAdmin(teamId) {
+        require(minimum >= MIN_CONTRIBUTORS_FLOOR, "Minimum too low");
+        teamMinContributors[teamId] = minimum;
+        emit MinContributorsChanged(teamId, minimum);
+    }
+
+    /// @notice Contributor threshold of a team; company objectives (zero teamId) use the default
+    function minContributors(bytes32 teamId) public view returns (uint256) {
+        uint256 minimum = teamMinContributors[teamId];
+        return minimum == 0 ? DEFAULT_MIN_CONTRIBUTORS : minimum;
+    }
+
+    /// @notice Add differential-privacy noise to the team's reveals, each spending epsilonPerReveal of the budget.
+    /// A zero teamId sets the budget of company objective reveals and is reserved for the company admin.
+    /// @dev There is no way back to exact sums, and the total set first is a lifetime cap: later calls may
+    /// retune the per-reveal epsilon or lower the total, never raise it.
+    function configurePrivacyBudget(bytes32 teamId, uint256 epsilonPerReveal, uint256 totalEpsilon) public {
+        if (teamId == bytes32(0)) {
+            requireCompanyAdmin();
+        } else {
+            requireTeamAdmin(teamId);
+        }
+        require(epsilonPerReveal >= MIN_EPSILON_PER_REVEAL, "Epsilon too small");
+        require(totalEpsilon >= epsilonPerReveal, "Budget below one reveal");
+
+        PrivacyBudget storage budget = privacyBudgets[teamId];
+        require(budget.totalEpsilon == 0 || totalEpsilon <= budget.totalEpsilon, "Budget cannot grow");
+        budget.epsilonPerReveal = epsilonPerReveal;
+        budget.totalEpsilon = totalEpsilon;
+        emit PrivacyBudgetConfigured(teamId, epsilonPerReveal, totalEpsilon);
+    }
+
+    /// @notice Grid step of the noise for one released value: sensitivity * ln(2) / epsilon, rounded up
+    function noiseScaleFor(uint256 epsilon, uint256 sensitivity) public pure returns (uint256) {
+        uint256 numerator = sensitivity * LN2_MICRO;
+        uint256 denominator = epsilon * 1000;
+        return (numerator + denominator - 1) / denominator;
+    }
+
+    /// @notice Join a team with an invite code, or with a zero code when allowlisted. sealedKey is the
+    /// joiner's copy of the team key handed over with the invite.
+    function joinTeam(bytes32 teamId, bytes32 inviteCode, string calldata sealedKey) public {
+        require(teams[teamId].admin != address(0), "Unknown team");
+        require(!isTeamMember[teamId][msg.sender], "Already a member");
+
+        if (teamAllowlist[teamId][msg.sender]) {
+            delete teamAllowlist[teamId][msg.sender];
+        } else {
+            bytes32 codeHash = inviteHashFor(inviteCode, msg.sender);
+            require(inviteCodes[teamId][codeHash], "Invalid invite");
+            delete inviteCodes[teamId][codeHash];
+        }
+
+        addTeamMember(teamId, msg.sender);
+        storeHeldKey(teamId, sealedKey);
+    }
+
+    /// @notice Create a company objective (zero teamId) or a team objective under an optional company parent.
+    /// The title arrives sealed with the owning team's key, or with the company key.
+    function createObjective(string calldata sealedTitle, bytes32 teamId, uint256 parentId) public returns (uint256) {
+        require(bytes(sealedTitle).length > 0, "Empty title");
+        requireSealedLength(sealedTitle);
+        if (teamId == bytes32(0)) {
+            requireCompanyAdmin();
+            require(parentId == 0, "Company objectives have no parent");
+        } else {
+            requireTeamAdmin(teamId);
+            if (parentId != 0) {
+                Objective storage parent = objectives[parentId];
+                require(parent.id != 0 && parent.teamId == bytes32(0), "Parent must be a company objective");
+            }
+        }
+
+        objectiveCount += 1;
+        uint256 newId = objectiveCount;
+        objectives[newId] = Objective({
+            id: newId,
+            sealedTitle: sealedTitle,
+            teamId: teamId,
+            parentId: parentId,
+            createdAt: block.timestamp
+        });
+        if (parentId != 0) {
+            childObjectives[parentId].push(newId);
+        }
+
+        emit ObjectiveCreated(newId, teamId, parentId);
+        return newId;
+    }
+
+    /// @notice Number of team objectives and personal OKRs aligned directly under an objective
+    function getObjectiveChildCounts(uint256 objectiveId) public view returns (uint256 objectiveChildren, uint256 okrChildren) {
+        return (childObjectives[objectiveId].length, alignedOkrs[objectiveId].length);
+    }
+
+    /// @notice Whether the caller belongs to a team; there is no lookup for other addresses
+    function isMemberOf(bytes32 teamId) public view returns (bool) {
+        return isTeamMember[teamId][msg.sender];
+    }
+
+    function addTeamMember(bytes32 teamId, address member) private {
+        isTeamMember[teamId][member] = true;
+        teamMembers[teamId].push(member);
+        teams[teamId].memberCount += 1;
+        emit TeamJoined(teamId, teams[teamId].memberCount);
+    }
+
     /// @notice Submit an encrypted OKR
-    /// @dev Comments are intentionally generic and not functional descriptions
+    /// @dev All values are client-side encrypted inputs sharing a single proof. The objective
+    /// progress is the weighted result of the key-result progress values, derived client-side.
+    /// The encrypted priority is clamped to 1..MAX_PRIORITY and weights the OKR in aggregates;
+    /// progress values are clamped to 0..PROGRESS_SENSITIVITY.
+    /// A zero teamId files the OKR as personal; any other team requires membership.
+    /// A non-zero objectiveId aligns the OKR under one of that team's objectives.
     function submitEncryptedOKR(
-        euint32 encryptedObjective,
-        euint32 encryptedKeyResults,
-        euint32 encryptedProgress,
-        bytes32 teamId
-    ) public {
+        externalEuint32 encryptedObjective,
+        externalEuint32 encryptedKeyResults,
+        externalEuint32 encryptedProgress,
+        externalEuint32 encryptedPriority,
+        externalEuint32[] calldata encryptedKeyResultProgress,
+        bytes calldata inputProof,
+        bytes32 teamId,
+        uint256 objectiveId,
+        string calldata sealedRecord
+    ) public returns (uint256) {
+        require(teamId == bytes32(0) || isTeamMember[teamId][msg.sender], "Not team member");
+        if (objectiveId != 0) {
+            require(teamId != bytes32(0) && objectives[objectiveId].teamId == teamId, "Objective not in team");
+        }
+
+        euint32 objective = FHE.fromExternal(encryptedObjective, inputProof);
+        euint32 keyResults = FHE.fromExternal(encryptedKeyResults, inputProof);
+        euint32 progress = boundedProgress(FHE.fromExternal(encryptedProgress, inputProof));
+        euint32 weight = boundedWeight(FHE.fromExternal(encryptedPriority, inputProof));
+
+        // keep the ciphertexts usable by this contract in later transactions and readable by the owner
+        allowContractAndOwner(objective);
+        allowContractAndOwner(keyResults);
+        allowContractAndOwner(progress);
+        allowContractAndOwner(weight);
+
         okrCount += 1;
         uint256 newId = okrCount;
 
         encryptedOkrs[newId] = EncryptedOKR({
             id: newId,
             owner: msg.sender,
-            encryptedObjective: encryptedObjective,
-            encryptedKeyResults: encryptedKeyResults,
-            encryptedProgress: encryptedProgress,
-            timestamp: block.timestamp
+            encryptedObjective: objective,
+            encryptedKeyResults: keyResults,
+            encryptedProgress: progress,
+            teamId: teamId,
+            timestamp: block.timestamp,
+            encryptedWeight: weight
         });
-
-        // register membership for the team
-        teamMembers[teamId].push(msg.sender);
+        if (objectiveId != 0) {
+            alignedOkrs[objectiveId].push(newId);
+            okrObjective[newId] = objectiveId;
+        }
+        storeRecord(newId, sealedRecord);
+        storeKeyResultProgress(newId, encryptedKeyResultProgress, inputProof);
+        recordCheckIn(newId, progress, euint32.wrap(bytes32(0)), "");
 
         emit OKRSubmitted(newId, msg.sender, block.timestamp);
+        return newId;
+    }
+
+    /// @notice Replace the encrypted key-result values of an OKR and the progress derived from them,
+    /// recording the change as a check-in with the owner's encrypted confidence and sealed note
+    function updateEncryptedKeyResults(
+        uint256 okrId,
+        externalEuint32[] calldata encryptedKeyResultProgress,
+        externalEuint32 encryptedProgress,
+        externalEuint32 encryptedConfidence,
+        bytes calldata inputProof,
+        string calldata sealedNote
+    ) public onlyOwner(okrId) {
+        euint32 progress = FHE.fromExternal(encryptedProgress, inputProof);
+        euint32 confidence = FHE.fromExternal(encryptedConfidence, inputProof);
+        applyKeyResults(okrId, encryptedKeyResultProgress, progress, confidence, inputProof, sealedNote);
+    }
+
+    /// @notice Same as updateEncryptedKeyResults for several of the caller's OKRs at once, from one
+    /// encrypted input. Per OKR, in order, `handles` holds progress, confidence and then
+    /// keyResultCounts[i] key-result values; sealedNotes[i] is the note of its check-in.
+    function updateEncryptedKeyResultsBatch(
+        uint256[] calldata okrIds,
+        uint256[] calldata keyResultCounts,
+        externalEuint32[] calldata handles,
+        bytes calldata inputProof,
+        string[] calldata sealedNotes
+    ) public {
+        require(okrIds.length == keyResultCounts.length, "Length mismatch");
+        require(okrIds.length == sealedNotes.length, "Length mismatch");
+
+        uint256 offset = 0;
+        for (uint256 i = 0; i < okrIds.length; i++) {
+            requireOwner(okrIds[i]);
+            uint256 end = offset + 2 + keyResultCounts[i];
+            require(end <= handles.length, "Length mismatch");
+            euint32 progress = FHE.fromExternal(handles[offset], inputProof);
+            euint32 confidence = FHE.fromExternal(handles[offset + 1], inputProof);
+            applyKeyResults(okrIds[i], handles[offset + 2:end], progress, confidence, inputProof, sealedNotes[i]);
+            offset = end;
+        }
+        require(offset == handles.length, "Length mismatch");
+    }
+
+    /// @notice Replace the objective commitment, priority, key results and sealed record of an OKR after
+    /// it was edited. The edit is recorded as a check-in without a confidence value.
+    function editEncryptedOKR(
+        uint256 okrId,
+        externalEuint32 encryptedObjective,
+        externalEuint32 encryptedKeyResultCount,
+        externalEuint32 encryptedProgress,
+        externalEuint32 encryptedPriority,
+        externalEuint32[] calldata encryptedKeyResultProgress,
+        bytes calldata inputProof,
+        string calldata sealedRecord
+    ) public onlyOwner(okrId) {
+        storeRecord(okrId, sealedRecord);
+
+        euint32 obj = FHE.fromExternal(encryptedObjective, inputProof);
+        euint32 krCount = FHE.fromExternal(encryptedKeyResultCount, inputProof);
+        euint32 weight = boundedWeight(FHE.fromExternal(encryptedPriority, inputProof));
+        allowContractAndOwner(obj);
+        allowContractAndOwner(krCount);
+        allowContractAndOwner(weight);
+
+        EncryptedOKR storage e = encryptedOkrs[okrId];
+        e.encryptedObjective = obj;
+        e.encryptedKeyResults = krCount;
+        e.encryptedWeight = weight;
+
+        euint32 progress = FHE.fromExternal(encryptedProgress, inputProof);
+        applyKeyResults(okrId, encryptedKeyResultProgress, progress, euint32.wrap(bytes32(0)), inputProof, "");
+        emit OKREdited(okrId, block.timestamp);
+    }
+
+    /// @notice Remove an OKR with its key results, check-ins and alignment link. Aggregates drop it
+    /// the next time they are recomputed.
+    function deleteEncryptedOKR(uint256 okrId) public onlyOwner(okrId) {
+        // the next sums lose this OKR, which is a change like any progress update
+        bytes32 teamId = encryptedOkrs[okrId].teamId;
+        if (teamId != bytes32(0)) {
+            recordDeparture(teamId, msg.sender);
+        }
+
+        uint256 objectiveId = okrObjective[okrId];
+        if (objectiveId != 0) {
+            recordDeparture(objectiveAggregateKey(objectiveId), msg.sender);
+            uint256 parentId = objectives[objectiveId].parentId;
+            if (parentId != 0) {
+                recordDeparture(objectiveAggregateKey(parentId), msg.sender);
+            }
+
+            uint256[] storage okrIds = alignedOkrs[objectiveId];
+            for (uint256 i = 0; i < okrIds.length; i++) {
+                if (okrIds[i] == okrId) {
+                    okrIds[i] = okrIds[okrIds.length - 1];
+                    okrIds.pop();
+                    break;
+                }
+            }
+            delete okrObjective[okrId];
+        }
+
+        delete encryptedOkrs[okrId];
+        delete okrRecords[okrId];
+        delete keyResultProgress[okrId];
+        delete checkIns[okrId];
+
+        emit OKRDeleted(okrId, msg.sender);
+    }
+
+    /// @notice Replace the sealed record of an OKR, e.g. after a status change or a rollover
+    function setOKRRecord(uint256 okrId, string calldata sealedRecord) public onlyOwner(okrId) {
+        storeRecord(okrId, sealedRecord);
+    }
+
+    // shared by the three writers for the same code size reason as the access checks
+    function storeRecord(uint256 okrId, string calldata sealedRecord) private {
+        okrRecords[okrId] = sealedRecord;
+    }
+
+    function recordDeparture(bytes32 key, address owner) private {
+        if (departedAt[key][owner] == 0) {
+            departedOwners[key].push(owner);
+        }
+        departedAt[key][owner] = block.timestamp;
+    }
+
+    function departedSinceReveal(bytes32 key, address owner) private view returns (bool) {
+        return departedAt[key][owner] > revealBaseline[key];
+    }
+
+    function applyKeyResults(
+        uint256 okrId,
+        externalEuint32[] calldata encryptedKeyResultProgress,
+        euint32 progress,
+        euint32 confidence,
+        bytes calldata inputProof,
+        string memory sealedNote
+    ) private {
+        progress = boundedProgress(progress);
+        allowContractAndOwner(progress);
+        if (FHE.isInitialized(confidence)) {
+            allowContractAndOwner(confidence);
+        }
+
+        EncryptedOKR storage e = encryptedOkrs[okrId];
+        e.encryptedProgress = progress;
+        e.timestamp = block.timestamp;
+        storeKeyResultProgress(okrId, encryptedKeyResultProgress, inputProof);
+        recordCheckIn(okrId, progress, confidence, sealedNote);
+
+        emit ProgressUpdated(okrId, block.timestamp);
+    }
+
+    // out-of-range priorities would let one OKR outweigh the rest of its team
+    function boundedWeight(euint32 priority) private returns (euint32) {
+        return FHE.min(FHE.max(priority, uint32(1)), uint32(MAX_PRIORITY));
+    }
+
+    // the noise and reveal bounds assume no progress value exceeds PROGRESS_SENSITIVITY
+    function boundedProgress(euint32 progress) private returns (euint32) {
+        return FHE.min(progress, uint32(PROGRESS_SENSITIVITY));
     }
 
-    /// @notice Recompute encrypted aggregate for a team by summing encrypted progress
+    /// @dev Every caller stores a value of an OKR owned by msg.sender, who may then read it back
+    /// through user decryption
+    function allowContractAndOwner(euint32 value) private {
+        FHE.allowThis(value);
+        FHE.allow(value, msg.sender);
+    }
+
+    function recordCheckIn(uint256 okrId, euint32 progress, euint32 confidence, string memory sealedNote) private {
+        require(bytes(sealedNote).length <= MAX_NOTE_LENGTH, "Note too long");
+        checkIns[okrId].push(
+            EncryptedCheckIn({
+                progress: progress,
+                confidence: confidence,
+                timestamp: block.timestamp,
+                sealedNote: sealedNote
+            })
+        );
+        emit CheckInRecorded(okrId, checkIns[okrId].length - 1, block.timestamp);
+    }
+
+    function storeKeyResultProgress(
+        uint256 okrId,
+        externalEuint32[] calldata encryptedValues,
+        bytes calldata inputProof
+    ) private {
+        require(encryptedValues.length <= MAX_KEY_RESULTS, "Too many key results");
+
+        delete keyResultProgress[okrId];
+        for (uint256 i = 0; i < encryptedValues.length; i++) {
+            euint32 value = boundedProgress(FHE.fromExternal(encryptedValues[i], inputProof));
+            allowContractAndOwner(value);
+            keyResultProgress[okrId].push(value);
+        }
+
+        emit KeyResultsUpdated(okrId, encryptedValues.length, block.timestamp);
+    }
+
+    /// @notice Replace the encrypted progress of an existing OKR
+    function updateEncryptedProgress(
+        uint256 okrId,
+        externalEuint32 encryptedProgress,
+        bytes calldata inputProof
+    ) public onlyOwner(okrId) {
+        euint32 progress = boundedProgress(FHE.fromExternal(encryptedProgress, inputProof));
+        allowContractAndOwner(progress);
+
+        EncryptedOKR storage e = encryptedOkrs[okrId];
+        e.encryptedProgress = progress;
+        e.timestamp = block.timestamp;
+        recordCheckIn(okrId, progress, euint32.wrap(bytes32(0)), "");
+
+        emit ProgressUpdated(okrId, block.timestamp);
+    }
+
+    /// @notice Recompute encrypted aggregate for a team by summing encrypted progress, weighted by priority
     function recomputeTeamAggregate(bytes32 teamId) public {
-        // initialize accumulator
+        // initialize accumulators
         euint32 acc = FHE.asEuint32(0);
+        euint32 weightTotal = FHE.asEuint32(0);
+        EncryptedDistribution memory distribution = EncryptedDistribution({
+            below25: FHE.asEuint32(0),
+            below50: FHE.asEuint32(0),
+            below75: FHE.asEuint32(0)
+        });
+        uint256 contributors = 0;
+        uint256 changed = 0;
+        uint256 since = revealBaseline[teamId];
 
         address[] storage members = teamMembers[teamId];
         for (uint256 i = 0; i < members.length; i++) {
-            // naive lookup: find the latest OKR of this member (could be improved)
+            // naive lookup: find the latest OKR of this member in this team (could be improved)
             // scanning from newest to oldest for that owner
-            euint32 memberProgress = findLatestEncryptedProgress(members[i]);
-            if (FHE.isInitialized(memberProgress)) {
-                acc = FHE.add(acc, memberProgress);
+            uint256 okrId = findLatestOkr(teamId, members[i]);
+            bool memberChanged = departedSinceReveal(teamId, members[i]);
+            if (okrId != 0) {
+                euint32 progress = encryptedOkrs[okrId].encryptedProgress;
+                euint32 weight = encryptedOkrs[okrId].encryptedWeight;
+                acc = FHE.add(acc, FHE.mul(progress, weight));
+                weightTotal = FHE.add(weightTotal, weight);
+                distribution.below25 = countBelow(distribution.below25, progress, 25);
+                distribution.below50 = countBelow(distribution.below50, progress, 50);
+                distribution.below75 = countBelow(distribution.below75, progress, 75);
+                contributors += 1;
+                memberChanged = memberChanged || encryptedOkrs[okrId].timestamp > since;
+            }
+            if (memberChanged) {
+                changed += 1;
             }
         }
 
-        teamAggregates[teamId] = EncryptedAggregate({
-            idHash: teamId,
-            encryptedSum: acc,
-            lastUpdated: block.timestamp
-        });
+        // members count once each, so every summed value is a distinct contributor
+        storeAggregate(teamId, acc, weightTotal, contributors, contributors, changed);
+
+        FHE.allowThis(distribution.below25);
+        FHE.allowThis(distribution.below50);
+        FHE.allowThis(distribution.below75);
+        teamDistributions[teamId] = distribution;
 
         emit TeamAggregated(teamId, block.timestamp);
     }
 
+    function countBelow(euint32 acc, euint32 progress, uint32 bound) private returns (euint32) {
+        return FHE.add(acc, FHE.asEuint32(FHE.lt(progress, bound)));
+    }
+
+    /// @notice Members whose latest OKR in the team has a check-in at or after `since`
+    /// @dev Check-in times are public already, so the count needs no encryption
+    function checkedInSince(bytes32 teamId, uint256 since) public view returns (uint256 count) {
+        address[] storage members = teamMembers[teamId];
+        for (uint256 i = 0; i < members.length; i++) {
+            uint256 okrId = findLatestOkr(teamId, members[i]);
+            if (okrId == 0) {
+                continue;
+            }
+            EncryptedCheckIn[] storage entries = checkIns[okrId];
+            if (entries.length > 0 && entries[entries.length - 1].timestamp >= since) {
+                count += 1;
+            }
+        }
+    }
+
+    /// @notice Aggregate key under which an objective's sum is stored in teamAggregates
+    function objectiveAggregateKey(uint256 objectiveId) public pure returns (bytes32) {
+        return keccak256(abi.encodePacked("objective", objectiveId));
+    }
+
+    /// @notice Sum the encrypted progress of OKRs aligned under an objective.
+    /// @dev A company objective sums the OKRs aligned to each of its team objectives.
+    function recomputeObjectiveAggregate(uint256 objectiveId) public {
+        require(objectives[objectiveId].id != 0, "Unknown objective");
+
+        uint256[] storage children = childObjectives[objectiveId];
+        uint256 aligned = alignedOkrs[objectiveId].length;
+        for (uint256 i = 0; i < children.length; i++) {
+            aligned += alignedOkrs[children[i]].length;
+        }
+
+        bytes32 key = objectiveAggregateKey(objectiveId);
+        Tally memory tally = Tally({
+            acc: FHE.asEuint32(0),
+            weightTotal: FHE.asEuint32(0),
+            contributors: 0,
+            owners: new address[](aligned),
+            changed: new bool[](aligned),
+            distinctContributors: 0,
+            changedContributors: 0
+        });
+        addAlignedProgress(objectiveId, revealBaseline[key], tally);
+        for (uint256 i = 0; i < children.length; i++) {
+            addAlignedProgress(children[i], revealBaseline[key], tally);
+        }
+        addDepartures(key, tally);
+
+        storeAggregate(
+            key,
+            tally.acc,
+            tally.weightTotal,
+            tally.contributors,
+            tally.distinctContributors,
+            tally.changedContributors
+        );
+        emit ObjectiveAggregated(objectiveId, key, block.timestamp);
+    }
+
     /// @notice Request decryption of a team's aggregated encrypted metric
+    /// @dev The team's distribution is decrypted in the same request, so it passes the same checks
     function requestTeamAggregateDecryption(bytes32 teamId) public onlyTeamMember(teamId) {
-        EncryptedAggregate storage agg = teamAggregates[teamId];
+        EncryptedDistribution storage distribution = teamDistributions[teamId];
+        euint32[] memory counts = new euint32[](3);
+        counts[0] = distribution.below25;
+        counts[1] = distribution.below50;
+        counts[2] = distribution.below75;
+        requestAggregateDecryption(teamId, teamId, teamId, counts, this.decryptTeamDistribution.selector);
+    }
+
+    /// @notice Request decryption of an objective's aggregate; open to members of the owning team,
+    /// or to anyone in a team aligned under a company objective
+    /// @dev An objective sums a subset of the people in its teams' aggregates, which are gated on their
+    /// own epochs, so subtracting one exact reveal from the other would isolate the members outside the
+    /// subset. Objective reveals are therefore always noised: the owning team (the company admin for
+    /// company objectives) has to configure a privacy budget first.
+    function requestObjectiveAggregateDecryption(uint256 objectiveId, bytes32 viaTeamId) public onlyTeamMember(viaTeamId) {
+        Objective storage objective = objectives[objectiveId];
+        if (objective.teamId != viaTeamId) {
+            require(objective.teamId == bytes32(0) && hasChildInTeam(objectiveId, viaTeamId), "Objective not in team");
+        }
+        require(privacyBudgets[objective.teamId].epsilonPerReveal != 0, "Privacy budget required");
+        requestAggregateDecryption(
+            objectiveAggregateKey(objectiveId),
+            viaTeamId,
+            objective.teamId,
+            new euint32[](0),
+            this.decryptTeamAggregate.selector
+        );
+    }
+
+    // one person's OKRs under the same objective count as a single distinct contributor
+    function addAlignedProgress(uint256 objectiveId, uint256 since, Tally memory tally) private {
+        uint256[] storage okrIds = alignedOkrs[objectiveId];
+        for (uint256 i = 0; i < okrIds.length; i++) {
+            EncryptedOKR storage e = encryptedOkrs[okrIds[i]];
+            tally.acc = FHE.add(tally.acc, FHE.mul(e.encryptedProgress, e.encryptedWeight));
+            tally.weightTotal = FHE.add(tally.weightTotal, e.encryptedWeight);
+            tally.contributors += 1;
+
+            uint256 j = ownerIndex(tally, e.owner);
+            if (j == tally.distinctContributors) {
+                tally.owners[j] = e.owner;
+                tally.distinctContributors += 1;
+            }
+            if (e.timestamp > since) {
+                markChanged(tally, j);
+            }
+        }
+    }
+
+    // departed owners still contributing through another OKR are counted once; the others add a change
+    function addDepartures(bytes32 key, Tally memory tally) private view {
+        address[] storage departed = departedOwners[key];
+        for (uint256 i = 0; i < departed.length; i++) {
+            if (!departedSinceReveal(key, departed[i])) {
+                continue;
+            }
+            uint256 j = ownerIndex(tally, departed[i]);
+            if (j < tally.distinctContributors) {
+                markChanged(tally, j);
+            } else {
+                tally.changedContributors += 1;
+            }
+        }
+    }
+
+    function ownerIndex(Tally memory tally, address owner) private pure returns (uint256) {
+        for (uint256 j = 0; j < tally.distinctContributors; j++) {
+            if (tally.owners[j] == owner) {
+                return j;
+            }
+        }
+        return tally.distinctContributors;
+    }
+
+    function markChanged(Tally memory tally, uint256 j) private pure {
+        if (!tally.changed[j]) {
+            tally.changed[j] = true;
+            tally.changedContributors += 1;
+        }
+    }
+
+    function hasChildInTeam(uint256 objectiveId, bytes32 teamId) private view returns (bool) {
+        uint256[] storage children = childObjectives[objectiveId];
+        for (uint256 i = 0; i < children.length; i++) {
+            if (objectives[children[i]].teamId == teamId) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    function storeAggregate(
+        bytes32 key,
+        euint32 acc,
+        euint32 weightTotal,
+        uint256 contributors,
+        uint256 distinctContributors,
+        uint256 changedContributors
+    ) private {
+        // the sum and its weights must stay readable by this contract for decryption requests
+        FHE.allowThis(acc);
+        FHE.allowThis(weightTotal);
+
+        teamAggregates[key] = EncryptedAggregate({
+            idHash: key,
+            encryptedSum: acc,
+            encryptedWeightTotal: weightTotal,
+            contributors: contributors,
+            distinctContributors: distinctContributors,
+            changedContributors: changedContributors,
+            lastUpdated: block.timestamp
+        });
+    }
+
+    /// @dev Consecutive sums differ only by what changed in between, so a sum is decrypted at most
+    /// once per epoch and only when enough people changed since the previous one
+    /// The policy team sets the contributor threshold and privacy budget; the requesting team is rate-limited.
+    /// The weight total is decrypted after the sum, then the counts in order.
+    function requestAggregateDecryption(
+        bytes32 key,
+        bytes32 requestingTeam,
+        bytes32 policyTeam,
+        euint32[] memory counts,
+        bytes4 callback
+    ) private {
+        uint256 minimum = minContributors(policyTeam);
+        EncryptedAggregate storage agg = teamAggregates[key];
         require(FHE.isInitialized(agg.encryptedSum), "No aggregate");
+        require(agg.distinctContributors >= minimum, "Not enough contributors");
+        require(block.timestamp >= nextRevealAt[key], "Reveal window closed");
+        require(agg.changedContributors >= minimum, "Not enough changes");
 
-        bytes32[] memory ciphertexts = new bytes32[](1);
-        ciphertexts[0] = FHE.toBytes32(agg.encryptedSum);
+        uint256 epoch = block.timestamp / REVEAL_EPOCH;
+        require(teamRequestsPerEpoch[requestingTeam][epoch] < MAX_TEAM_REQUESTS_PER_EPOCH, "Rate limited");
+        teamRequestsPerEpoch[requestingTeam][epoch] += 1;
+        nextRevealAt[key] = (epoch + 1) * REVEAL_EPOCH;
+        revealBaseline[key] = agg.lastUpdated;
+        pruneDepartures(key);
+
+        // each released value spends an equal share of the reveal's epsilon. One person moves the weighted
+        // sum by up to their progress at the highest priority, the weights by that priority and a count by one.
+        uint256 noiseScale = 0;
+        uint256 weightNoiseScale = 0;
+        uint256 countNoiseScale = 0;
+        PrivacyBudget storage budget = privacyBudgets[policyTeam];
+        if (budget.epsilonPerReveal != 0) {
+            require(budget.spentEpsilon + budget.epsilonPerReveal <= budget.totalEpsilon, "Privacy budget exhausted");
+            budget.spentEpsilon += budget.epsilonPerReveal;
+            uint256 share = budget.epsilonPerReveal / (counts.length + 2);
+            noiseScale = noiseScaleFor(share, PROGRESS_SENSITIVITY * MAX_PRIORITY);
+            weightNoiseScale = noiseScaleFor(share, MAX_PRIORITY);
+            countNoiseScale = noiseScaleFor(share, 1);
+        }
 
-        uint256 reqId = FHE.requestDecryption(ciphertexts, this.decryptTeamAggregate.selector);
-        requestToTeamId[reqId] = teamId;
+        bytes32[] memory ciphertexts = new bytes32[](counts.length + 2);
+        ciphertexts[0] = FHE.toBytes32(noiseScale == 0 ? agg.encryptedSum : withNoise(agg.encryptedSum, noiseScale));
+        euint32 weights = agg.encryptedWeightTotal;
+        ciphertexts[1] = FHE.toBytes32(weightNoiseScale == 0 ? weights : withNoise(weights, weightNoiseScale));
+        for (uint256 i = 0; i < counts.length; i++) {
+            euint32 count = counts[i];
+            ciphertexts[i + 2] = FHE.toBytes32(countNoiseScale == 0 ? count : withNoise(count, countNoiseScale));
+        }
+
+        uint256 reqId = FHE.requestDecryption(ciphertexts, callback);
+        requestToTeamId[reqId] = key;
+        // the sum may be recomputed before the oracle answers; keep the figures it belongs to
+        requestSnapshots[reqId] = RevealedAggregate({
+            clearSum: 0,
+            weightTotal: 0,
+            contributors: agg.contributors,
+            computedAt: agg.lastUpdated,
+            revealedAt: 0,
+            noiseScale: noiseScale
+        });
+        if (noiseScale != 0) {
+            requestWeightNoise[reqId] = weightNoiseScale;
+        }
+        if (countNoiseScale != 0 && counts.length > 0) {
+            requestCountNoise[reqId] = countNoiseScale;
+        }
+        decryptionPending[key] = true;
+        latestRequest[key] = reqId;
+
+        emit DecryptionRequested(reqId, key);
+    }
+
+    /// @dev Adds scale * (G1 - G2) for two geometric(1/2) draws: two-sided geometric (discrete Laplace) noise
+    /// on a grid of `scale` points. Each grid step changes the odds by 2, so at scale = sensitivity * ln(2) /
+    /// epsilon one person's full range costs e^epsilon. Changes off the grid and the truncated tail (2^-9)
+    /// are covered only approximately. The value carries an offset of NOISE_DRAWS steps so negative noise
+    /// cannot wrap.
+    function withNoise(euint32 sum, uint256 scale) private returns (euint32) {
+        euint8 steps = FHE.sub(FHE.add(geometricDraw(), NOISE_DRAWS), geometricDraw());
+        euint32 noisy = FHE.add(sum, FHE.mul(FHE.asEuint32(steps), uint32(scale)));
+        FHE.allowThis(noisy);
+        return noisy;
+    }
+
+    // P(draw >= k) = 2^-k: one uniform 16-bit value compared against halving thresholds
+    function geometricDraw() private returns (euint8) {
+        euint16 uniform = FHE.randEuint16();
+        euint8 draw = FHE.asEuint8(0);
+        for (uint8 k = 1; k <= NOISE_DRAWS; k++) {
+            draw = FHE.add(draw, FHE.asEuint8(FHE.lt(uniform, uint16(1 << (16 - k)))));
+        }
+        return draw;
+    }
+
+    // strips the offset and clamps into the possible range; clamping is post-processing and costs no privacy
+    function withoutNoiseOffset(uint32 noisy, uint256 scale, uint256 maximum) private pure returns (uint32) {
+        if (scale == 0) {
+            return noisy;
+        }
+        uint256 offset = scale * uint256(NOISE_DRAWS);
+        if (noisy <= offset) {
+            return 0;
+        }
+        uint256 value = noisy - offset;
+        return uint32(value > maximum ? maximum : value);
+    }
 
-        emit DecryptionRequested(reqId);
+    // departures the decrypted sum already reflects no longer count as changes
+    function pruneDepartures(bytes32 key) private {
+        address[] storage departed = departedOwners[key];
+        uint256 i = 0;
+        while (i < departed.length) {
+            if (departedSinceReveal(key, departed[i])) {
+                i++;
+            } else {
+                delete departedAt[key][departed[i]];
+                departed[i] = departed[departed.length - 1];
+                departed.pop();
+            }
+        }
     }
 
-    /// @notice Decryption callback for team aggregate
+    /// @notice Decryption callback for team aggregate; stores the verified sum unless a newer one is stored
     function decryptTeamAggregate(
         uint256 requestId,
         bytes memory cleartexts,
         bytes memory proof
     ) public {
-        bytes32 teamId = requestToTeamId[requestId];
+        bytes32 teamId = verifiedRequest(requestId, cleartexts, proof);
+
+        // decode clear values
+        (uint32 sum, uint32 weightTotal) = abi.decode(cleartexts, (uint32, uint32));
+        finishReveal(teamId, requestId, sum, weightTotal);
+    }
+
+    /// @notice Decryption callback for a team sum revealed together with its distribution
+    function decryptTeamDistribution(
+        uint256 requestId,
+        bytes memory cleartexts,
+        bytes memory proof
+    ) public {
+        bytes32 teamId = verifiedRequest(requestId, cleartexts, proof);
+
+        (uint32 sum, uint32 weightTotal, uint32 below25, uint32 below50, uint32 below75) = abi.decode(
+            cleartexts,
+            (uint32, uint32, uint32, uint32, uint32)
+        );
+        uint256 contributors = requestSnapshots[requestId].contributors;
+        uint256 scale = requestCountNoise[requestId];
+        delete requestCountNoise[requestId];
+
+        if (finishReveal(teamId, requestId, sum, weightTotal)) {
+            revealedDistributions[teamId] = RevealedDistribution({
+                below25: withoutNoiseOffset(below25, scale, contributors),
+                below50: withoutNoiseOffset(below50, scale, contributors),
+                below75: withoutNoiseOffset(below75, scale, contributors),
+                count: uint32(contributors),
+                noiseScale: scale,
+                revealedAt: block.timestamp
+            });
+        }
+    }
+
+    function verifiedRequest(
+        uint256 requestId,
+        bytes memory cleartexts,
+        bytes memory proof
+    ) private returns (bytes32 teamId) {
+        teamId = requestToTeamId[requestId];
         require(teamAggregates[teamId].idHash != bytes32(0), "Invalid team");
 
         // verify decryption proof
         FHE.checkSignatures(requestId, cleartexts, proof);
+    }
 
-        // decode clear value
-        uint32 clearValue = abi.decode(cleartexts, (uint32));
+    // returns false when a newer sum was revealed first and this one is dropped
+    function finishReveal(
+        bytes32 key,
+        uint256 requestId,
+        uint32 clearValue,
+        uint32 weightTotal
+    ) private returns (bool stored) {
+        RevealedAggregate memory snapshot = requestSnapshots[requestId];
+        delete requestSnapshots[requestId];
+        snapshot.weightTotal = withoutNoiseOffset(
+            weightTotal,
+            requestWeightNoise[requestId],
+            snapshot.contributors * MAX_PRIORITY
+        );
+        delete requestWeightNoise[requestId];
+        snapshot.clearSum = withoutNoiseOffset(
+            clearValue,
+            snapshot.noiseScale,
+            snapshot.contributors * MAX_PRIORITY * PROGRESS_SENSITIVITY
+        );
+        if (latestRequest[key] == requestId) {
+            decryptionPending[key] = false;
+        }
+        stored = snapshot.computedAt >= revealedAggregates[key].computedAt;
+        if (stored) {
+            snapshot.revealedAt = block.timestamp;
+            revealedAggregates[key] = snapshot;
+        }
 
-        emit AggregateDecrypted(teamId, clearValue);
+        emit AggregateDecrypted(key, snapshot.clearSum);
     }
 
-    /// @notice Utility: find the latest encrypted progress for an owner
-    function findLatestEncryptedProgress(address owner) internal view returns (euint32) {
+    /// @notice Utility: id of the latest OKR of an owner within a team, zero when there is none
+    function findLatestOkr(bytes32 teamId, address owner) internal view returns (uint256) {
         for (uint256 i = okrCount; i >= 1; i--) {
             EncryptedOKR storage e = encryptedOkrs[i];
-            if (e.owner == owner) {
-                return e.encryptedProgress;
+            if (e.owner == owner && e.teamId == teamId) {
+                return i;
             }
             if (i == 1) {
                 break;
             }
         }
-        return FHE.asEuint32(0);
+        return 0;
     }
 
     /// @notice View helper to get encrypted OKR by id
@@ -153,10 +1154,40 @@ contract EncryptedOKRPlatformFHE is SepoliaConfig {
         euint32 encryptedObjective,
         euint32 encryptedKeyResults,
         euint32 encryptedProgress,
-        uint256 timestamp
+        uint256 timestamp,
+        euint32 encryptedWeight
     ) {
         EncryptedOKR storage e = encryptedOkrs[okrId];
-        return (e.id, e.owner, e.encryptedObjective, e.encryptedKeyResults, e.encryptedProgress, e.timestamp);
+        return (
+            e.id,
+            e.owner,
+            e.encryptedObjective,
+            e.encryptedKeyResults,
+            e.encryptedProgress,
+            e.timestamp,
+            e.encryptedWeight
+        );
+    }
+
+    /// @notice View helper to get the encrypted key-result progress values of an OKR
+    function getEncryptedKeyResults(uint256 okrId) public view returns (euint32[] memory) {
+        return keyResultProgress[okrId];
+    }
+
+    /// @notice Number of check-ins recorded for an OKR
+    function getCheckInCount(uint256 okrId) public view returns (uint256) {
+        return checkIns[okrId].length;
+    }
+
+    /// @notice View helper to get one encrypted check-in of an OKR
+    function getCheckIn(uint256 okrId, uint256 index) public view returns (
+        euint32 progress,
+        euint32 confidence,
+        uint256 timestamp,
+        string memory sealedNote
+    ) {
+        EncryptedCheckIn storage c = checkIns[okrId][index];
+        return (c.progress, c.confidence, c.timestamp, c.sealedNote);
     }
 
     /// @notice View helper to get encrypted aggregate for a team
@@ -164,4 +1195,19 @@ contract EncryptedOKRPlatformFHE is SepoliaConfig {
         EncryptedAggregate storage a = teamAggregates[teamId];
         return (a.encryptedSum, a.lastUpdated);
     }
+
+    /// @notice View helper to get the encrypted priority total behind an aggregate's weighted sum
+    function getEncryptedWeightTotal(bytes32 key) public view returns (euint32) {
+        return teamAggregates[key].encryptedWeightTotal;
+    }
+
+    /// @notice View helper to get the encrypted distribution of a team
+    function getEncryptedDistribution(bytes32 teamId) public view returns (
+        euint32 below25,
+        euint32 below50,
+        euint32 below75
+    ) {
+        EncryptedDistribution storage d = teamDistributions[teamId];
+        return (d.below25, d.below50, d.below75);
+    }
 }
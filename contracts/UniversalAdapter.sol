@@ -0,0 +1,54 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+contract UniversalAdapter {
+
+    event DataStored(address indexed sender, string key, bytes value);
+
+    // Keys are namespaced by the account that writes them, so nobody can overwrite another
+    // account's records or lists.
+    mapping(bytes32 => bytes) private _storage;
+    mapping(bytes32 => uint256) private _versions;
+
+    function isAvailable() public pure returns (bool) {
+        return true;
+    }
+
+    function setData(string calldata key, bytes calldata value) external {
+        _store(key, value);
+    }
+
+    // Writes every key in one transaction, or none if any key moved past the expected
+    // version. Expecting version 0 means the key must not exist yet.
+    function setDataAtomic(
+        string[] calldata keys,
+        bytes[] calldata values,
+        uint256[] calldata expectedVersions
+    ) external {
+        require(keys.length == values.length && keys.length == expectedVersions.length, "Length mismatch");
+        for (uint256 i = 0; i < keys.length; i++) {
+            require(_versions[_keyHash(msg.sender, keys[i])] == expectedVersions[i], "Stale version");
+            _store(keys[i], values[i]);
+        }
+    }
+
+    function getData(address owner, string calldata key) external view returns (bytes memory) {
+        return _storage[_keyHash(owner, key)];
+    }
+
+    function getVersion(address owner, string calldata key) external view returns (uint256) {
+        return _versions[_keyHash(owner, key)];
+    }
+
+    function _store(string calldata key, bytes calldata value) private {
+        bytes32 keyHash = _keyHash(msg.sender, key);
+        _storage[keyHash] = value;
+        _versions[keyHash] += 1;
+        emit DataStored(msg.sender, key, value);
+    }
+
+    function _keyHash(address owner, string calldata key) private pure returns (bytes32) {
+        return keccak256(abi.encodePacked(owner, key));
+    }
+
+}
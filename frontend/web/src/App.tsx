@@ -1,57 +1,98 @@
 import React, { useEffect, useState } from "react";
 import { ethers } from "ethers";
-import { getContractReadOnly, getContractWithSigner } from "./contract";
+import {
+  CheckIn,
+  createCycleRepository,
+  createOKRRepository,
+  createTeamRepository,
+  createTextKeyCheckRepository,
+  Cycle,
+  KeyResult,
+  lacksContributors,
+  Objective,
+  objectiveAggregateKey,
+  revealLabel,
+  revealWindowOpensAt,
+  OKRDraft,
+  PersonalOKR,
+  Team,
+  TeamOKR
+} from "./repository";
+import { config } from "./contract";
+import { cycleIdOf, quarterCycle, withDefaultCycles } from "./cycles";
+import { clearDecryptionSession } from "./fhe";
+import { keyResultProgress, MAX_KEY_RESULTS, newKeyResult, objectiveProgress } from "./keyResults";
+import { lockTextKeys, setKeyCheckStore, unlockTextKey } from "./textCrypto";
+import { ACTION_LABELS, availableActions, canEdit, nextStatus, OKRAction, suggestsCompletion } from "./okrLifecycle";
+import { DEFAULT_PRIORITY, PRIORITIES, PRIORITY_LABELS } from "./priority";
+import { getRpcManager } from "./rpcManager";
+import AlignmentTree from "./components/AlignmentTree";
+import CheckInTimeline from "./components/CheckInTimeline";
+import CycleSelector from "./components/CycleSelector";
+import KeyResultEditor from "./components/KeyResultEditor";
+import RpcDiagnostics from "./components/RpcDiagnostics";
+import TeamManager from "./components/TeamManager";
+import TeamDashboard from "./components/TeamDashboard";
 import WalletManager from "./components/WalletManager";
 import WalletSelector from "./components/WalletSelector";
 import "./App.css";
 
-interface PersonalOKR {
-  id: string;
-  objective: string;
-  keyResults: string[];
-  progress: number;
-  encryptedData: string;
-  timestamp: number;
-  owner: string;
-  status: "active" | "completed" | "archived";
-}
+const repository = createOKRRepository();
+const teamRepository = createTeamRepository();
+const cycleRepository = createCycleRepository(repository);
+setKeyCheckStore(createTextKeyCheckRepository());
 
-interface TeamOKR {
-  id: string;
-  objective: string;
-  aggregatedProgress: number;
-  lastUpdated: number;
+// Unsaved progress edit of one OKR; nothing is sent until the edits are committed
+interface PendingEdit {
+  keyResults: KeyResult[];
+  note: string;
+  confidence: number;
 }
 
+const DEFAULT_CONFIDENCE = 7;
+
 const App: React.FC = () => {
   const [account, setAccount] = useState("");
   const [loading, setLoading] = useState(true);
   const [personalOKRs, setPersonalOKRs] = useState<PersonalOKR[]>([]);
   const [teamOKRs, setTeamOKRs] = useState<TeamOKR[]>([]);
+  const [myTeams, setMyTeams] = useState<Team[]>([]);
+  const [objectives, setObjectives] = useState<Objective[]>([]);
+  const [companyAdmin, setCompanyAdmin] = useState("");
+  const [cycles, setCycles] = useState<Cycle[]>(() => withDefaultCycles([]));
+  const [selectedCycleId, setSelectedCycleId] = useState(() => quarterCycle().id);
   const [provider, setProvider] = useState<ethers.BrowserProvider | null>(null);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [creating, setCreating] = useState(false);
+  // id of the OKR open in the modal for editing; null when the modal creates a new one
+  const [editingId, setEditingId] = useState<string | null>(null);
   const [walletSelectorOpen, setWalletSelectorOpen] = useState(false);
   const [transactionStatus, setTransactionStatus] = useState<{
     visible: boolean;
     status: "pending" | "success" | "error";
     message: string;
   }>({ visible: false, status: "pending", message: "" });
-  const [newOKRData, setNewOKRData] = useState({
+  const [newOKRData, setNewOKRData] = useState<OKRDraft>({
     objective: "",
-    keyResults: [""],
-    progress: 0
+    keyResults: [newKeyResult()],
+    teamId: "",
+    objectiveId: ""
   });
   const [showTutorial, setShowTutorial] = useState(false);
   const [expandedOKR, setExpandedOKR] = useState<string | null>(null);
+  const [checkIns, setCheckIns] = useState<CheckIn[]>([]);
+  const [pendingEdits, setPendingEdits] = useState<Record<string, PendingEdit>>({});
+  const unsavedCount = Object.keys(pendingEdits).length;
 
-  // Calculate statistics for dashboard
-  const activeCount = personalOKRs.filter(okr => okr.status === "active").length;
-  const completedCount = personalOKRs.filter(okr => okr.status === "completed").length;
-  const avgProgress = personalOKRs.length > 0 
-    ? Math.round(personalOKRs.reduce((sum, okr) => sum + okr.progress, 0) / personalOKRs.length)
+  // Calculate statistics for dashboard, scoped to the selected cycle
+  const cycleOKRs = personalOKRs.filter(okr => cycleIdOf(okr, cycles) === selectedCycleId);
+  const activeCount = cycleOKRs.filter(okr => okr.status === "active").length;
+  const completedCount = cycleOKRs.filter(okr => okr.status === "completed").length;
+  const avgProgress = cycleOKRs.length > 0 
+    ? Math.round(cycleOKRs.reduce((sum, okr) => sum + okr.progress, 0) / cycleOKRs.length)
     : 0;
+  const selectedCycle = cycles.find(cycle => cycle.id === selectedCycleId);
 
   useEffect(() => {
     loadOKRs().finally(() => setLoading(false));
@@ -65,6 +106,10 @@ const App: React.FC = () => {
       const accounts = await web3Provider.send("eth_requestAccounts", []);
       const acc = accounts[0] || "";
       setAccount(acc);
+      // one signature per session unlocks the sealed OKR text; declining leaves it locked
+      if (acc) {
+        unlockTextKey(await web3Provider.getSigner(acc)).catch(e => console.warn("OKR text stays locked:", e));
+      }
 
       wallet.provider.on("accountsChanged", async (accounts: string[]) => {
         const newAcc = accounts[0] || "";
@@ -77,6 +122,8 @@ const App: React.FC = () => {
 
   const onConnect = () => setWalletSelectorOpen(true);
   const onDisconnect = () => {
+    lockTextKeys();
+    if (account) clearDecryptionSession(account, config.okrPlatformAddress);
     setAccount("");
     setProvider(null);
   };
@@ -84,95 +131,24 @@ const App: React.FC = () => {
   const loadOKRs = async () => {
     setIsRefreshing(true);
     try {
-      const contract = await getContractReadOnly();
-      if (!contract) return;
-      
-      // Check contract availability using FHE
-      const isAvailable = await contract.isAvailable();
-      if (!isAvailable) {
-        console.error("Contract is not available");
-        return;
-      }
-      
-      // Load personal OKRs
-      const personalKeysBytes = await contract.getData(`okr_keys_${account}`);
-      let personalKeys: string[] = [];
-      
-      if (personalKeysBytes.length > 0) {
-        try {
-          personalKeys = JSON.parse(ethers.toUtf8String(personalKeysBytes));
-        } catch (e) {
-          console.error("Error parsing personal OKR keys:", e);
-        }
-      }
-      
-      const personalList: PersonalOKR[] = [];
-      
-      for (const key of personalKeys) {
-        try {
-          const okrBytes = await contract.getData(`okr_${key}`);
-          if (okrBytes.length > 0) {
-            try {
-              const okrData = JSON.parse(ethers.toUtf8String(okrBytes));
-              personalList.push({
-                id: key,
-                objective: okrData.objective,
-                keyResults: okrData.keyResults,
-                progress: okrData.progress,
-                encryptedData: okrData.encryptedData,
-                timestamp: okrData.timestamp,
-                owner: okrData.owner,
-                status: okrData.status || "active"
-              });
-            } catch (e) {
-              console.error(`Error parsing OKR data for ${key}:`, e);
-            }
-          }
-        } catch (e) {
-          console.error(`Error loading OKR ${key}:`, e);
-        }
-      }
-      
-      personalList.sort((a, b) => b.timestamp - a.timestamp);
-      setPersonalOKRs(personalList);
-      
-      // Load team OKRs
-      const teamKeysBytes = await contract.getData("team_okr_keys");
-      let teamKeys: string[] = [];
-      
-      if (teamKeysBytes.length > 0) {
-        try {
-          teamKeys = JSON.parse(ethers.toUtf8String(teamKeysBytes));
-        } catch (e) {
-          console.error("Error parsing team OKR keys:", e);
-        }
-      }
-      
-      const teamList: TeamOKR[] = [];
-      
-      for (const key of teamKeys) {
-        try {
-          const okrBytes = await contract.getData(`team_okr_${key}`);
-          if (okrBytes.length > 0) {
-            try {
-              const okrData = JSON.parse(ethers.toUtf8String(okrBytes));
-              teamList.push({
-                id: key,
-                objective: okrData.objective,
-                aggregatedProgress: okrData.aggregatedProgress,
-                lastUpdated: okrData.lastUpdated
-              });
-            } catch (e) {
-              console.error(`Error parsing team OKR data for ${key}:`, e);
-            }
-          }
-        } catch (e) {
-          console.error(`Error loading team OKR ${key}:`, e);
-        }
-      }
-      
-      teamList.sort((a, b) => b.lastUpdated - a.lastUpdated);
+      const [personalList, teamList, teams, objectiveList, admin, cycleList] = await Promise.all([
+        repository.listPersonal(account),
+        repository.listTeam(account),
+        account ? teamRepository.listMine() : Promise.resolve([]),
+        teamRepository.listObjectives(),
+        teamRepository.companyAdmin(),
+        cycleRepository.list(account)
+      ]);
+      setCycles(cycleList);
+      // progress comes from the contract whenever decryption is already authorized this session
+      setPersonalOKRs(await repository.decryptProgress(personalList).catch(e => {
+        console.warn("Progress not decrypted:", e);
+        return personalList;
+      }));
       setTeamOKRs(teamList);
+      setMyTeams(teams);
+      setObjectives(objectiveList);
+      setCompanyAdmin(admin);
     } catch (e) {
       console.error("Error loading OKRs:", e);
     } finally {
@@ -195,54 +171,23 @@ const App: React.FC = () => {
     });
     
     try {
-      // Simulate FHE encryption
-      const encryptedData = `FHE-${btoa(JSON.stringify(newOKRData))}`;
-      
-      const contract = await getContractWithSigner();
-      if (!contract) {
-        throw new Error("Failed to get contract with signer");
-      }
-      
-      const okrId = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
-
-      const okrData = {
-        objective: newOKRData.objective,
-        keyResults: newOKRData.keyResults,
-        progress: newOKRData.progress,
-        encryptedData: encryptedData,
-        timestamp: Math.floor(Date.now() / 1000),
-        owner: account,
-        status: "active"
-      };
-      
-      // Store encrypted data on-chain using FHE
-      await contract.setData(
-        `okr_${okrId}`, 
-        ethers.toUtf8Bytes(JSON.stringify(okrData))
-      );
-      
-      const keysBytes = await contract.getData(`okr_keys_${account}`);
-      let keys: string[] = [];
-      
-      if (keysBytes.length > 0) {
-        try {
-          keys = JSON.parse(ethers.toUtf8String(keysBytes));
-        } catch (e) {
-          console.error("Error parsing keys:", e);
-        }
+      if (editingId) {
+        await repository.update(editingId, {
+          objective: newOKRData.objective,
+          keyResults: newOKRData.keyResults,
+          priority: newOKRData.priority
+        });
+        discardEdit(editingId);
+      } else {
+        // new OKRs go into the selected cycle unless it was already closed out
+        const cycleId = selectedCycle && !selectedCycle.closedAt ? selectedCycle.id : quarterCycle().id;
+        await repository.create(account, { ...newOKRData, cycleId });
       }
       
-      keys.push(okrId);
-      
-      await contract.setData(
-        `okr_keys_${account}`, 
-        ethers.toUtf8Bytes(JSON.stringify(keys))
-      );
-      
       setTransactionStatus({
         visible: true,
         status: "success",
-        message: "Encrypted OKR submitted securely!"
+        message: editingId ? "OKR changes encrypted and saved!" : "Encrypted OKR submitted securely!"
       });
       
       await loadOKRs();
@@ -250,10 +195,12 @@ const App: React.FC = () => {
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
         setShowCreateModal(false);
+        setEditingId(null);
         setNewOKRData({
           objective: "",
-          keyResults: [""],
-          progress: 0
+          keyResults: [newKeyResult()],
+          teamId: "",
+          objectiveId: ""
         });
       }, 2000);
     } catch (e: any) {
@@ -275,7 +222,48 @@ const App: React.FC = () => {
     }
   };
 
-  const updateOKRProgress = async (okrId: string, newProgress: number) => {
+  const loadCheckIns = async (okrId: string) => {
+    try {
+      setCheckIns(await repository.listCheckIns(okrId));
+    } catch (e) {
+      console.error("Error loading check-ins:", e);
+      setCheckIns([]);
+    }
+  };
+
+  useEffect(() => {
+    setCheckIns([]);
+    if (expandedOKR) loadCheckIns(expandedOKR);
+  }, [expandedOKR]);
+
+  useEffect(() => {
+    if (unsavedCount === 0) return;
+    const warn = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+      e.returnValue = "";
+    };
+    window.addEventListener("beforeunload", warn);
+    return () => window.removeEventListener("beforeunload", warn);
+  }, [unsavedCount]);
+
+  const editOf = (okr: PersonalOKR): PendingEdit =>
+    pendingEdits[okr.id] || { keyResults: okr.keyResults, note: "", confidence: DEFAULT_CONFIDENCE };
+
+  const editOKR = (okr: PersonalOKR, change: Partial<PendingEdit>) =>
+    setPendingEdits(prev => ({ ...prev, [okr.id]: { ...editOf(okr), ...prev[okr.id], ...change } }));
+
+  const editKeyResult = (okr: PersonalOKR, index: number, change: Partial<KeyResult>) =>
+    editOKR(okr, {
+      keyResults: editOf(okr).keyResults.map((kr, i) => (i === index ? { ...kr, ...change } : kr))
+    });
+
+  const discardEdit = (okrId: string) =>
+    setPendingEdits(prev => {
+      const { [okrId]: _discarded, ...rest } = prev;
+      return rest;
+    });
+
+  const commitEdits = async () => {
     if (!provider) {
       alert("Please connect wallet first");
       return;
@@ -284,31 +272,21 @@ const App: React.FC = () => {
     setTransactionStatus({
       visible: true,
       status: "pending",
-      message: "Updating encrypted progress with FHE..."
+      message: `Encrypting and saving ${unsavedCount} OKR update(s) with FHE...`
     });
 
     try {
-      const contract = await getContractWithSigner();
-      if (!contract) {
-        throw new Error("Failed to get contract with signer");
-      }
-      
-      const okrBytes = await contract.getData(`okr_${okrId}`);
-      if (okrBytes.length === 0) {
-        throw new Error("OKR not found");
-      }
-      
-      const okrData = JSON.parse(ethers.toUtf8String(okrBytes));
-      
-      const updatedOKR = {
-        ...okrData,
-        progress: newProgress
-      };
-      
-      await contract.setData(
-        `okr_${okrId}`, 
-        ethers.toUtf8Bytes(JSON.stringify(updatedOKR))
+      await repository.updateMany(
+        Object.keys(pendingEdits).map(id => {
+          const edit = pendingEdits[id];
+          const note = edit.note.trim();
+          return {
+            id,
+            patch: { keyResults: edit.keyResults, checkIn: { confidence: edit.confidence, ...(note && { note }) } }
+          };
+        })
       );
+      setPendingEdits({});
       
       setTransactionStatus({
         visible: true,
@@ -316,7 +294,7 @@ const App: React.FC = () => {
         message: "Progress updated with FHE encryption!"
       });
       
-      await loadOKRs();
+      await Promise.all([loadOKRs(), expandedOKR ? loadCheckIns(expandedOKR) : Promise.resolve()]);
       
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
@@ -334,7 +312,21 @@ const App: React.FC = () => {
     }
   };
 
-  const archiveOKR = async (okrId: string) => {
+  const openEditModal = (okr: PersonalOKR) => {
+    setNewOKRData({ objective: okr.objective, keyResults: editOf(okr).keyResults, priority: okr.priority });
+    setEditingId(okr.id);
+    setShowCreateModal(true);
+  };
+
+  const closeModal = () => {
+    setShowCreateModal(false);
+    if (editingId) {
+      setEditingId(null);
+      setNewOKRData({ objective: "", keyResults: [newKeyResult()], teamId: "", objectiveId: "" });
+    }
+  };
+
+  const transitionOKR = async (okr: PersonalOKR, action: OKRAction) => {
     if (!provider) {
       alert("Please connect wallet first");
       return;
@@ -343,36 +335,61 @@ const App: React.FC = () => {
     setTransactionStatus({
       visible: true,
       status: "pending",
-      message: "Archiving OKR with FHE..."
+      message: "Updating OKR status..."
     });
 
     try {
-      const contract = await getContractWithSigner();
-      if (!contract) {
-        throw new Error("Failed to get contract with signer");
-      }
+      await repository.update(okr.id, { status: nextStatus(okr.status, action) });
+      discardEdit(okr.id);
       
-      const okrBytes = await contract.getData(`okr_${okrId}`);
-      if (okrBytes.length === 0) {
-        throw new Error("OKR not found");
-      }
+      setTransactionStatus({
+        visible: true,
+        status: "success",
+        message: `OKR is now ${nextStatus(okr.status, action)}`
+      });
       
-      const okrData = JSON.parse(ethers.toUtf8String(okrBytes));
+      await loadOKRs();
       
-      const updatedOKR = {
-        ...okrData,
-        status: "archived"
-      };
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 2000);
+    } catch (e: any) {
+      setTransactionStatus({
+        visible: true,
+        status: "error",
+        message: "Status change failed: " + (e.message || "Unknown error")
+      });
       
-      await contract.setData(
-        `okr_${okrId}`, 
-        ethers.toUtf8Bytes(JSON.stringify(updatedOKR))
-      );
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 3000);
+    }
+  };
+
+  const deleteOKR = async (okr: PersonalOKR) => {
+    if (!provider) {
+      alert("Please connect wallet first");
+      return;
+    }
+    if (!window.confirm(`Delete "${okr.objective}" and its history? This cannot be undone.`)) {
+      return;
+    }
+
+    setTransactionStatus({
+      visible: true,
+      status: "pending",
+      message: "Deleting OKR..."
+    });
+
+    try {
+      await repository.delete(okr.id);
+      discardEdit(okr.id);
+      setExpandedOKR(null);
       
       setTransactionStatus({
         visible: true,
         status: "success",
-        message: "OKR archived securely!"
+        message: "OKR deleted"
       });
       
       await loadOKRs();
@@ -384,7 +401,48 @@ const App: React.FC = () => {
       setTransactionStatus({
         visible: true,
         status: "error",
-        message: "Archive failed: " + (e.message || "Unknown error")
+        message: "Delete failed: " + (e.message || "Unknown error")
+      });
+      
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 3000);
+    }
+  };
+
+  const unlockText = async () => {
+    if (!provider) {
+      alert("Please connect wallet first");
+      return;
+    }
+    try {
+      await unlockTextKey(await provider.getSigner(account));
+      await loadOKRs();
+    } catch (e: any) {
+      alert("Could not unlock OKR text: " + (e.message || "Unknown error"));
+    }
+  };
+
+  const decryptProgress = async () => {
+    if (!provider) {
+      alert("Please connect wallet first");
+      return;
+    }
+
+    setTransactionStatus({
+      visible: true,
+      status: "pending",
+      message: "Decrypting your progress from the FHE contract..."
+    });
+
+    try {
+      setPersonalOKRs(await repository.decryptProgress(personalOKRs, true));
+      setTransactionStatus({ visible: false, status: "pending", message: "" });
+    } catch (e: any) {
+      setTransactionStatus({
+        visible: true,
+        status: "error",
+        message: "Decryption failed: " + (e.message || "Unknown error")
       });
       
       setTimeout(() => {
@@ -393,6 +451,134 @@ const App: React.FC = () => {
     }
   };
 
+  // The oracle answers asynchronously: the objective shows as pending until its callback lands
+  const revealObjectiveProgress = async (okr: TeamOKR) => {
+    if (!provider || !okr.teamId) {
+      alert("Please connect wallet first");
+      return;
+    }
+
+    setTransactionStatus({
+      visible: true,
+      status: "pending",
+      message: "Requesting decryption of the aggregated progress..."
+    });
+
+    try {
+      await teamRepository.revealObjective(okr.id, okr.teamId);
+      setTransactionStatus({
+        visible: true,
+        status: "success",
+        message: "Decryption requested, waiting for the oracle"
+      });
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 2000);
+
+      await loadOKRs();
+      await teamRepository.waitForReveal(objectiveAggregateKey(okr.id), okr.teamId);
+      await loadOKRs();
+    } catch (e: any) {
+      setTransactionStatus({
+        visible: true,
+        status: "error",
+        message: "Reveal failed: " + (e.reason || e.message || "Unknown error")
+      });
+
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 3000);
+    }
+  };
+
+  const repairOKRIndex = async () => {
+    if (!provider) {
+      alert("Please connect wallet first");
+      return;
+    }
+
+    setTransactionStatus({
+      visible: true,
+      status: "pending",
+      message: "Scanning for unlinked OKRs..."
+    });
+
+    try {
+      const restored = await repository.repair(account);
+
+      setTransactionStatus({
+        visible: true,
+        status: "success",
+        message: restored.length > 0 ? `Re-linked ${restored.length} OKR(s)` : "No unlinked OKRs found"
+      });
+
+      if (restored.length > 0) await loadOKRs();
+
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 2000);
+    } catch (e: any) {
+      setTransactionStatus({
+        visible: true,
+        status: "error",
+        message: "Repair failed: " + (e.message || "Unknown error")
+      });
+
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 3000);
+    }
+  };
+
+  const saveCycle = async (cycle: Cycle) => {
+    try {
+      setCycles(await cycleRepository.save(account, cycle));
+      setSelectedCycleId(cycle.id);
+    } catch (e: any) {
+      alert("Saving cycle failed: " + (e.message || "Unknown error"));
+    }
+  };
+
+  const closeOutCycle = async (cycle: Cycle) => {
+    if (!provider) {
+      alert("Please connect wallet first");
+      return;
+    }
+
+    setTransactionStatus({
+      visible: true,
+      status: "pending",
+      message: `Closing ${cycle.name} and rolling over unfinished OKRs...`
+    });
+
+    try {
+      const result = await cycleRepository.closeOut(account, cycle.id, personalOKRs);
+
+      setTransactionStatus({
+        visible: true,
+        status: "success",
+        message: `${result.closed.name} closed, ${result.rolled.length} OKR(s) rolled into ${result.next.name}`
+      });
+
+      setSelectedCycleId(result.next.id);
+      await loadOKRs();
+
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 2000);
+    } catch (e: any) {
+      setTransactionStatus({
+        visible: true,
+        status: "error",
+        message: "Close-out failed: " + (e.message || "Unknown error")
+      });
+
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 3000);
+    }
+  };
+
   const isOwner = (address: string) => {
     return account.toLowerCase() === address.toLowerCase();
   };
@@ -432,21 +618,42 @@ const App: React.FC = () => {
     );
   };
 
+  // Only values the decryption oracle verified are charted, newest first
+  const revealedProgress = [
+    ...myTeams.flatMap(team => team.reveal ? [{ id: team.id, label: team.name, reveal: team.reveal }] : []),
+    ...teamOKRs.flatMap(okr => okr.reveal ? [{ id: okr.id, label: okr.objective, reveal: okr.reveal }] : [])
+  ].sort((a, b) => b.reveal.revealedAt - a.reveal.revealedAt);
+
+  const formatTime = (seconds: number) => new Date(seconds * 1000).toLocaleString();
+
   const renderBarChart = () => {
     return (
       <div className="bar-chart-container">
         <div className="chart-title">Team Progress Overview</div>
         <div className="chart-bars">
-          {teamOKRs.slice(0, 5).map((okr, index) => (
-            <div className="bar-item" key={okr.id}>
-              <div className="bar-label">Obj {index + 1}</div>
+          {revealedProgress.slice(0, 5).map(item => (
+            <div
+              className="bar-item"
+              key={item.id}
+              title={`${item.label}: revealed ${formatTime(item.reveal.revealedAt)}, ${item.reveal.contributors} contributor(s)`}
+            >
+              <div className="bar-label">{item.label}</div>
               <div className="bar-wrapper">
                 <div 
                   className="bar" 
-                  style={{ height: `${okr.aggregatedProgress}%` }}
+                  style={{ height: `${item.reveal.progress}%` }}
                 ></div>
+                {item.reveal.margin > 0 && (
+                  <div
+                    className="bar-band"
+                    style={{
+                      bottom: `${Math.max(0, item.reveal.progress - item.reveal.margin)}%`,
+                      top: `${Math.max(0, 100 - item.reveal.progress - item.reveal.margin)}%`
+                    }}
+                  ></div>
+                )}
               </div>
-              <div className="bar-value">{okr.aggregatedProgress}%</div>
+              <div className="bar-value">{revealLabel(item.reveal)}</div>
             </div>
           ))}
         </div>
@@ -548,9 +755,17 @@ const App: React.FC = () => {
           
           <div className="dashboard-card nature-card">
             <h3>Your OKR Statistics</h3>
+            <CycleSelector
+              account={account}
+              cycles={cycles}
+              selectedId={selectedCycleId}
+              onSelect={setSelectedCycleId}
+              onCloseOut={closeOutCycle}
+              onCreate={saveCycle}
+            />
             <div className="stats-grid">
               <div className="stat-item">
-                <div className="stat-value">{personalOKRs.length}</div>
+                <div className="stat-value">{cycleOKRs.length}</div>
                 <div className="stat-label">Total OKRs</div>
               </div>
               <div className="stat-item">
@@ -570,12 +785,26 @@ const App: React.FC = () => {
           
           <div className="dashboard-card nature-card">
             <h3>Team Progress</h3>
-            {teamOKRs.length > 0 ? renderBarChart() : (
+            {revealedProgress.length > 0 ? renderBarChart() : (
               <div className="no-team-data">
-                <p>Team progress data will appear here once aggregated</p>
+                <p>Team progress will appear here once an aggregate has been revealed</p>
               </div>
             )}
           </div>
+
+          <div className="dashboard-card nature-card">
+            <h3>Team Distribution</h3>
+            <TeamDashboard
+              teams={myTeams}
+              teamRepository={teamRepository}
+              since={selectedCycle?.start ?? quarterCycle().start}
+            />
+          </div>
+
+          <div className="dashboard-card nature-card">
+            <h3>Network</h3>
+            <RpcDiagnostics manager={getRpcManager()} />
+          </div>
         </div>
         
         <div className="okr-sections">
@@ -590,14 +819,43 @@ const App: React.FC = () => {
                 >
                   {isRefreshing ? "Refreshing..." : "Refresh"}
                 </button>
+                {unsavedCount > 0 && (
+                  <>
+                    <button className="nature-button primary" onClick={commitEdits}>
+                      Save {unsavedCount} change(s)
+                    </button>
+                    <button className="nature-button cancel-btn" onClick={() => setPendingEdits({})}>
+                      Discard
+                    </button>
+                  </>
+                )}
+                {account && personalOKRs.some(okr => okr.platformId && !okr.decrypted) && (
+                  <button onClick={decryptProgress} className="refresh-btn nature-button">
+                    Decrypt progress
+                  </button>
+                )}
+                {account && personalOKRs.some(okr => okr.locked) && (
+                  <button onClick={unlockText} className="refresh-btn nature-button">
+                    Unlock text
+                  </button>
+                )}
+                {account && (
+                  <button
+                    onClick={repairOKRIndex}
+                    className="refresh-btn nature-button"
+                    disabled={isRefreshing}
+                  >
+                    Repair
+                  </button>
+                )}
               </div>
             </div>
             
             <div className="okr-list nature-card">
-              {personalOKRs.length === 0 ? (
+              {cycleOKRs.length === 0 ? (
                 <div className="no-okrs">
                   <div className="no-okrs-icon"></div>
-                  <p>No personal OKRs found</p>
+                  <p>No personal OKRs in {selectedCycle?.name ?? "this cycle"}</p>
                   <button 
                     className="nature-button primary"
                     onClick={() => setShowCreateModal(true)}
@@ -606,62 +864,139 @@ const App: React.FC = () => {
                   </button>
                 </div>
               ) : (
-                personalOKRs.map(okr => (
-                  <div 
-                    className={`okr-item ${okr.status}`} 
-                    key={okr.id}
-                    onClick={() => setExpandedOKR(expandedOKR === okr.id ? null : okr.id)}
-                  >
-                    <div className="okr-header">
-                      <div className="okr-title">{okr.objective}</div>
-                      <div className="okr-meta">
-                        <span className={`status-badge ${okr.status}`}>
-                          {okr.status}
-                        </span>
-                        <span className="date">
-                          {new Date(okr.timestamp * 1000).toLocaleDateString()}
-                        </span>
+                cycleOKRs.map(okr => {
+                  const edit = pendingEdits[okr.id];
+                  const keyResults = edit ? edit.keyResults : okr.keyResults;
+                  return (
+                    <div 
+                      className={`okr-item ${okr.status}${edit ? " unsaved" : ""}`} 
+                      key={okr.id}
+                      onClick={() => setExpandedOKR(expandedOKR === okr.id ? null : okr.id)}
+                    >
+                      <div className="okr-header">
+                        <div className={`okr-title${okr.locked ? " locked" : ""}`}>
+                          {okr.locked ? "Locked objective · unlock to read" : okr.objective}
+                        </div>
+                        <div className="okr-meta">
+                          <span className={`status-badge ${okr.status}`}>
+                            {okr.status}
+                          </span>
+                          {okr.rolledInto && <span className="status-badge archived">rolled over</span>}
+                          {okr.rolledFrom && <span className="status-badge active">carried over</span>}
+                          {edit && <span className="status-badge unsaved">unsaved changes</span>}
+                          {okr.decrypted && <span className="status-badge decrypted">from chain</span>}
+                          <span className="date">
+                            {new Date(okr.timestamp * 1000).toLocaleDateString()}
+                          </span>
+                        </div>
                       </div>
-                    </div>
-                    
-                    {renderProgressBar(okr.progress)}
-                    
-                    {expandedOKR === okr.id && (
-                      <div className="okr-details">
-                        <div className="key-results">
-                          <h4>Key Results:</h4>
-                          <ul>
-                            {okr.keyResults.map((kr, index) => (
-                              <li key={index}>{kr}</li>
-                            ))}
-                          </ul>
+                      
+                      {renderProgressBar(edit ? objectiveProgress(edit.keyResults) : okr.progress)}
+
+                      {!edit && suggestsCompletion(okr) && (
+                        <div className="completion-suggestion" onClick={(e) => e.stopPropagation()}>
+                          Every key result is done.
+                          <button className="nature-button" onClick={() => transitionOKR(okr, "complete")}>
+                            {ACTION_LABELS.complete}
+                          </button>
                         </div>
-                        
-                        <div className="okr-actions">
-                          <div className="progress-slider">
-                            <label>Update Progress: {okr.progress}%</label>
-                            <input 
-                              type="range" 
-                              min="0" 
-                              max="100" 
-                              value={okr.progress} 
-                              onChange={(e) => updateOKRProgress(okr.id, parseInt(e.target.value))}
-                            />
+                      )}
+                      
+                      {expandedOKR === okr.id && (
+                        <div className="okr-details">
+                          <div className="key-results">
+                            <h4>Key Results:</h4>
+                            <ul>
+                              {keyResults.map((kr, index) => (
+                                <li key={index} onClick={(e) => e.stopPropagation()}>
+                                  <div>
+                                    {kr.title} ({kr.metric}, weight {kr.weight}): {keyResultProgress(kr)}%
+                                  </div>
+                                  <div className="progress-slider">
+                                    {kr.metric === "boolean" ? (
+                                      <label>
+                                        <input
+                                          type="checkbox"
+                                          checked={kr.current >= 1}
+                                          disabled={!canEdit(okr.status)}
+                                          onChange={(e) => editKeyResult(okr, index, { current: e.target.checked ? 1 : 0 })}
+                                        />
+                                        Done
+                                      </label>
+                                    ) : (
+                                      <>
+                                        <input
+                                          type="range"
+                                          min={Math.min(kr.start, kr.target)}
+                                          max={Math.max(kr.start, kr.target)}
+                                          step={kr.metric === "milestone" ? 1 : "any"}
+                                          value={kr.current}
+                                          disabled={!canEdit(okr.status)}
+                                          onChange={(e) => editKeyResult(okr, index, { current: parseFloat(e.target.value) })}
+                                        />
+                                        <span>{kr.current} / {kr.target} {kr.unit}</span>
+                                      </>
+                                    )}
+                                  </div>
+                                </li>
+                              ))}
+                            </ul>
+                          </div>
+
+                          <div className="check-ins" onClick={(e) => e.stopPropagation()}>
+                            <h4>Check-ins:</h4>
+                            <div className="check-in-form">
+                              <input
+                                type="text"
+                                value={editOf(okr).note}
+                                onChange={(e) => editOKR(okr, { note: e.target.value })}
+                                placeholder="Private note for the next check-in"
+                                className="nature-input"
+                                disabled={!canEdit(okr.status)}
+                              />
+                              <label>
+                                Confidence {editOf(okr).confidence}/10
+                                <input
+                                  type="range"
+                                  min="1"
+                                  max="10"
+                                  value={editOf(okr).confidence}
+                                  onChange={(e) => editOKR(okr, { confidence: parseInt(e.target.value, 10) })}
+                                />
+                              </label>
+                              {edit && (
+                                <button className="nature-button cancel-btn" onClick={() => discardEdit(okr.id)}>
+                                  Discard changes
+                                </button>
+                              )}
+                            </div>
+                            <CheckInTimeline checkIns={checkIns} statusChanges={okr.statusHistory} />
                           </div>
                           
-                          {okr.status !== "archived" && (
-                            <button 
-                              className="nature-button archive-btn"
-                              onClick={() => archiveOKR(okr.id)}
-                            >
-                              Archive OKR
+                          <div className="okr-actions" onClick={(e) => e.stopPropagation()}>
+                            {canEdit(okr.status) && !okr.locked && (
+                              <button className="nature-button" onClick={() => openEditModal(okr)}>
+                                Edit
+                              </button>
+                            )}
+                            {availableActions(okr.status).map(action => (
+                              <button
+                                key={action}
+                                className={`nature-button ${action === "archive" ? "archive-btn" : ""}`}
+                                onClick={() => transitionOKR(okr, action)}
+                              >
+                                {ACTION_LABELS[action]}
+                              </button>
+                            ))}
+                            <button className="nature-button cancel-btn" onClick={() => deleteOKR(okr)}>
+                              Delete
                             </button>
-                          )}
+                          </div>
                         </div>
-                      </div>
-                    )}
-                  </div>
-                ))
+                      )}
+                    </div>
+                  );
+                })
               )}
             </div>
           </div>
@@ -684,14 +1019,64 @@ const App: React.FC = () => {
                 teamOKRs.map(okr => (
                   <div className="team-okr-item" key={okr.id}>
                     <div className="team-okr-title">{okr.objective}</div>
-                    {renderProgressBar(okr.aggregatedProgress)}
+                    {okr.teamId && !okr.reveal ? (
+                      <div className="team-okr-encrypted">
+                        {lacksContributors(okr)
+                          ? `Not enough contributors yet (${okr.contributors} of ${okr.minContributors})`
+                          : "Encrypted until revealed"}
+                      </div>
+                    ) : renderProgressBar(okr.aggregatedProgress)}
                     <div className="team-okr-meta">
                       Last updated: {new Date(okr.lastUpdated * 1000).toLocaleDateString()}
+                      {okr.memberCount !== undefined && ` · ${okr.memberCount} member(s)`}
+                      {okr.alignedCount !== undefined && ` · ${okr.alignedCount} aligned OKR(s)`}
                     </div>
+                    {okr.reveal && (
+                      <div className="team-okr-meta">
+                        {okr.reveal.margin > 0 && `Approximately ${revealLabel(okr.reveal)} · `}
+                        Revealed {formatTime(okr.reveal.revealedAt)} · {okr.reveal.contributors} contributor(s)
+                      </div>
+                    )}
+                    {okr.teamId && revealWindowOpensAt(okr) > 0 && (
+                      <div className="team-okr-meta">
+                        Next reveal window opens {formatTime(revealWindowOpensAt(okr))}
+                      </div>
+                    )}
+                    {okr.teamId && account && (
+                      <button
+                        className="nature-button"
+                        disabled={okr.revealPending || revealWindowOpensAt(okr) > 0}
+                        onClick={() => revealObjectiveProgress(okr)}
+                      >
+                        {okr.revealPending ? "Decrypting..." : "Reveal progress"}
+                      </button>
+                    )}
                   </div>
                 ))
               )}
             </div>
+
+            <div className="section-header">
+              <h2>Alignment</h2>
+            </div>
+            <AlignmentTree
+              account={account}
+              companyAdmin={companyAdmin}
+              objectives={objectives}
+              teamRepository={teamRepository}
+              onChanged={loadOKRs}
+            />
+
+            <div className="section-header">
+              <h2>Your Teams</h2>
+            </div>
+            <TeamManager
+              account={account}
+              teams={myTeams}
+              objectives={objectives}
+              teamRepository={teamRepository}
+              onChanged={loadOKRs}
+            />
           </div>
         </div>
       </div>
@@ -699,10 +1084,13 @@ const App: React.FC = () => {
       {showCreateModal && (
         <ModalCreate 
           onSubmit={submitOKR} 
-          onClose={() => setShowCreateModal(false)} 
+          onClose={closeModal} 
           creating={creating}
+          editing={!!editingId}
           okrData={newOKRData}
           setOKRData={setNewOKRData}
+          teams={myTeams}
+          objectives={objectives}
         />
       )}
       
@@ -764,18 +1152,27 @@ interface ModalCreateProps {
   onSubmit: () => void; 
   onClose: () => void; 
   creating: boolean;
-  okrData: any;
-  setOKRData: (data: any) => void;
+  // editing an existing OKR: its team and alignment are fixed
+  editing?: boolean;
+  okrData: OKRDraft;
+  setOKRData: (data: OKRDraft) => void;
+  teams: Team[];
+  objectives: Objective[];
 }
 
 const ModalCreate: React.FC<ModalCreateProps> = ({ 
   onSubmit, 
   onClose, 
   creating,
+  editing = false,
   okrData,
-  setOKRData
+  setOKRData,
+  teams,
+  objectives
 }) => {
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+  const teamObjectives = objectives.filter(o => okrData.teamId && o.teamId === okrData.teamId);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     setOKRData({
       ...okrData,
@@ -783,7 +1180,7 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
     });
   };
 
-  const handleKeyResultChange = (index: number, value: string) => {
+  const handleKeyResultChange = (index: number, value: KeyResult) => {
     const newKeyResults = [...okrData.keyResults];
     newKeyResults[index] = value;
     setOKRData({
@@ -793,9 +1190,10 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
   };
 
   const addKeyResult = () => {
+    if (okrData.keyResults.length >= MAX_KEY_RESULTS) return;
     setOKRData({
       ...okrData,
-      keyResults: [...okrData.keyResults, ""]
+      keyResults: [...okrData.keyResults, newKeyResult()]
     });
   };
 
@@ -811,10 +1209,14 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
   };
 
   const handleSubmit = () => {
-    if (!okrData.objective || okrData.keyResults.some((kr: string) => kr.trim() === "")) {
+    if (!okrData.objective || okrData.keyResults.some(kr => kr.title.trim() === "")) {
       alert("Please fill required fields");
       return;
     }
+    if (okrData.keyResults.every(kr => kr.weight <= 0)) {
+      alert("At least one key result needs a positive weight");
+      return;
+    }
     
     onSubmit();
   };
@@ -823,7 +1225,7 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
     <div className="modal-overlay">
       <div className="create-modal nature-card">
         <div className="modal-header">
-          <h2>Create New OKR</h2>
+          <h2>{editing ? "Edit OKR" : "Create New OKR"}</h2>
           <button onClick={onClose} className="close-modal">&times;</button>
         </div>
         
@@ -846,40 +1248,73 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
           
           <div className="form-group">
             <label>Key Results *</label>
-            {okrData.keyResults.map((kr: string, index: number) => (
-              <div className="key-result-input" key={index}>
-                <input
-                  type="text"
-                  value={kr}
-                  onChange={(e) => handleKeyResultChange(index, e.target.value)}
-                  placeholder={`Key result #${index + 1}`}
-                  className="nature-input"
-                />
-                <button 
-                  className="remove-kr-btn"
-                  onClick={() => removeKeyResult(index)}
-                  disabled={okrData.keyResults.length <= 1}
-                >
-                  &times;
-                </button>
-              </div>
+            {okrData.keyResults.map((kr, index) => (
+              <KeyResultEditor
+                key={index}
+                index={index}
+                keyResult={kr}
+                onChange={(value) => handleKeyResultChange(index, value)}
+                onRemove={() => removeKeyResult(index)}
+                canRemove={okrData.keyResults.length > 1}
+              />
             ))}
             <button className="add-kr-btn nature-button" onClick={addKeyResult}>
               + Add Key Result
             </button>
           </div>
           
+          {!editing && (
+            <div className="form-group">
+              <label>Team</label>
+              <select
+                name="teamId"
+                value={okrData.teamId}
+                onChange={(e) => setOKRData({ ...okrData, teamId: e.target.value, objectiveId: "" })}
+                className="nature-input"
+              >
+                <option value="">Personal (no team)</option>
+                {teams.map(team => (
+                  <option key={team.id} value={team.id}>{team.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          
+          {!editing && teamObjectives.length > 0 && (
+            <div className="form-group">
+              <label>Aligns to</label>
+              <select
+                name="objectiveId"
+                value={okrData.objectiveId}
+                onChange={handleChange}
+                className="nature-input"
+              >
+                <option value="">No team objective</option>
+                {teamObjectives.map(objective => (
+                  <option key={objective.id} value={objective.id}>{objective.title}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          
           <div className="form-group">
-            <label>Initial Progress</label>
+            <label>Priority</label>
+            <select
+              name="priority"
+              value={okrData.priority ?? DEFAULT_PRIORITY}
+              onChange={(e) => setOKRData({ ...okrData, priority: parseInt(e.target.value, 10) })}
+              className="nature-input"
+            >
+              {PRIORITIES.map(priority => (
+                <option key={priority} value={priority}>{PRIORITY_LABELS[priority]}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="form-group">
+            <label>{editing ? "Progress" : "Initial Progress"}</label>
             <div className="progress-slider">
-              <input 
-                type="range" 
-                min="0" 
-                max="100" 
-                value={okrData.progress} 
-                onChange={(e) => setOKRData({...okrData, progress: parseInt(e.target.value)})}
-              />
-              <span>{okrData.progress}%</span>
+              <span>{objectiveProgress(okrData.keyResults)}% (weighted from key results)</span>
             </div>
           </div>
           
@@ -900,7 +1335,7 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
             disabled={creating}
             className="submit-btn nature-button primary"
           >
-            {creating ? "Encrypting with FHE..." : "Create OKR"}
+            {creating ? "Encrypting with FHE..." : editing ? "Save changes" : "Create OKR"}
           </button>
         </div>
       </div>
@@ -0,0 +1,128 @@
+// batchReader.ts
+import { ethers } from "ethers";
+import type { UniversalAdapter } from "../../../types";
+import type { DefaultReturnType, TypedContractMethod } from "../../../types/common";
+
+// Multicall3 sits at the same address on Sepolia and most public chains
+export const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
+const MULTICALL3_ABI = [
+  "function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)"
+];
+
+// Larger batches risk hitting the RPC's eth_call gas cap
+const MAX_BATCH_SIZE = 100;
+
+// View functions of a TypeChain contract, with the arguments and result a direct call has
+type ViewMethod<C> = {
+  [K in keyof C]: C[K] extends TypedContractMethod<infer _A, infer _R, "view"> ? K : never;
+}[keyof C] &
+  string;
+type ViewArgs<M> = M extends TypedContractMethod<infer A, infer _R, "view"> ? A : never;
+type ViewResult<M> = M extends TypedContractMethod<infer _A, infer R, "view"> ? DefaultReturnType<R> : never;
+
+interface PendingCall {
+  method: string;
+  args: readonly unknown[];
+  resolve: (value: any) => void;
+  reject: (reason: unknown) => void;
+}
+
+// Coalesces concurrent view calls into one Multicall3 request. Chains without Multicall3
+// (the local hardhat network) get the same batch as parallel eth_calls. Multicall3 is the
+// caller of every batched call, so views that depend on msg.sender must not go through here.
+export class ContractBatcher<C extends ethers.BaseContract> {
+  private queue: PendingCall[] = [];
+  private scheduled = false;
+  private multicall: Promise<ethers.Contract | null> | null = null;
+
+  constructor(readonly contract: C) {}
+
+  read<K extends ViewMethod<C>>(method: K, ...args: ViewArgs<C[K]>): Promise<ViewResult<C[K]>> {
+    return new Promise((resolve, reject) => {
+      this.queue.push({ method, args, resolve, reject });
+      if (!this.scheduled) {
+        this.scheduled = true;
+        // a macrotask lets every caller awaiting in the same tick join the batch
+        setTimeout(() => this.flush(), 0);
+      }
+    });
+  }
+
+  private flush() {
+    this.scheduled = false;
+    const calls = this.queue;
+    this.queue = [];
+    for (let i = 0; i < calls.length; i += MAX_BATCH_SIZE) {
+      this.execute(calls.slice(i, i + MAX_BATCH_SIZE));
+    }
+  }
+
+  private getMulticall(): Promise<ethers.Contract | null> {
+    if (!this.multicall) {
+      const provider = this.contract.runner?.provider;
+      this.multicall = provider
+        ? provider.getCode(MULTICALL3_ADDRESS).then(
+            code => (code === "0x" ? null : new ethers.Contract(MULTICALL3_ADDRESS, MULTICALL3_ABI, provider)),
+            () => null
+          )
+        : Promise.resolve(null);
+    }
+    return this.multicall;
+  }
+
+  private async execute(calls: PendingCall[]) {
+    const multicall = calls.length > 1 ? await this.getMulticall() : null;
+    if (!multicall) {
+      await Promise.all(calls.map(call => this.callDirect(call)));
+      return;
+    }
+
+    const iface = this.contract.interface;
+    try {
+      const target = await this.contract.getAddress();
+      const results: { success: boolean; returnData: string }[] = await multicall.aggregate3.staticCall(
+        calls.map(call => ({
+          target,
+          allowFailure: true,
+          callData: iface.encodeFunctionData(call.method, call.args)
+        }))
+      );
+      results.forEach((result, i) => {
+        const call = calls[i];
+        if (!result.success) {
+          call.reject(new Error(`${call.method} reverted in multicall`));
+          return;
+        }
+        try {
+          // unwrapped like a direct call: single outputs as the value, several as the Result
+          const decoded = iface.decodeFunctionResult(call.method, result.returnData);
+          call.resolve(decoded.length === 1 ? decoded[0] : decoded);
+        } catch (e) {
+          call.reject(e);
+        }
+      });
+    } catch (e) {
+      console.warn("Multicall batch failed, falling back to individual calls:", e);
+      await Promise.all(calls.map(call => this.callDirect(call)));
+    }
+  }
+
+  private async callDirect(call: PendingCall) {
+    try {
+      call.resolve(await this.contract.getFunction(call.method).staticCall(...call.args));
+    } catch (e) {
+      call.reject(e);
+    }
+  }
+}
+
+export class AdapterBatcher extends ContractBatcher<UniversalAdapter> {
+  getData(owner: string, key: string): Promise<string> {
+    return this.read("getData", owner, key);
+  }
+
+  isAvailable(): Promise<boolean> {
+    return this.read("isAvailable");
+  }
+}
@@ -0,0 +1,176 @@
+import React, { useEffect, useState } from 'react';
+import { ethers } from 'ethers';
+import { Objective, PrivacyBudget, TeamRepository } from '../repository';
+
+interface AlignmentTreeProps {
+  account: string;
+  companyAdmin: string;
+  objectives: Objective[];
+  teamRepository: TeamRepository;
+  onChanged: () => void;
+}
+
+// Company objectives with their team objectives underneath. Personal OKRs appear only as a
+// count per objective, so the tree never shows who contributed.
+export default function AlignmentTree({ account, companyAdmin, objectives, teamRepository, onChanged }: AlignmentTreeProps) {
+  const [title, setTitle] = useState('');
+  const [epsilonPerReveal, setEpsilonPerReveal] = useState('');
+  const [totalEpsilon, setTotalEpsilon] = useState('');
+  const [privacy, setPrivacy] = useState<PrivacyBudget | undefined>(undefined);
+  const [companyKey, setCompanyKey] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState('');
+
+  const companyObjectives = objectives.filter(o => o.teamId === ethers.ZeroHash);
+  const teamObjectives = objectives.filter(o => o.teamId !== ethers.ZeroHash);
+  const unparented = teamObjectives.filter(o => o.parentId === '0');
+  const isCompanyAdmin = !!account && account.toLowerCase() === companyAdmin.toLowerCase();
+
+  // company objective reveals spend the budget kept under the zero team id
+  useEffect(() => {
+    let cancelled = false;
+    teamRepository.privacyOf(ethers.ZeroHash)
+      .then(budget => {
+        if (!cancelled) setPrivacy(budget);
+      })
+      .catch(e => console.warn('Could not load the company privacy budget:', e));
+    return () => {
+      cancelled = true;
+    };
+  }, [objectives, teamRepository]);
+
+  const createCompanyObjective = async () => {
+    setBusy(true);
+    setMessage('');
+    try {
+      await teamRepository.createObjective(title, ethers.ZeroHash);
+      setTitle('');
+      onChanged();
+    } catch (e: any) {
+      setMessage('Failed to create objective: ' + (e.reason || e.message || 'Unknown error'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const configureCompanyPrivacy = async () => {
+    setBusy(true);
+    setMessage('');
+    try {
+      await teamRepository.configurePrivacy(ethers.ZeroHash, parseFloat(epsilonPerReveal), parseFloat(totalEpsilon));
+      setEpsilonPerReveal('');
+      setTotalEpsilon('');
+      setPrivacy(await teamRepository.privacyOf(ethers.ZeroHash));
+    } catch (e: any) {
+      setMessage('Failed to configure the privacy budget: ' + (e.reason || e.message || 'Unknown error'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // team admins pass it on to their teams so members can read company objective titles
+  const showCompanyKey = async () => {
+    setBusy(true);
+    setMessage('');
+    try {
+      setCompanyKey(await teamRepository.exportCompanyKey());
+    } catch (e: any) {
+      setMessage('Failed to load the company key: ' + (e.reason || e.message || 'Unknown error'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const renderTeamObjective = (objective: Objective) => (
+    <li key={objective.id} className="alignment-node">
+      <span className="alignment-title">{objective.title}</span>
+      <span className="alignment-meta">
+        {objective.teamName} · {objective.alignedCount} aligned OKR(s)
+      </span>
+    </li>
+  );
+
+  return (
+    <div className="alignment-tree nature-card">
+      {objectives.length === 0 ? (
+        <p>No objectives yet</p>
+      ) : (
+        <ul>
+          {companyObjectives.map(company => (
+            <li key={company.id} className="alignment-node company">
+              <span className="alignment-title">{company.title}</span>
+              <span className="alignment-meta">Company · {company.childObjectiveCount} team objective(s)</span>
+              <ul>{teamObjectives.filter(o => o.parentId === company.id).map(renderTeamObjective)}</ul>
+            </li>
+          ))}
+          {unparented.length > 0 && (
+            <li className="alignment-node company">
+              <span className="alignment-title">Not aligned to a company objective</span>
+              <ul>{unparented.map(renderTeamObjective)}</ul>
+            </li>
+          )}
+        </ul>
+      )}
+
+      {isCompanyAdmin && (
+        <div className="form-group">
+          <label>Add a company objective</label>
+          <input
+            type="text"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder="Company objective"
+            className="nature-input"
+          />
+          <button className="nature-button" disabled={busy || !title.trim()} onClick={createCompanyObjective}>
+            Add objective
+          </button>
+          <label>Noise on company objective reveals</label>
+          <input
+            type="number"
+            min="0.01"
+            step="0.1"
+            value={epsilonPerReveal}
+            onChange={(e) => setEpsilonPerReveal(e.target.value)}
+            placeholder="ε per reveal (smaller adds more noise)"
+            className="nature-input"
+          />
+          <input
+            type="number"
+            min="0.01"
+            step="0.1"
+            value={totalEpsilon}
+            onChange={(e) => setTotalEpsilon(e.target.value)}
+            placeholder={privacy ? `Total ε budget (at most ${privacy.totalEpsilon})` : 'Total ε budget'}
+            className="nature-input"
+          />
+          <button
+            className="nature-button"
+            disabled={
+              busy ||
+              !(parseFloat(epsilonPerReveal) > 0) ||
+              !(parseFloat(totalEpsilon) >= parseFloat(epsilonPerReveal)) ||
+              (!!privacy && parseFloat(totalEpsilon) > privacy.totalEpsilon)
+            }
+            onClick={configureCompanyPrivacy}
+          >
+            {privacy ? 'Update privacy budget' : 'Add noise to reveals'}
+          </button>
+          <button className="nature-button" disabled={busy} onClick={showCompanyKey}>
+            Show company key for team admins
+          </button>
+          {companyKey && <code className="invite-code">{companyKey}</code>}
+        </div>
+      )}
+
+      {privacy && (
+        <div className="team-okr-meta">
+          Company objective reveals: ε {privacy.spentEpsilon} of {privacy.totalEpsilon} spent
+          {' '}(ε {privacy.epsilonPerReveal} per reveal)
+        </div>
+      )}
+
+      {message && <div className="team-manager-message">{message}</div>}
+    </div>
+  );
+}
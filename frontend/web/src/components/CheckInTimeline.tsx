@@ -0,0 +1,71 @@
+import React from 'react';
+import { CheckIn, StatusChange } from '../repository';
+
+interface CheckInTimelineProps {
+  checkIns: CheckIn[];
+  statusChanges?: StatusChange[];
+}
+
+type TimelineEntry = { kind: 'check-in'; entry: CheckIn } | { kind: 'status'; entry: StatusChange };
+
+const WIDTH = 240;
+const HEIGHT = 48;
+
+// Check-ins recorded on another device have no clear progress here and are left out of the line
+const Sparkline: React.FC<{ checkIns: CheckIn[] }> = ({ checkIns }) => {
+  const known = checkIns.filter(c => c.progress !== null);
+  if (known.length < 2) return null;
+
+  const first = known[0].timestamp;
+  const span = Math.max(1, known[known.length - 1].timestamp - first);
+  const points = known
+    .map(c => `${((c.timestamp - first) / span) * WIDTH},${HEIGHT - ((c.progress as number) / 100) * HEIGHT}`)
+    .join(' ');
+
+  return (
+    <svg className="check-in-sparkline" width={WIDTH} height={HEIGHT} viewBox={`0 0 ${WIDTH} ${HEIGHT}`}>
+      <polyline points={points} fill="none" stroke="currentColor" strokeWidth="2" />
+    </svg>
+  );
+};
+
+const CheckInTimeline: React.FC<CheckInTimelineProps> = ({ checkIns, statusChanges = [] }) => {
+  if (checkIns.length === 0 && statusChanges.length === 0) {
+    return <div className="check-in-timeline">No check-ins yet</div>;
+  }
+
+  // newest first
+  const entries: TimelineEntry[] = [
+    ...checkIns.map((entry): TimelineEntry => ({ kind: 'check-in', entry })),
+    ...statusChanges.map((entry): TimelineEntry => ({ kind: 'status', entry }))
+  ];
+  entries.sort((a, b) => b.entry.timestamp - a.entry.timestamp);
+
+  return (
+    <div className="check-in-timeline">
+      <Sparkline checkIns={checkIns} />
+      <ol>
+        {entries.map((item, index) => (
+          <li key={index} className={`check-in-entry ${item.kind}`}>
+            <span className="check-in-date">{new Date(item.entry.timestamp * 1000).toLocaleString()}</span>
+            {item.kind === 'status' ? (
+              <span className={`status-badge ${item.entry.status}`}>{item.entry.status}</span>
+            ) : (
+              <>
+                <span className="check-in-progress">
+                  {item.entry.progress === null ? 'encrypted' : `${item.entry.progress}%`}
+                </span>
+                {item.entry.confidence !== undefined && item.entry.confidence > 0 && (
+                  <span className="check-in-confidence">confidence {item.entry.confidence}/10</span>
+                )}
+                {item.entry.note && <div className="check-in-note">{item.entry.note}</div>}
+              </>
+            )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export default CheckInTimeline;
@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { Cycle } from '../repository';
+
+interface CycleSelectorProps {
+  account: string;
+  cycles: Cycle[];
+  selectedId: string;
+  onSelect: (cycleId: string) => void;
+  onCloseOut: (cycle: Cycle) => void;
+  onCreate: (cycle: Cycle) => void;
+}
+
+const toSeconds = (date: string, endOfDay = false) =>
+  Math.floor(new Date(`${date}T${endOfDay ? '23:59:59' : '00:00:00'}Z`).getTime() / 1000);
+
+const CycleSelector: React.FC<CycleSelectorProps> = ({ account, cycles, selectedId, onSelect, onCloseOut, onCreate }) => {
+  const [showForm, setShowForm] = useState(false);
+  const [name, setName] = useState('');
+  const [start, setStart] = useState('');
+  const [end, setEnd] = useState('');
+
+  const selected = cycles.find(c => c.id === selectedId);
+  const formatDate = (seconds: number) => new Date(seconds * 1000).toLocaleDateString();
+
+  const submit = () => {
+    if (!name.trim() || !start || !end) return;
+    onCreate({
+      id: `custom-${start}-${end}`,
+      name: name.trim(),
+      start: toSeconds(start),
+      end: toSeconds(end, true)
+    });
+    setShowForm(false);
+    setName('');
+    setStart('');
+    setEnd('');
+  };
+
+  return (
+    <div className="cycle-selector">
+      <select value={selectedId} onChange={(e) => onSelect(e.target.value)} className="nature-input">
+        {cycles.map(cycle => (
+          <option key={cycle.id} value={cycle.id}>
+            {cycle.name}{cycle.closedAt ? ' (closed)' : ''}
+          </option>
+        ))}
+      </select>
+      {selected && (
+        <div className="cycle-dates">
+          {formatDate(selected.start)} – {formatDate(selected.end)}
+        </div>
+      )}
+      {account && (
+        <div className="cycle-actions">
+          {selected && !selected.closedAt && (
+            <button className="nature-button" onClick={() => onCloseOut(selected)}>
+              Close out &amp; roll over
+            </button>
+          )}
+          <button className="nature-button" onClick={() => setShowForm(!showForm)}>
+            {showForm ? 'Cancel' : 'New cycle'}
+          </button>
+        </div>
+      )}
+      {showForm && (
+        <div className="form-group">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Cycle name"
+            className="nature-input"
+          />
+          <input type="date" value={start} onChange={(e) => setStart(e.target.value)} className="nature-input" />
+          <input type="date" value={end} onChange={(e) => setEnd(e.target.value)} className="nature-input" />
+          <button className="nature-button" disabled={!name.trim() || !start || !end} onClick={submit}>
+            Save cycle
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CycleSelector;
@@ -0,0 +1,100 @@
+import React from 'react';
+import { KEY_RESULT_METRICS, keyResultProgress, withMetric } from '../keyResults';
+import { KeyResult, KeyResultMetric } from '../repository';
+
+interface KeyResultEditorProps {
+  index: number;
+  keyResult: KeyResult;
+  onChange: (keyResult: KeyResult) => void;
+  onRemove: () => void;
+  canRemove: boolean;
+}
+
+const KeyResultEditor: React.FC<KeyResultEditorProps> = ({ index, keyResult, onChange, onRemove, canRemove }) => {
+  const setNumber = (field: 'start' | 'target' | 'current' | 'weight', value: string) => {
+    const parsed = parseFloat(value);
+    onChange({ ...keyResult, [field]: Number.isNaN(parsed) ? 0 : parsed });
+  };
+
+  const fixedRange = keyResult.metric === 'boolean';
+
+  return (
+    <div className="key-result-editor">
+      <div className="key-result-input">
+        <input
+          type="text"
+          value={keyResult.title}
+          onChange={(e) => onChange({ ...keyResult, title: e.target.value })}
+          placeholder={`Key result #${index + 1}`}
+          className="nature-input"
+        />
+        <button className="remove-kr-btn" onClick={onRemove} disabled={!canRemove}>
+          &times;
+        </button>
+      </div>
+
+      <div className="key-result-fields">
+        <label>
+          Metric
+          <select
+            value={keyResult.metric}
+            onChange={(e) => onChange(withMetric(keyResult, e.target.value as KeyResultMetric))}
+            className="nature-input"
+          >
+            {KEY_RESULT_METRICS.map(metric => (
+              <option key={metric} value={metric}>{metric}</option>
+            ))}
+          </select>
+        </label>
+        {!fixedRange && (
+          <>
+            <label>
+              Start
+              <input type="number" value={keyResult.start} onChange={(e) => setNumber('start', e.target.value)} className="nature-input" />
+            </label>
+            <label>
+              Target
+              <input type="number" value={keyResult.target} onChange={(e) => setNumber('target', e.target.value)} className="nature-input" />
+            </label>
+          </>
+        )}
+        <label>
+          Current
+          {fixedRange ? (
+            <input
+              type="checkbox"
+              checked={keyResult.current >= 1}
+              onChange={(e) => onChange({ ...keyResult, current: e.target.checked ? 1 : 0 })}
+            />
+          ) : (
+            <input type="number" value={keyResult.current} onChange={(e) => setNumber('current', e.target.value)} className="nature-input" />
+          )}
+        </label>
+        {!fixedRange && (
+          <label>
+            Unit
+            <input
+              type="text"
+              value={keyResult.unit}
+              onChange={(e) => onChange({ ...keyResult, unit: e.target.value })}
+              className="nature-input"
+            />
+          </label>
+        )}
+        <label>
+          Weight
+          <input
+            type="number"
+            min="0"
+            value={keyResult.weight}
+            onChange={(e) => setNumber('weight', e.target.value)}
+            className="nature-input"
+          />
+        </label>
+      </div>
+      <div className="key-result-progress">{keyResultProgress(keyResult)}% complete</div>
+    </div>
+  );
+};
+
+export default KeyResultEditor;
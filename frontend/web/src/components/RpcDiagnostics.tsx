@@ -0,0 +1,52 @@
+import React, { useEffect, useState } from 'react';
+import { CircuitState, RpcManager } from '../rpcManager';
+
+interface RpcDiagnosticsProps {
+  manager: RpcManager;
+}
+
+const CIRCUIT_LABELS: Record<CircuitState, string> = {
+  closed: 'healthy',
+  open: 'circuit open',
+  'half-open': 'probing'
+};
+
+// Which RPC endpoint reads go to, and how each one has been doing this session
+export default function RpcDiagnostics({ manager }: RpcDiagnosticsProps) {
+  const [diagnostics, setDiagnostics] = useState(() => manager.diagnostics());
+
+  useEffect(() => {
+    setDiagnostics(manager.diagnostics());
+    return manager.subscribe(() => setDiagnostics(manager.diagnostics()));
+  }, [manager]);
+
+  return (
+    <div className="rpc-diagnostics">
+      <div className="team-okr-meta">
+        {diagnostics.network} · reading from {diagnostics.active ?? 'no endpoint yet'}
+      </div>
+      <ul className="rpc-endpoints">
+        {diagnostics.endpoints.map(endpoint => (
+          <li
+            key={endpoint.label}
+            className={`rpc-endpoint rpc-${endpoint.circuit}${endpoint.label === diagnostics.active ? ' rpc-active' : ''}`}
+          >
+            <div className="rpc-label">{endpoint.label}</div>
+            <div className="team-okr-meta">
+              {CIRCUIT_LABELS[endpoint.circuit]}
+              {' '}· {endpoint.latencyMs === null ? 'no answer yet' : `${endpoint.latencyMs} ms`}
+              {' '}· {Math.round(endpoint.errorRate * 100)}% errors over {endpoint.requests} request(s)
+              {endpoint.retryAt && ` · next probe at ${new Date(endpoint.retryAt).toLocaleTimeString()}`}
+            </div>
+            {endpoint.lastError && endpoint.circuit !== 'closed' && (
+              <div className="team-okr-meta">Last error: {endpoint.lastError}</div>
+            )}
+          </li>
+        ))}
+      </ul>
+      {diagnostics.unconfigured > 0 && (
+        <div className="team-okr-meta">{diagnostics.unconfigured} endpoint(s) skipped: key not configured</div>
+      )}
+    </div>
+  );
+}
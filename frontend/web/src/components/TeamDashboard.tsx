@@ -0,0 +1,86 @@
+import React, { useEffect, useState } from 'react';
+import { BarElement, CategoryScale, Chart as ChartJS, LinearScale, Tooltip } from 'chart.js';
+import { Bar } from 'react-chartjs-2';
+import { DISTRIBUTION_BUCKETS, Team, TeamRepository } from '../repository';
+
+ChartJS.register(CategoryScale, LinearScale, BarElement, Tooltip);
+
+interface TeamDashboardProps {
+  teams: Team[];
+  teamRepository: TeamRepository;
+  // start of the selected cycle, in seconds; participation counts check-ins from then on
+  since: number;
+}
+
+interface TeamDistributionChartProps {
+  team: Team;
+  checkedIn?: number;
+}
+
+// Charts only what a reveal made public: bucket counts, the average and how many checked in
+const TeamDistributionChart: React.FC<TeamDistributionChartProps> = ({ team, checkedIn }) => {
+  const distribution = team.distribution!;
+  const approx = distribution.margin > 0 ? '≈' : '';
+
+  return (
+    <div className="team-distribution">
+      <div className="team-okr-title">{team.name}</div>
+      <Bar
+        data={{
+          labels: DISTRIBUTION_BUCKETS,
+          datasets: [{ label: 'Members', data: distribution.buckets, backgroundColor: '#4CAF50' }]
+        }}
+        options={{
+          responsive: true,
+          plugins: { tooltip: { enabled: true } },
+          scales: { y: { beginAtZero: true, ticks: { precision: 0 } } }
+        }}
+      />
+      <div className="team-okr-meta">
+        Weighted average {approx}{distribution.average}% over {distribution.count} member(s)
+        {distribution.margin > 0 && ` · counts ±${distribution.margin}`}
+      </div>
+      {checkedIn !== undefined && (
+        <div className="team-okr-meta">
+          {checkedIn} of {team.memberCount} member(s) checked in this cycle
+        </div>
+      )}
+      <div className="team-okr-meta">Revealed {new Date(distribution.revealedAt * 1000).toLocaleString()}</div>
+    </div>
+  );
+};
+
+export default function TeamDashboard({ teams, teamRepository, since }: TeamDashboardProps) {
+  const [checkedIn, setCheckedIn] = useState<Record<string, number>>({});
+  const revealed = teams.filter(team => team.distribution);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all(revealed.map(team => teamRepository.checkedInSince(team.id, since)))
+      .then(counts => {
+        const byTeam: Record<string, number> = {};
+        revealed.forEach((team, i) => (byTeam[team.id] = counts[i]));
+        if (!cancelled) setCheckedIn(byTeam);
+      })
+      .catch(e => console.warn('Could not load check-in counts:', e));
+    return () => {
+      cancelled = true;
+    };
+  }, [teams, teamRepository, since]);
+
+  if (revealed.length === 0) {
+    return (
+      <div className="no-team-data">
+        <p>Progress buckets appear here once a team reveal has completed</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="team-dashboard">
+      {revealed.map(team => (
+        <TeamDistributionChart key={team.id} team={team} checkedIn={checkedIn[team.id]} />
+      ))}
+    </div>
+  );
+}
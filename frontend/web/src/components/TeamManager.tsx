@@ -0,0 +1,304 @@
+import React, { useState } from 'react';
+import { ethers } from 'ethers';
+import { lacksContributors, Objective, revealLabel, revealWindowOpensAt, Team, TeamRepository } from '../repository';
+
+interface TeamManagerProps {
+  account: string;
+  teams: Team[];
+  objectives: Objective[];
+  teamRepository: TeamRepository;
+  onChanged: () => void;
+}
+
+export default function TeamManager({ account, teams, objectives, teamRepository, onChanged }: TeamManagerProps) {
+  const [newTeamName, setNewTeamName] = useState('');
+  const [joinToken, setJoinToken] = useState('');
+  const [allowAddress, setAllowAddress] = useState<Record<string, string>>({});
+  const [inviteAddress, setInviteAddress] = useState<Record<string, string>>({});
+  const [invites, setInvites] = useState<Record<string, string>>({});
+  const [companyKey, setCompanyKey] = useState<Record<string, string>>({});
+  const [objectiveTitle, setObjectiveTitle] = useState<Record<string, string>>({});
+  const [objectiveParent, setObjectiveParent] = useState<Record<string, string>>({});
+  const [minContributors, setMinContributors] = useState<Record<string, string>>({});
+  const [epsilonPerReveal, setEpsilonPerReveal] = useState<Record<string, string>>({});
+  const [totalEpsilon, setTotalEpsilon] = useState<Record<string, string>>({});
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState('');
+
+  const run = async (action: () => Promise<string>) => {
+    setBusy(true);
+    setMessage('');
+    try {
+      setMessage(await action());
+      onChanged();
+    } catch (e: any) {
+      setMessage('Team action failed: ' + (e.reason || e.message || 'Unknown error'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const createTeam = () => run(async () => {
+    const team = await teamRepository.create(newTeamName);
+    setNewTeamName('');
+    return `Created team "${team.name}"`;
+  });
+
+  const joinTeam = () => run(async () => {
+    const team = await teamRepository.join(joinToken);
+    setJoinToken('');
+    return `Joined team "${team.name}"`;
+  });
+
+  const createInvite = (team: Team) => run(async () => {
+    const token = await teamRepository.createInvite(team.id, inviteAddress[team.id] || '');
+    setInvites({ ...invites, [team.id]: token });
+    setInviteAddress({ ...inviteAddress, [team.id]: '' });
+    return `Invite created for "${team.name}". Only the invited address can use it, and it cannot be shown again.`;
+  });
+
+  // the token carries the team key, which allowlisted members need as much as invited ones
+  const allowMember = (team: Team) => run(async () => {
+    const token = await teamRepository.allow(team.id, allowAddress[team.id] || '');
+    setInvites({ ...invites, [team.id]: token });
+    setAllowAddress({ ...allowAddress, [team.id]: '' });
+    return `Address allowed to join "${team.name}". Hand them the token so they can read the team's names.`;
+  });
+
+  const shareCompanyKey = (team: Team) => run(async () => {
+    await teamRepository.shareCompanyKey(team.id, companyKey[team.id] || '');
+    setCompanyKey({ ...companyKey, [team.id]: '' });
+    return `Members of "${team.name}" can now read company objective titles`;
+  });
+
+  // The oracle answers later; the team reloads once the verified value is stored
+  const revealProgress = (team: Team) => run(async () => {
+    await teamRepository.revealTeam(team.id);
+    teamRepository.waitForReveal(team.id, team.id)
+      .then(onChanged)
+      .catch(e => console.warn('Reveal not confirmed:', e));
+    return `Decryption of "${team.name}" progress requested`;
+  });
+
+  const changeMinContributors = (team: Team) => run(async () => {
+    const minimum = parseInt(minContributors[team.id] || '', 10);
+    await teamRepository.setMinContributors(team.id, minimum);
+    setMinContributors({ ...minContributors, [team.id]: '' });
+    return `"${team.name}" progress now needs ${minimum} contributors before it can be revealed`;
+  });
+
+  const configurePrivacy = (team: Team) => run(async () => {
+    const perReveal = parseFloat(epsilonPerReveal[team.id] || '');
+    const total = parseFloat(totalEpsilon[team.id] || '');
+    await teamRepository.configurePrivacy(team.id, perReveal, total);
+    setEpsilonPerReveal({ ...epsilonPerReveal, [team.id]: '' });
+    setTotalEpsilon({ ...totalEpsilon, [team.id]: '' });
+    return `"${team.name}" reveals now carry noise at ε ${perReveal} each, up to ε ${total} in total`;
+  });
+
+  const createObjective = (team: Team) => run(async () => {
+    const title = objectiveTitle[team.id] || '';
+    await teamRepository.createObjective(title, team.id, objectiveParent[team.id] || '0');
+    setObjectiveTitle({ ...objectiveTitle, [team.id]: '' });
+    return `Added objective "${title.trim()}" to "${team.name}"`;
+  });
+
+  const companyObjectives = objectives.filter(o => o.teamId === ethers.ZeroHash);
+
+  if (!account) {
+    return (
+      <div className="team-manager nature-card">
+        <p>Connect your wallet to create or join a team</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="team-manager nature-card">
+      {teams.length === 0 ? (
+        <p>You are not in a team yet</p>
+      ) : (
+        teams.map(team => (
+          <div className="team-okr-item" key={team.id}>
+            <div className="team-okr-title">{team.name}</div>
+            <div className="team-okr-meta">{team.memberCount} member(s)</div>
+            {team.reveal ? (
+              <div className="team-okr-meta">
+                {revealLabel(team.reveal)} average progress · revealed {new Date(team.reveal.revealedAt * 1000).toLocaleString()}
+                {' '}· {team.reveal.contributors} contributor(s)
+              </div>
+            ) : lacksContributors(team) && (
+              <div className="team-okr-meta">
+                Not enough contributors yet ({team.contributors} of {team.minContributors})
+              </div>
+            )}
+            {team.privacy && (
+              <div className="team-okr-meta">
+                Privacy budget: ε {team.privacy.spentEpsilon} of {team.privacy.totalEpsilon} spent
+                {' '}(ε {team.privacy.epsilonPerReveal} per reveal)
+              </div>
+            )}
+            {revealWindowOpensAt(team) > 0 && (
+              <div className="team-okr-meta">
+                Next reveal window opens {new Date(revealWindowOpensAt(team) * 1000).toLocaleString()}
+              </div>
+            )}
+            <button
+              className="nature-button"
+              disabled={busy || team.revealPending || revealWindowOpensAt(team) > 0}
+              onClick={() => revealProgress(team)}
+            >
+              {team.revealPending ? 'Decrypting...' : 'Reveal team progress'}
+            </button>
+            {team.admin.toLowerCase() === account.toLowerCase() && (
+              <div className="form-group">
+                <input
+                  type="text"
+                  value={inviteAddress[team.id] || ''}
+                  onChange={(e) => setInviteAddress({ ...inviteAddress, [team.id]: e.target.value })}
+                  placeholder="0x... address to invite"
+                  className="nature-input"
+                />
+                <button
+                  className="nature-button"
+                  disabled={busy || !inviteAddress[team.id]}
+                  onClick={() => createInvite(team)}
+                >
+                  Create invite token
+                </button>
+                {invites[team.id] && <code className="invite-code">{invites[team.id]}</code>}
+                <input
+                  type="text"
+                  value={allowAddress[team.id] || ''}
+                  onChange={(e) => setAllowAddress({ ...allowAddress, [team.id]: e.target.value })}
+                  placeholder="0x... address to allow"
+                  className="nature-input"
+                />
+                <button
+                  className="nature-button"
+                  disabled={busy || !allowAddress[team.id]}
+                  onClick={() => allowMember(team)}
+                >
+                  Allow address
+                </button>
+                <input
+                  type="text"
+                  value={companyKey[team.id] || ''}
+                  onChange={(e) => setCompanyKey({ ...companyKey, [team.id]: e.target.value })}
+                  placeholder="Company key from the company admin"
+                  className="nature-input"
+                />
+                <button
+                  className="nature-button"
+                  disabled={busy || !(companyKey[team.id] || '').trim()}
+                  onClick={() => shareCompanyKey(team)}
+                >
+                  Share company key with the team
+                </button>
+                <input
+                  type="number"
+                  min="2"
+                  value={minContributors[team.id] || ''}
+                  onChange={(e) => setMinContributors({ ...minContributors, [team.id]: e.target.value })}
+                  placeholder={`Minimum contributors (now ${team.minContributors ?? '-'})`}
+                  className="nature-input"
+                />
+                <button
+                  className="nature-button"
+                  disabled={busy || !(parseInt(minContributors[team.id] || '', 10) >= 2)}
+                  onClick={() => changeMinContributors(team)}
+                >
+                  Set minimum
+                </button>
+                <input
+                  type="number"
+                  min="0.01"
+                  step="0.1"
+                  value={epsilonPerReveal[team.id] || ''}
+                  onChange={(e) => setEpsilonPerReveal({ ...epsilonPerReveal, [team.id]: e.target.value })}
+                  placeholder="ε per reveal (smaller adds more noise)"
+                  className="nature-input"
+                />
+                <input
+                  type="number"
+                  min="0.01"
+                  step="0.1"
+                  value={totalEpsilon[team.id] || ''}
+                  onChange={(e) => setTotalEpsilon({ ...totalEpsilon, [team.id]: e.target.value })}
+                  placeholder={team.privacy ? `Total ε budget (at most ${team.privacy.totalEpsilon})` : 'Total ε budget'}
+                  className="nature-input"
+                />
+                <button
+                  className="nature-button"
+                  disabled={
+                    busy ||
+                    !(parseFloat(epsilonPerReveal[team.id] || '') > 0) ||
+                    !(parseFloat(totalEpsilon[team.id] || '') >= parseFloat(epsilonPerReveal[team.id] || '')) ||
+                    (!!team.privacy && parseFloat(totalEpsilon[team.id] || '') > team.privacy.totalEpsilon)
+                  }
+                  onClick={() => configurePrivacy(team)}
+                >
+                  {team.privacy ? 'Update privacy budget' : 'Add noise to reveals'}
+                </button>
+                <input
+                  type="text"
+                  value={objectiveTitle[team.id] || ''}
+                  onChange={(e) => setObjectiveTitle({ ...objectiveTitle, [team.id]: e.target.value })}
+                  placeholder="Team objective"
+                  className="nature-input"
+                />
+                <select
+                  value={objectiveParent[team.id] || '0'}
+                  onChange={(e) => setObjectiveParent({ ...objectiveParent, [team.id]: e.target.value })}
+                  className="nature-input"
+                >
+                  <option value="0">No company objective</option>
+                  {companyObjectives.map(objective => (
+                    <option key={objective.id} value={objective.id}>{objective.title}</option>
+                  ))}
+                </select>
+                <button
+                  className="nature-button"
+                  disabled={busy || !(objectiveTitle[team.id] || '').trim()}
+                  onClick={() => createObjective(team)}
+                >
+                  Add team objective
+                </button>
+              </div>
+            )}
+          </div>
+        ))
+      )}
+
+      <div className="form-group">
+        <label>Create a team</label>
+        <input
+          type="text"
+          value={newTeamName}
+          onChange={(e) => setNewTeamName(e.target.value)}
+          placeholder="Team name"
+          className="nature-input"
+        />
+        <button className="nature-button" disabled={busy || !newTeamName.trim()} onClick={createTeam}>
+          Create team
+        </button>
+      </div>
+
+      <div className="form-group">
+        <label>Join a team</label>
+        <input
+          type="text"
+          value={joinToken}
+          onChange={(e) => setJoinToken(e.target.value)}
+          placeholder="Invite token from the team admin"
+          className="nature-input"
+        />
+        <button className="nature-button" disabled={busy || !joinToken.trim()} onClick={joinTeam}>
+          Join team
+        </button>
+      </div>
+
+      {message && <div className="team-manager-message">{message}</div>}
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import React, { useState, useEffect, useRef } from 'react';
+import { activeNetwork, chainIdHex, walletRpcUrls } from '../network';
 
 interface WalletInfo {
   name: string;
@@ -356,8 +357,8 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
     }
 
     try {
-      // Auto-switch to Sepolia testnet
-      await switchToSepolia(wallet.provider);
+      // Auto-switch to the chain of the active network profile
+      await switchToActiveNetwork(wallet.provider);
       onWalletSelect(wallet);
     } catch (error) {
       console.error('Error switching network:', error);
@@ -366,11 +367,11 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
     }
   };
 
-  const switchToSepolia = async (provider: any) => {
+  const switchToActiveNetwork = async (provider: any) => {
     try {
       await provider.request({
         method: 'wallet_switchEthereumChain',
-        params: [{ chainId: '0xaa36a7' }], // Sepolia chainId
+        params: [{ chainId: chainIdHex() }],
       });
     } catch (switchError: any) {
       if (switchError.code === 4902) {
@@ -378,22 +379,15 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
           await provider.request({
             method: 'wallet_addEthereumChain',
             params: [{
-              chainId: '0xaa36a7',
-              chainName: 'Sepolia',
-              nativeCurrency: {
-                name: 'Sepolia Ether',
-                symbol: 'SEP',
-                decimals: 18
-              },
-              rpcUrls: [
-                'https://rpc.sepolia.org',
-                'https://eth-sepolia.public.blastapi.io',
-              ],
-              blockExplorerUrls: ['https://sepolia.etherscan.io/']
+              chainId: chainIdHex(),
+              chainName: activeNetwork.chainName,
+              nativeCurrency: activeNetwork.nativeCurrency,
+              rpcUrls: walletRpcUrls(),
+              ...(activeNetwork.blockExplorerUrls && { blockExplorerUrls: activeNetwork.blockExplorerUrls })
             }]
           });
         } catch (addError) {
-          console.error('Error adding Sepolia network:', addError);
+          console.error(`Error adding ${activeNetwork.chainName} network:`, addError);
           // Don't throw, let the main app handle it
         }
       }
@@ -709,7 +703,7 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
           border: '1px solid var(--border-color)'
         }}>
           <div style={{ marginBottom: '6px' }}>
-            Wallet will automatically switch to Sepolia testnet
+            Wallet will automatically switch to {activeNetwork.chainName}
           </div>
         </div>
       </div>
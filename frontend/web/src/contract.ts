@@ -1,10 +1,16 @@
 // contract.ts
 import { ethers } from "ethers";
 import abiJson from "./abi/UniversalAdapter.json";
-import configJson from "./config.json";
+import okrPlatformAbiJson from "./abi/EncryptedOKRPlatformFHE.json";
+import type { EncryptedOKRPlatformFHE, UniversalAdapter } from "../../../types";
+import { AdapterBatcher, ContractBatcher } from "./batchReader";
+import { activeNetwork, activeNetworkName } from "./network";
+import { getRpcManager } from "./rpcManager";
 
-export const ABI = (abiJson as any).abi || abiJson;
-export const config = configJson;
+export const ABI: ethers.InterfaceAbi = abiJson.abi;
+export const OKR_PLATFORM_ABI: ethers.InterfaceAbi = okrPlatformAbiJson.abi;
+// the active network profile; addresses and deploy block belong to the network they were deployed on
+export const config = activeNetwork;
 
 const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
   try {
@@ -18,42 +24,10 @@ const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promis
   }
 };
 
-const getTestnetProvider = async () => {
-  const rpcUrls = [
-    "https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3",
-    "https://rpc.sepolia.org",
-    "https://rpc2.sepolia.org",
-    "https://eth-sepolia.public.blastapi.io"
-  ];
-  
-  for (const url of rpcUrls) {
-    try {
-      const provider = new ethers.JsonRpcProvider(url, {
-        name: "sepolia",
-        chainId: 11155111
-      });
-      
-      const blockNumber = await Promise.race([
-        provider.getBlockNumber(),
-        new Promise((_, reject) => 
-          setTimeout(() => reject(new Error("RPC timeout")), 10000)
-        )
-      ]);
-      
-      console.log(`Connected to RPC ${url}, block: ${blockNumber}`);
-      return provider;
-    } catch (error) {
-      console.warn(`RPC ${url} failed: ${error.message}`);
-    }
-  }
-  
-  throw new Error("All RPC providers failed");
-};
-
 export async function getContractReadOnly() {
   try {
-    const provider = await getTestnetProvider();
-    const contract = new ethers.Contract(config.contractAddress, ABI, provider);
+    const provider = getRpcManager().provider;
+    const contract = new ethers.Contract(config.contractAddress, ABI, provider) as unknown as UniversalAdapter;
     
     const code = await retry(() => provider.getCode(config.contractAddress));
     if (code === "0x") {
@@ -67,6 +41,22 @@ export async function getContractReadOnly() {
   }
 }
 
+let batchedReader: Promise<AdapterBatcher | null> | null = null;
+
+// Shared read-only adapter so reads from every view land in the same batches
+export function getBatchedReadOnly(): Promise<AdapterBatcher | null> {
+  if (!batchedReader) {
+    batchedReader = getContractReadOnly().then(contract => {
+      if (!contract) {
+        batchedReader = null;
+        return null;
+      }
+      return new AdapterBatcher(contract);
+    });
+  }
+  return batchedReader;
+}
+
 export async function getContractWithSigner() {
   if (!(window as any).ethereum) {
     throw new Error("No injected wallet");
@@ -74,7 +64,7 @@ export async function getContractWithSigner() {
   try {
     const provider = new ethers.BrowserProvider((window as any).ethereum);
     const signer = await provider.getSigner();
-    const contract = new ethers.Contract(config.contractAddress, ABI, signer);
+    const contract = new ethers.Contract(config.contractAddress, ABI, signer) as unknown as UniversalAdapter;
     return contract;
   } catch (error) {
     console.error("Failed to create contract with signer:", error);
@@ -82,6 +72,60 @@ export async function getContractWithSigner() {
   }
 }
 
+export function getOkrPlatform(runner: ethers.ContractRunner): EncryptedOKRPlatformFHE {
+  if (!config.okrPlatformAddress) {
+    throw new Error(`EncryptedOKRPlatformFHE address missing from the ${activeNetworkName} profile in config.json`);
+  }
+  return new ethers.Contract(config.okrPlatformAddress, OKR_PLATFORM_ABI, runner) as unknown as EncryptedOKRPlatformFHE;
+}
+
+export async function getOkrPlatformReadOnly() {
+  try {
+    const provider = getRpcManager().provider;
+    const contract = getOkrPlatform(provider);
+
+    const code = await retry(() => provider.getCode(config.okrPlatformAddress));
+    if (code === "0x") {
+      return null;
+    }
+
+    return contract;
+  } catch (error) {
+    console.error("Failed to create read-only OKR platform contract:", error);
+    return null;
+  }
+}
+
+let batchedPlatform: Promise<ContractBatcher<EncryptedOKRPlatformFHE> | null> | null = null;
+
+// Shared read-only platform, batched like getBatchedReadOnly
+export function getBatchedPlatformReadOnly(): Promise<ContractBatcher<EncryptedOKRPlatformFHE> | null> {
+  if (!batchedPlatform) {
+    batchedPlatform = getOkrPlatformReadOnly().then(contract => {
+      if (!contract) {
+        batchedPlatform = null;
+        return null;
+      }
+      return new ContractBatcher(contract);
+    });
+  }
+  return batchedPlatform;
+}
+
+export async function getOkrPlatformWithSigner() {
+  if (!(window as any).ethereum) {
+    throw new Error("No injected wallet");
+  }
+  try {
+    const provider = new ethers.BrowserProvider((window as any).ethereum);
+    const signer = await provider.getSigner();
+    return getOkrPlatform(signer);
+  } catch (error) {
+    console.error("Failed to create OKR platform contract with signer:", error);
+    throw error;
+  }
+}
+
 export function normAddr(a: string) { 
   return a ? a.toLowerCase() : a; 
 }
\ No newline at end of file
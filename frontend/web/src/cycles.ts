@@ -0,0 +1,43 @@
+// cycles.ts
+import type { Cycle, PersonalOKR } from "./repository/types";
+
+const toSeconds = (date: Date) => Math.floor(date.getTime() / 1000);
+
+// Calendar quarter containing the given time, e.g. "2026-Q4"
+export function quarterCycle(at: Date = new Date()): Cycle {
+  const year = at.getUTCFullYear();
+  const quarter = Math.floor(at.getUTCMonth() / 3);
+  return {
+    id: `${year}-Q${quarter + 1}`,
+    name: `Q${quarter + 1} ${year}`,
+    start: toSeconds(new Date(Date.UTC(year, quarter * 3, 1))),
+    // inclusive end: the last second before the next quarter starts
+    end: toSeconds(new Date(Date.UTC(year, quarter * 3 + 3, 1))) - 1
+  };
+}
+
+export function cycleForTimestamp(timestamp: number, cycles: Cycle[]): Cycle | undefined {
+  return cycles.find(cycle => timestamp >= cycle.start && timestamp <= cycle.end);
+}
+
+// OKRs created before cycles existed fall into the cycle covering their timestamp
+export function cycleIdOf(okr: PersonalOKR, cycles: Cycle[]): string | undefined {
+  return okr.cycleId ?? cycleForTimestamp(okr.timestamp, cycles)?.id;
+}
+
+// The cycle that follows, or the calendar quarter after it when none was defined
+export function nextCycle(cycle: Cycle, cycles: Cycle[]): Cycle {
+  const later = cycles.filter(c => c.start > cycle.end).sort((a, b) => a.start - b.start);
+  return later[0] ?? quarterCycle(new Date((cycle.end + 1) * 1000));
+}
+
+// Stored cycles plus the current and next calendar quarters, without duplicates
+export function withDefaultCycles(stored: Cycle[], now: Date = new Date()): Cycle[] {
+  const current = quarterCycle(now);
+  const defaults = [current, quarterCycle(new Date((current.end + 1) * 1000))];
+  const byId = new Map<string, Cycle>();
+  for (const cycle of [...defaults, ...stored]) {
+    byId.set(cycle.id, { ...byId.get(cycle.id), ...cycle });
+  }
+  return [...byId.values()].sort((a, b) => a.start - b.start);
+}
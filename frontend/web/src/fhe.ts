@@ -0,0 +1,231 @@
+// fhe.ts
+import { ethers } from "ethers";
+import type { FhevmInstance } from "@zama-fhe/relayer-sdk/bundle";
+import { activeNetwork } from "./network";
+import { clampPriority } from "./priority";
+
+export interface EncryptedInputs {
+  handles: Uint8Array[];
+  inputProof: Uint8Array;
+}
+
+export interface OKRClearValues {
+  objective: number;
+  keyResults: number;
+  progress: number;
+  // 1-3, weights the OKR in aggregates
+  priority: number;
+  // 0-100 per key result, encrypted after the four fields above
+  keyResultProgress: number[];
+}
+
+let instancePromise: Promise<FhevmInstance> | null = null;
+
+// EIP-712 domains the hardhat FHEVM mock signs with (the @fhevm/hardhat-plugin defaults)
+const MOCK_DECRYPTION_VERIFIER = "0x5ffdaAB0373E62E2ea2944776209aEf29E631A64";
+const MOCK_INPUT_VERIFIER = "0x812b06e1CDCE800494b79fFE4f925A504a9A9810";
+
+// The SDK is loaded as a UMD script so its wasm stays out of the vite bundle, and only by profiles
+// that use the relayer: the mock profile works offline
+const RELAYER_SDK_URL = "https://cdn.zama.ai/relayer-sdk-js/0.2.0/relayer-sdk-js.umd.cjs";
+
+function loadRelayerSDK(): Promise<NonNullable<Window["relayerSDK"]>> {
+  if (window.relayerSDK) return Promise.resolve(window.relayerSDK);
+  return new Promise((resolve, reject) => {
+    const script = document.createElement("script");
+    script.src = RELAYER_SDK_URL;
+    script.type = "text/javascript";
+    script.onload = () => {
+      if (window.relayerSDK) resolve(window.relayerSDK);
+      else reject(new Error("Relayer SDK script not loaded"));
+    };
+    script.onerror = () => {
+      // a later attempt adds a fresh tag
+      script.remove();
+      reject(new Error("Could not load the relayer SDK from " + RELAYER_SDK_URL));
+    };
+    document.head.appendChild(script);
+  });
+}
+
+async function createRelayerInstance(): Promise<FhevmInstance> {
+  if (!(window as any).ethereum) {
+    throw new Error("No injected wallet");
+  }
+  const sdk = await loadRelayerSDK();
+  await sdk.initSDK();
+  return sdk.createInstance({ ...sdk.SepoliaConfig, network: (window as any).ethereum });
+}
+
+// A local `hardhat node` runs the FHEVM mock: no relayer, no wasm, the node hands out its own addresses
+async function createMockInstance(): Promise<FhevmInstance> {
+  const { MockFhevmInstance } = await import("@fhevm/mock-utils");
+  const provider = new ethers.JsonRpcProvider(activeNetwork.rpcUrls[0], activeNetwork.chainId);
+  const metadata = await provider.send("fhevm_relayer_metadata", []);
+  const instance = await MockFhevmInstance.create(provider, provider, {
+    aclContractAddress: metadata.ACLAddress,
+    chainId: activeNetwork.chainId,
+    gatewayChainId: metadata.gatewayChainId,
+    inputVerifierContractAddress: metadata.InputVerifierAddress,
+    kmsContractAddress: metadata.KMSVerifierAddress,
+    verifyingContractAddressDecryption: MOCK_DECRYPTION_VERIFIER,
+    verifyingContractAddressInputVerification: MOCK_INPUT_VERIFIER
+  });
+  return instance as unknown as FhevmInstance;
+}
+
+export function getFhevmInstance(): Promise<FhevmInstance> {
+  if (!instancePromise) {
+    instancePromise = (activeNetwork.fhevm === "mock" ? createMockInstance() : createRelayerInstance()).catch((e) => {
+      // allow a later call to retry after a failed wasm or relayer init
+      instancePromise = null;
+      throw e;
+    });
+  }
+  return instancePromise;
+}
+
+// 32-bit commitment to the objective text; the text itself never leaves the device
+export function textDigest(objective: string, keyResults: string[]): number {
+  const hash = ethers.keccak256(ethers.toUtf8Bytes(JSON.stringify([objective, keyResults])));
+  return Number.parseInt(hash.slice(2, 10), 16);
+}
+
+const clampProgress = (progress: number) => Math.max(0, Math.min(100, Math.round(progress)));
+
+export async function encryptOKRValues(
+  contractAddress: string,
+  userAddress: string,
+  values: OKRClearValues
+): Promise<EncryptedInputs> {
+  const instance = await getFhevmInstance();
+  const input = instance.createEncryptedInput(contractAddress, userAddress);
+  input.add32(values.objective);
+  input.add32(values.keyResults);
+  input.add32(clampProgress(values.progress));
+  input.add32(clampPriority(values.priority));
+  values.keyResultProgress.forEach((value) => input.add32(clampProgress(value)));
+  return input.encrypt();
+}
+
+// The relayer accepts at most 2048 bits per encrypted input
+export const MAX_INPUT_HANDLES = 64;
+
+export interface KeyResultClearValues {
+  progress: number;
+  // 1-10; 0 when none was given
+  confidence?: number;
+  keyResultProgress: number[];
+}
+
+export const keyResultHandleCount = (values: KeyResultClearValues) => 2 + values.keyResultProgress.length;
+
+// Per OKR: progress, then the check-in confidence, then one handle per key result
+export async function encryptKeyResultBatch(
+  contractAddress: string,
+  userAddress: string,
+  batch: KeyResultClearValues[]
+): Promise<EncryptedInputs> {
+  const instance = await getFhevmInstance();
+  const input = instance.createEncryptedInput(contractAddress, userAddress);
+  for (const values of batch) {
+    input.add32(clampProgress(values.progress));
+    input.add32(Math.max(0, Math.min(10, Math.round(values.confidence ?? 0))));
+    values.keyResultProgress.forEach((value) => input.add32(clampProgress(value)));
+  }
+  return input.encrypt();
+}
+
+// Owner-side user decryption: a relayer keypair and the EIP-712 authorization the wallet signed for it.
+// Kept for the browser session so reading progress back does not prompt on every load.
+interface DecryptionSession {
+  publicKey: string;
+  privateKey: string;
+  signature: string;
+  startTimestamp: number;
+  durationDays: number;
+}
+
+const SESSION_DAYS = 1;
+// handles per userDecrypt call, so one request stays small
+const MAX_DECRYPT_HANDLES = 32;
+
+const sessionKey = (userAddress: string, contractAddress: string) =>
+  `privacyokr_decrypt_${userAddress.toLowerCase()}_${contractAddress.toLowerCase()}`;
+
+function readSession(userAddress: string, contractAddress: string): DecryptionSession | null {
+  try {
+    const raw = window.sessionStorage.getItem(sessionKey(userAddress, contractAddress));
+    if (!raw) return null;
+    const session = JSON.parse(raw) as DecryptionSession;
+    // renew a minute early so a request never reaches the relayer with an expired signature
+    const expires = session.startTimestamp + session.durationDays * 86400 - 60;
+    return expires > Math.floor(Date.now() / 1000) ? session : null;
+  } catch {
+    return null;
+  }
+}
+
+export function hasDecryptionSession(userAddress: string, contractAddress: string): boolean {
+  return !!userAddress && readSession(userAddress, contractAddress) !== null;
+}
+
+export function clearDecryptionSession(userAddress: string, contractAddress: string) {
+  window.sessionStorage.removeItem(sessionKey(userAddress, contractAddress));
+}
+
+async function authorizeSession(signer: ethers.Signer, contractAddress: string): Promise<DecryptionSession> {
+  const instance = await getFhevmInstance();
+  const { publicKey, privateKey } = instance.generateKeypair();
+  const startTimestamp = Math.floor(Date.now() / 1000);
+  const eip712 = instance.createEIP712(publicKey, [contractAddress], startTimestamp, SESSION_DAYS);
+  const signature = await signer.signTypedData(
+    eip712.domain,
+    { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+    eip712.message
+  );
+
+  const session = { publicKey, privateKey, signature, startTimestamp, durationDays: SESSION_DAYS };
+  window.sessionStorage.setItem(sessionKey(await signer.getAddress(), contractAddress), JSON.stringify(session));
+  return session;
+}
+
+const isZeroHandle = (handle: string) => /^0x0*$/.test(handle);
+
+// Decrypts handles the user is allowed to read. Without a cached session a signer is needed to
+// authorize one; uninitialized handles are skipped. Keys of the result are lower-case handles.
+export async function userDecryptHandles(
+  contractAddress: string,
+  userAddress: string,
+  handles: string[],
+  signer?: ethers.Signer
+): Promise<Map<string, bigint>> {
+  const pending = [...new Set(handles.map(h => h.toLowerCase()))].filter(h => !isZeroHandle(h));
+  const clear = new Map<string, bigint>();
+  if (pending.length === 0) return clear;
+
+  let session = readSession(userAddress, contractAddress);
+  if (!session) {
+    if (!signer) {
+      throw new Error("Decryption is not authorized in this session");
+    }
+    session = await authorizeSession(signer, contractAddress);
+  }
+
+  const instance = await getFhevmInstance();
+  for (let i = 0; i < pending.length; i += MAX_DECRYPT_HANDLES) {
+    const chunk = pending.slice(i, i + MAX_DECRYPT_HANDLES);
+    const result = await instance.userDecrypt(
+      chunk.map(handle => ({ handle, contractAddress })),
+      session.privateKey,
+      session.publicKey,
+      session.signature.replace("0x", ""),
+      [contractAddress],
+      userAddress,
+      session.startTimestamp,
+      session.durationDays
+    );
+    Object.keys(result).forEach(handle => clear.set(handle.toLowerCase(), BigInt(result[handle])));
+  }
+  return clear;
+}
@@ -0,0 +1,53 @@
+// keyResults.ts
+import type { KeyResult, KeyResultMetric } from "./repository/types";
+
+// EncryptedOKRPlatformFHE.MAX_KEY_RESULTS
+export const MAX_KEY_RESULTS = 16;
+
+export const KEY_RESULT_METRICS: KeyResultMetric[] = ["number", "percentage", "boolean", "milestone"];
+
+const clamp = (value: number) => Math.max(0, Math.min(100, Math.round(value)));
+
+export function newKeyResult(title = ""): KeyResult {
+  return { title, metric: "percentage", start: 0, target: 100, current: 0, unit: "%", weight: 1 };
+}
+
+// Sensible start/target/unit when the metric type changes
+export function withMetric(kr: KeyResult, metric: KeyResultMetric): KeyResult {
+  switch (metric) {
+    case "boolean":
+      return { ...kr, metric, start: 0, target: 1, current: Math.min(kr.current, 1), unit: "" };
+    case "milestone":
+      return { ...kr, metric, start: 0, target: Math.max(1, Math.round(kr.target)), unit: "milestones" };
+    case "percentage":
+      return { ...kr, metric, start: 0, target: 100, unit: "%" };
+    default:
+      return { ...kr, metric };
+  }
+}
+
+// Records written before structured key results stored plain titles
+export function normalizeKeyResults(keyResults: unknown): KeyResult[] {
+  if (!Array.isArray(keyResults)) return [];
+  return keyResults.map((kr) => (typeof kr === "string" ? newKeyResult(kr) : { ...newKeyResult(), ...kr }));
+}
+
+export function keyResultProgress(kr: KeyResult): number {
+  if (kr.metric === "boolean") {
+    return kr.current >= 1 ? 100 : 0;
+  }
+  const span = kr.target - kr.start;
+  if (span === 0) {
+    return kr.current >= kr.target ? 100 : 0;
+  }
+  // also handles decreasing targets, e.g. churn from 10% down to 5%
+  return clamp(((kr.current - kr.start) / span) * 100);
+}
+
+// Weighted mean of the key results; zero weights are ignored
+export function objectiveProgress(keyResults: KeyResult[]): number {
+  const weighted = keyResults.filter((kr) => kr.weight > 0);
+  const totalWeight = weighted.reduce((sum, kr) => sum + kr.weight, 0);
+  if (totalWeight === 0) return 0;
+  return clamp(weighted.reduce((sum, kr) => sum + keyResultProgress(kr) * kr.weight, 0) / totalWeight);
+}
@@ -0,0 +1,95 @@
+// localOKRCache.ts
+// OKR fields cached on this device. The chain holds ciphertexts and, for FHE OKRs, the sealed
+// record (see textCrypto.ts); older entries may still hold text in clear.
+import { normalizeKeyResults } from "./keyResults";
+import type { CheckIn, KeyResult, OKRStatus, StatusChange } from "./repository/types";
+
+export interface LocalOKRData {
+  objective: string;
+  keyResults: KeyResult[];
+  progress: number;
+  priority?: number;
+  status?: OKRStatus;
+  teamId?: string;
+  objectiveId?: string;
+  cycleId?: string;
+  rolledFrom?: string;
+  rolledInto?: string;
+  statusHistory?: StatusChange[];
+  sealedText?: string;
+}
+
+// Clear side of an on-chain check-in, matched by its index in the contract. Notes are sealed into
+// the check-in itself now; older entries may still hold one in clear.
+export interface LocalCheckIn {
+  index: number;
+  progress: number;
+  confidence?: number;
+  note?: string;
+}
+
+// Entries are scoped by network and contract: OKR ids restart at 1 on every deployment
+export class LocalOKRCache {
+  constructor(private readonly scope: string) {}
+
+  private storageKey(okrId: string) {
+    return `privacyokr_local_${this.scope}_${okrId}`;
+  }
+
+  private checkInKey(okrId: string) {
+    return `privacyokr_checkins_${this.scope}_${okrId}`;
+  }
+
+  read(okrId: string): LocalOKRData | null {
+    try {
+      const raw = window.localStorage.getItem(this.storageKey(okrId));
+      if (!raw) return null;
+      const data = JSON.parse(raw) as LocalOKRData;
+      return { ...data, keyResults: normalizeKeyResults(data.keyResults) };
+    } catch (e) {
+      console.error(`Error reading local OKR ${okrId}:`, e);
+      return null;
+    }
+  }
+
+  write(okrId: string, data: LocalOKRData) {
+    window.localStorage.setItem(this.storageKey(okrId), JSON.stringify(data));
+  }
+
+  remove(okrId: string) {
+    window.localStorage.removeItem(this.storageKey(okrId));
+    window.localStorage.removeItem(this.checkInKey(okrId));
+  }
+
+  patch(okrId: string, patch: Partial<LocalOKRData>) {
+    const current = this.read(okrId) || { objective: "", keyResults: [], progress: 0 };
+    this.write(okrId, { ...current, ...patch });
+  }
+
+  readCheckIns(okrId: string): LocalCheckIn[] {
+    try {
+      const raw = window.localStorage.getItem(this.checkInKey(okrId));
+      return raw ? (JSON.parse(raw) as LocalCheckIn[]) : [];
+    } catch (e) {
+      console.error(`Error reading check-ins of ${okrId}:`, e);
+      return [];
+    }
+  }
+
+  appendCheckIn(okrId: string, checkIn: LocalCheckIn) {
+    const list = this.readCheckIns(okrId).filter(c => c.index !== checkIn.index);
+    list.push(checkIn);
+    window.localStorage.setItem(this.checkInKey(okrId), JSON.stringify(list.sort((a, b) => a.index - b.index)));
+  }
+}
+
+// Joins on-chain timestamps with the clear values this device recorded
+export function mergeCheckIns(timestamps: number[], local: LocalCheckIn[]): CheckIn[] {
+  return timestamps.map((timestamp, index) => {
+    const clear = local.find(c => c.index === index);
+    const checkIn: CheckIn = { timestamp, progress: clear ? clear.progress : null };
+    if (clear?.confidence !== undefined) checkIn.confidence = clear.confidence;
+    if (clear?.note) checkIn.note = clear.note;
+    return checkIn;
+  });
+}
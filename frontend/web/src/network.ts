@@ -0,0 +1,76 @@
+// network.ts
+// Named network profiles from config.json. The active one supplies the read RPCs, the chain the
+// wallet is switched to, the FHE backend and the deployed contract addresses.
+import { ethers } from "ethers";
+import configJson from "./config.json";
+
+// "relayer" encrypts through Zama's relayer SDK; "mock" talks to the FHEVM mock of a local hardhat node
+export type FhevmMode = "relayer" | "mock";
+
+export interface NetworkProfile {
+  chainName: string;
+  chainId: number;
+  // reads go to the healthiest. Keys are written as ${NAME} placeholders and filled from the
+  // VITE_ variables listed in RPC_KEYS
+  rpcUrls: string[];
+  // offered to the wallet when it does not know the chain yet; the wallet keeps them, so they must
+  // carry no key. Defaults to the rpcUrls without placeholders
+  walletRpcUrls?: string[];
+  blockExplorerUrls?: string[];
+  nativeCurrency: { name: string; symbol: string; decimals: number };
+  fhevm: FhevmMode;
+  contractAddress: string;
+  okrPlatformAddress: string;
+  deployBlock: number;
+  deployer?: string;
+}
+
+export interface NetworkConfig {
+  activeNetwork: string;
+  networks: Record<string, NetworkProfile>;
+}
+
+const networkConfig = configJson as NetworkConfig;
+
+export const activeNetworkName = networkConfig.activeNetwork;
+
+if (!networkConfig.networks[activeNetworkName]) {
+  throw new Error(`Network profile "${activeNetworkName}" missing from config.json`);
+}
+
+export const activeNetwork: NetworkProfile = networkConfig.networks[activeNetworkName];
+
+export const chainIdHex = (profile: NetworkProfile = activeNetwork) => ethers.toQuantity(profile.chainId);
+
+// the only build variables urls may reference; vite.config.ts inlines exactly these
+const RPC_KEYS: Record<string, string | undefined> = {
+  VITE_INFURA_API_KEY: import.meta.env.VITE_INFURA_API_KEY
+};
+
+const KEY_PLACEHOLDER = /\$\{(\w+)\}/g;
+
+export interface RpcEndpoint {
+  url: string;
+  // the url with its keys masked, safe to display
+  label: string;
+}
+
+// RPC urls of a profile with their keys filled in; urls whose keys are not configured are left out
+export function rpcEndpoints(profile: NetworkProfile = activeNetwork): RpcEndpoint[] {
+  const endpoints: RpcEndpoint[] = [];
+  for (const template of profile.rpcUrls) {
+    let missing = false;
+    const url = template.replace(KEY_PLACEHOLDER, (_, name: string) => {
+      const value = RPC_KEYS[name];
+      if (!value) missing = true;
+      return value ?? "";
+    });
+    if (!missing) endpoints.push({ url, label: template.replace(KEY_PLACEHOLDER, "***") });
+  }
+  return endpoints;
+}
+
+// Public RPC urls to hand to wallet_addEthereumChain; keyed urls never leave the app
+export function walletRpcUrls(profile: NetworkProfile = activeNetwork): string[] {
+  return (profile.walletRpcUrls ?? profile.rpcUrls).filter(url => url.search(KEY_PLACEHOLDER) < 0);
+}
@@ -0,0 +1,46 @@
+// okrLifecycle.ts
+import type { OKRStatus, PersonalOKR, StatusChange } from "./repository/types";
+
+export type OKRAction = "complete" | "reopen" | "archive" | "unarchive";
+
+// Allowed status changes; anything else is rejected before it reaches storage
+const TRANSITIONS: Record<OKRStatus, Partial<Record<OKRAction, OKRStatus>>> = {
+  active: { complete: "completed", archive: "archived" },
+  completed: { reopen: "active", archive: "archived" },
+  archived: { unarchive: "active" }
+};
+
+export const ACTION_LABELS: Record<OKRAction, string> = {
+  complete: "Mark completed",
+  reopen: "Reopen",
+  archive: "Archive",
+  unarchive: "Unarchive"
+};
+
+export function availableActions(status: OKRStatus): OKRAction[] {
+  return Object.keys(TRANSITIONS[status]) as OKRAction[];
+}
+
+export function nextStatus(status: OKRStatus, action: OKRAction): OKRStatus {
+  const next = TRANSITIONS[status][action];
+  if (!next) {
+    throw new Error(`Cannot ${action} an OKR that is ${status}`);
+  }
+  return next;
+}
+
+export function assertTransition(from: OKRStatus, to: OKRStatus) {
+  if (from === to) return;
+  if (!Object.values(TRANSITIONS[from]).includes(to)) {
+    throw new Error(`Cannot move an OKR from ${from} to ${to}`);
+  }
+}
+
+// Only active OKRs take progress, objective or key-result edits; completed ones are reopened first
+export const canEdit = (status: OKRStatus) => status === "active";
+
+export const suggestsCompletion = (okr: PersonalOKR) => okr.status === "active" && okr.progress >= 100;
+
+export function withStatusChange(history: StatusChange[] | undefined, status: OKRStatus): StatusChange[] {
+  return [...(history || []), { status, timestamp: Math.floor(Date.now() / 1000) }];
+}
@@ -0,0 +1,18 @@
+// priority.ts
+// OKR priority, encrypted with the OKR and used as its weight in team and objective aggregates
+
+// EncryptedOKRPlatformFHE.MAX_PRIORITY; the contract clamps anything outside 1..MAX_PRIORITY
+export const MAX_PRIORITY = 3;
+
+export const PRIORITY_LABELS: Record<number, string> = {
+  1: "Low",
+  2: "Medium",
+  3: "High"
+};
+
+export const PRIORITIES = Object.keys(PRIORITY_LABELS).map(Number);
+
+export const DEFAULT_PRIORITY = 2;
+
+export const clampPriority = (priority: number | undefined) =>
+  Math.max(1, Math.min(MAX_PRIORITY, Math.round(priority ?? DEFAULT_PRIORITY)));
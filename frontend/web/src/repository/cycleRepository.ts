@@ -0,0 +1,86 @@
+// repository/cycleRepository.ts
+import type { UniversalAdapter } from "../../../../types";
+import type { AdapterBatcher } from "../batchReader";
+import { cycleIdOf, nextCycle, withDefaultCycles } from "../cycles";
+import { namespaceOf } from "./dataStoredIndex";
+import { cycleListKey, readJSON, updateList } from "./keyValueRepository";
+import { Cycle, OKRRepository, PersonalOKR } from "./types";
+
+type AdapterReader = () => Promise<AdapterBatcher | null>;
+type AdapterWriter = () => Promise<UniversalAdapter>;
+
+export interface RolloverResult {
+  closed: Cycle;
+  next: Cycle;
+  rolled: PersonalOKR[];
+}
+
+// Cycles per account in the key-value adapter. Calendar quarters always exist, so only
+// custom cycles and close-out state need storing.
+export class CycleRepository {
+  constructor(
+    private readonly getReader: AdapterReader,
+    private readonly getWriter: AdapterWriter,
+    private readonly okrs: OKRRepository
+  ) {}
+
+  async list(owner: string): Promise<Cycle[]> {
+    const batch = owner ? await this.getReader() : null;
+    const stored = batch ? (await readJSON<Cycle[]>(namespaceOf(batch, owner), cycleListKey(owner))) || [] : [];
+    return withDefaultCycles(stored);
+  }
+
+  async save(owner: string, cycle: Cycle): Promise<Cycle[]> {
+    if (cycle.end <= cycle.start) {
+      throw new Error("Cycle must end after it starts");
+    }
+    const contract = await this.getWriter();
+    let stored: Cycle[] = [];
+    // versioned, so a save from another tab is retried on top of instead of overwritten
+    await updateList<Cycle>(contract, cycleListKey(owner), current => {
+      stored = [...current.filter(c => c.id !== cycle.id), cycle];
+      return stored;
+    });
+    return withDefaultCycles(stored);
+  }
+
+  // Copies every unfinished OKR of the cycle into the next one, aligned to the same team and
+  // objective at the same priority. The originals keep their history and only gain a pointer to their copy.
+  async closeOut(owner: string, cycleId: string, okrs: PersonalOKR[]): Promise<RolloverResult> {
+    const cycles = await this.list(owner);
+    const cycle = cycles.find(c => c.id === cycleId);
+    if (!cycle) {
+      throw new Error("Unknown cycle");
+    }
+    if (cycle.closedAt) {
+      throw new Error(`${cycle.name} is already closed`);
+    }
+    const next = nextCycle(cycle, cycles);
+
+    const unfinished = okrs.filter(
+      okr => cycleIdOf(okr, cycles) === cycle.id && okr.status === "active" && okr.progress < 100 && !okr.rolledInto
+    );
+    // copies are sealed from the clear text, which a locked OKR does not have
+    if (unfinished.some(okr => okr.locked)) {
+      throw new Error("Unlock your OKR text before closing out the cycle");
+    }
+    const rolled: PersonalOKR[] = [];
+    for (const okr of unfinished) {
+      const copy = await this.okrs.create(owner, {
+        objective: okr.objective,
+        keyResults: okr.keyResults,
+        priority: okr.priority,
+        teamId: okr.teamId,
+        objectiveId: okr.objectiveId,
+        cycleId: next.id,
+        rolledFrom: okr.id
+      });
+      await this.okrs.update(okr.id, { rolledInto: copy.id });
+      rolled.push(copy);
+    }
+
+    const closed = { ...cycle, closedAt: Math.floor(Date.now() / 1000) };
+    await this.save(owner, closed);
+    return { closed, next, rolled };
+  }
+}
@@ -0,0 +1,157 @@
+// repository/dataStoredIndex.ts
+import type { ethers } from "ethers";
+import type { UniversalAdapter } from "../../../../types";
+
+// One account's keys in UniversalAdapter
+export interface KeyValueSource {
+  getData(key: string): Promise<string>;
+}
+
+// UniversalAdapter storage, where every key lives in the namespace of the account that wrote it
+export interface KeyValueStorage {
+  getData(owner: string, key: string): Promise<string>;
+}
+
+export function namespaceOf(storage: KeyValueStorage, owner: string): KeyValueSource {
+  return { getData: key => storage.getData(owner, key) };
+}
+
+const entryKey = (owner: string, key: string) => `${owner.toLowerCase()}/${key}`;
+
+interface IndexState {
+  lastBlock: number;
+  values: Record<string, string>;
+}
+
+// public RPCs commonly reject wider eth_getLogs ranges
+const MAX_BLOCK_RANGE = 50_000;
+
+// Runs a log query from `fromBlock` to the chain head in ranges public RPCs accept. Refuses to
+// start at genesis: without a known deployment block the scan would cover the whole chain.
+export async function queryBlockRanges<T>(
+  provider: ethers.Provider,
+  fromBlock: number,
+  query: (from: number, to: number) => Promise<T[]>
+): Promise<T[]> {
+  if (fromBlock <= 0) {
+    throw new Error("deployBlock missing from config.json, cannot scan contract logs");
+  }
+  const latest = await provider.getBlockNumber();
+  const results: T[] = [];
+  for (let from = fromBlock; from <= latest; from += MAX_BLOCK_RANGE) {
+    results.push(...(await query(from, Math.min(from + MAX_BLOCK_RANGE - 1, latest))));
+  }
+  return results;
+}
+
+// Current UniversalAdapter state rebuilt from DataStored logs, persisted between sessions
+// so each sync only asks for blocks it has not seen yet.
+export class DataStoredIndex {
+  private state: IndexState;
+  private readonly dirty = new Set<string>();
+  private syncing: Promise<boolean> | null = null;
+
+  constructor(
+    private readonly storageKey: string,
+    private readonly startBlock: number
+  ) {
+    this.state = this.load();
+  }
+
+  private load(): IndexState {
+    const empty = { lastBlock: this.startBlock - 1, values: {} };
+    try {
+      const raw = window.localStorage.getItem(this.storageKey);
+      return raw ? (JSON.parse(raw) as IndexState) : empty;
+    } catch (e) {
+      console.error("Error reading DataStored index:", e);
+      return empty;
+    }
+  }
+
+  private save() {
+    try {
+      window.localStorage.setItem(this.storageKey, JSON.stringify(this.state));
+    } catch (e) {
+      console.warn("Failed to persist DataStored index:", e);
+    }
+  }
+
+  // Resolves false when the index cannot be trusted and callers should read storage directly
+  sync(contract: UniversalAdapter): Promise<boolean> {
+    if (!this.syncing) {
+      this.syncing = this.applyNewLogs(contract).finally(() => {
+        this.syncing = null;
+      });
+    }
+    return this.syncing;
+  }
+
+  private async applyNewLogs(contract: UniversalAdapter): Promise<boolean> {
+    // without a known deployment block the first scan would cover the whole chain
+    if (this.startBlock <= 0) return false;
+
+    const provider = contract.runner?.provider;
+    if (!provider) return false;
+
+    try {
+      const latest = await provider.getBlockNumber();
+      for (let from = this.state.lastBlock + 1; from <= latest; from += MAX_BLOCK_RANGE) {
+        const to = Math.min(from + MAX_BLOCK_RANGE - 1, latest);
+        const logs = await contract.queryFilter(contract.filters.DataStored(), from, to);
+        for (const log of logs) {
+          const entry = entryKey(log.args.sender, log.args.key);
+          this.state.values[entry] = log.args.value;
+          this.dirty.delete(entry);
+        }
+        this.state.lastBlock = to;
+      }
+      this.save();
+      return true;
+    } catch (e) {
+      console.warn("DataStored index sync failed, falling back to getData:", e);
+      return false;
+    }
+  }
+
+  // Every key the sender ever wrote, whether or not a list still references it
+  async keysWrittenBy(contract: UniversalAdapter, sender: string): Promise<string[]> {
+    const provider = contract.runner?.provider;
+    if (!provider) {
+      throw new Error("No provider to scan DataStored logs");
+    }
+
+    const logs = await queryBlockRanges(provider, this.startBlock, (from, to) =>
+      contract.queryFilter(contract.filters.DataStored(sender), from, to)
+    );
+    return [...new Set(logs.map(log => log.args.key))];
+  }
+
+  // Keys written in this session are read from storage until their log is indexed
+  markDirty(owner: string, key: string) {
+    this.dirty.add(entryKey(owner, key));
+  }
+
+  source(storage: KeyValueStorage, owner: string): KeyValueSource {
+    return {
+      getData: async (key: string) => {
+        const entry = entryKey(owner, key);
+        if (this.dirty.has(entry)) return storage.getData(owner, key);
+        return this.state.values[entry] ?? "0x";
+      }
+    };
+  }
+
+  // Checks one indexed value against storage and repairs the index on mismatch
+  async verify(storage: KeyValueStorage, owner: string, key: string): Promise<string> {
+    const onChain = await storage.getData(owner, key);
+    const entry = entryKey(owner, key);
+    if ((this.state.values[entry] ?? "0x") !== onChain) {
+      console.warn(`DataStored index out of date for ${key}, repaired from getData`);
+      this.state.values[entry] = onChain;
+      this.save();
+    }
+    this.dirty.delete(entry);
+    return onChain;
+  }
+}
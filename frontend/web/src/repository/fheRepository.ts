@@ -0,0 +1,501 @@
+// repository/fheRepository.ts
+import { ethers } from "ethers";
+import type { EncryptedOKRPlatformFHE } from "../../../../types";
+import type { ContractBatcher } from "../batchReader";
+import {
+  encryptKeyResultBatch,
+  encryptOKRValues,
+  hasDecryptionSession,
+  KeyResultClearValues,
+  keyResultHandleCount,
+  MAX_INPUT_HANDLES,
+  textDigest,
+  userDecryptHandles
+} from "../fhe";
+import { keyResultProgress, objectiveProgress } from "../keyResults";
+import { LocalOKRCache, mergeCheckIns } from "../localOKRCache";
+import { assertTransition, withStatusChange } from "../okrLifecycle";
+import { clampPriority } from "../priority";
+import {
+  LOCKED_TEXT,
+  OKRRecord,
+  openCheckInNote,
+  openOKRRecord,
+  revealOKRText,
+  sealCheckInNote,
+  sealOKRRecord,
+  textOf,
+  unlockTextKey,
+  withoutText,
+  withText
+} from "../textCrypto";
+import { queryBlockRanges } from "./dataStoredIndex";
+import { TeamRepository, objectiveAggregateKey } from "./teamRepository";
+import { CheckIn, OKRDraft, OKRPatch, OKRRepository, OKRUpdate, PersonalOKR, TeamOKR } from "./types";
+
+// OKRs not attached to a team are submitted under the zero team id
+export const PERSONAL_TEAM_ID = ethers.ZeroHash;
+
+type PlatformReader = () => Promise<ContractBatcher<EncryptedOKRPlatformFHE> | null>;
+type PlatformWriter = () => Promise<EncryptedOKRPlatformFHE>;
+
+function parseEvents(platform: EncryptedOKRPlatformFHE, receipt: ethers.TransactionReceipt | null, name: string) {
+  return (receipt?.logs || [])
+    .map((log) => {
+      try {
+        return platform.interface.parseLog(log);
+      } catch {
+        return null;
+      }
+    })
+    .filter((parsed): parsed is ethers.LogDescription => parsed?.name === name);
+}
+
+function clearValues(patch: OKRUpdate): KeyResultClearValues {
+  const keyResults = patch.keyResults || [];
+  return {
+    progress: objectiveProgress(keyResults),
+    confidence: patch.checkIn?.confidence,
+    keyResultProgress: keyResults.map(keyResultProgress)
+  };
+}
+
+// EncryptedOKRPlatformFHE.MAX_NOTE_LENGTH; a longer sealed note would revert its whole batch
+const MAX_SEALED_NOTE_LENGTH = 1024;
+
+async function sealNote(signer: ethers.Signer, note: string | undefined): Promise<string> {
+  if (!note) return "";
+  const sealed = await sealCheckInNote(signer, note);
+  if (sealed.length > MAX_SEALED_NOTE_LENGTH) {
+    throw new Error("Check-in note is too long");
+  }
+  return sealed;
+}
+
+// The contract stores records of any length at the owner's expense; this keeps them cheap to write
+// and to read back
+const MAX_SEALED_RECORD_LENGTH = 4096;
+
+async function sealRecord(signer: ethers.Signer, record: OKRRecord): Promise<string> {
+  const sealed = await sealOKRRecord(signer, record);
+  if (sealed.length > MAX_SEALED_RECORD_LENGTH) {
+    throw new Error("OKR text is too long");
+  }
+  return sealed;
+}
+
+function recordOf(okr: PersonalOKR): OKRRecord {
+  return {
+    ...textOf(okr.objective, okr.keyResults),
+    status: okr.status,
+    statusHistory: okr.statusHistory,
+    priority: okr.priority,
+    cycleId: okr.cycleId,
+    objectiveId: okr.objectiveId,
+    rolledFrom: okr.rolledFrom,
+    rolledInto: okr.rolledInto
+  };
+}
+
+function patchedRecord(okr: PersonalOKR, patch: OKRUpdate): OKRRecord {
+  const record = recordOf(okr);
+  if (patch.status !== undefined && patch.status !== okr.status) {
+    record.status = patch.status;
+    record.statusHistory = withStatusChange(okr.statusHistory, patch.status);
+  }
+  if (patch.rolledInto !== undefined) record.rolledInto = patch.rolledInto;
+  return record;
+}
+
+// Splits updates so each chunk fits in one encrypted input
+function chunkByHandles(updates: OKRPatch[]): OKRPatch[][] {
+  const chunks: OKRPatch[][] = [];
+  let current: OKRPatch[] = [];
+  let handles = 0;
+  for (const update of updates) {
+    const size = keyResultHandleCount(clearValues(update.patch));
+    if (current.length > 0 && handles + size > MAX_INPUT_HANDLES) {
+      chunks.push(current);
+      current = [];
+      handles = 0;
+    }
+    current.push(update);
+    handles += size;
+  }
+  if (current.length > 0) chunks.push(current);
+  return chunks;
+}
+
+// OKRs stored as ciphertexts in EncryptedOKRPlatformFHE, with text, status, cycle and alignment in a
+// record sealed to the owner next to them. Clear numbers are cached on this device.
+// OKRSubmitted events are scanned from `startBlock`, the deployment.
+export class FheOKRRepository implements OKRRepository {
+  constructor(
+    private readonly getReader: PlatformReader,
+    private readonly getWriter: PlatformWriter,
+    private readonly cache: LocalOKRCache,
+    private readonly teams?: TeamRepository,
+    private readonly startBlock = 0
+  ) {}
+
+  async listPersonal(owner: string): Promise<PersonalOKR[]> {
+    const batch = await this.getReader();
+    const provider = batch?.contract.runner?.provider;
+    if (!batch || !provider || !owner) return [];
+
+    const reader = batch.contract;
+    const events = await queryBlockRanges(provider, this.startBlock, (from, to) =>
+      reader.queryFilter(reader.filters.OKRSubmitted(undefined, owner), from, to)
+    );
+    // concurrent, so the reads share batches
+    const okrs = await Promise.all(events.map(event => this.get(event.args.id.toString())));
+    return okrs.filter((okr): okr is PersonalOKR => okr !== null).sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  // Objectives of the member's teams; progress comes from aligned OKRs only and stays
+  // encrypted until the decryption oracle reveals it
+  async listTeam(member: string): Promise<TeamOKR[]> {
+    const batch = await this.getReader();
+    const teamRepository = this.teams;
+    if (!batch || !member || !teamRepository) return [];
+
+    const [teams, objectives] = await Promise.all([teamRepository.listMine(), teamRepository.listObjectives()]);
+    const list: TeamOKR[] = [];
+    await Promise.all(objectives.map(async objective => {
+      const team = teams.find(t => t.id === objective.teamId);
+      if (!team) return;
+
+      const key = objectiveAggregateKey(objective.id);
+      const [[, lastUpdated], revealState] = await Promise.all([
+        batch.read("getEncryptedAggregate", key),
+        teamRepository.revealOf(key, team.id)
+      ]);
+      list.push({
+        id: objective.id,
+        objective: objective.title,
+        aggregatedProgress: revealState.reveal?.progress ?? 0,
+        lastUpdated: Number(lastUpdated) || objective.createdAt,
+        memberCount: team.memberCount,
+        teamId: team.id,
+        parentId: objective.parentId,
+        alignedCount: objective.alignedCount,
+        ...revealState
+      });
+    }));
+    return list.sort((a, b) => b.lastUpdated - a.lastUpdated);
+  }
+
+  async get(id: string): Promise<PersonalOKR | null> {
+    const batch = await this.getReader();
+    if (!batch) return null;
+
+    const [okr, sealedRecord] = await Promise.all([batch.read("encryptedOkrs", id), batch.read("okrRecords", id)]);
+    if (okr.owner === ethers.ZeroAddress) return null;
+
+    const local = this.cache.read(id);
+    const record = sealedRecord ? await openOKRRecord(okr.owner, sealedRecord) : null;
+    // OKRs submitted before the contract kept records have their text on the submitting device only
+    const text = sealedRecord
+      ? {
+          objective: record?.objective ?? LOCKED_TEXT,
+          keyResults: withText(local?.keyResults ?? [], record),
+          locked: !record
+        }
+      : await revealOKRText(okr.owner, local?.sealedText, local?.objective, local?.keyResults ?? []);
+    // while the record is locked, this device's copy is the best guess
+    const meta = record ?? local;
+    return {
+      id,
+      platformId: id,
+      objective: text.objective,
+      keyResults: text.keyResults,
+      locked: text.locked,
+      progress: local?.progress ?? 0,
+      priority: meta?.priority,
+      encryptedData: okr.encryptedProgress,
+      timestamp: Number(okr.timestamp),
+      owner: okr.owner,
+      status: meta?.status ?? "active",
+      // the team is public on chain, the objective link only in the sealed record
+      teamId: okr.teamId === PERSONAL_TEAM_ID ? undefined : okr.teamId,
+      objectiveId: meta?.objectiveId,
+      cycleId: meta?.cycleId,
+      rolledFrom: meta?.rolledFrom,
+      rolledInto: meta?.rolledInto,
+      statusHistory: meta?.statusHistory
+    };
+  }
+
+  async create(owner: string, draft: OKRDraft): Promise<PersonalOKR> {
+    const platform = await this.getWriter();
+    const progress = objectiveProgress(draft.keyResults);
+    const priority = clampPriority(draft.priority);
+    const objectiveId = draft.teamId ? draft.objectiveId : undefined;
+    const statusHistory = withStatusChange(undefined, "active");
+    const sealedRecord = await sealRecord(platform.runner as ethers.Signer, {
+      ...textOf(draft.objective, draft.keyResults),
+      status: "active",
+      statusHistory,
+      priority,
+      cycleId: draft.cycleId,
+      objectiveId,
+      rolledFrom: draft.rolledFrom
+    });
+    const encrypted = await encryptOKRValues(await platform.getAddress(), owner, {
+      objective: textDigest(draft.objective, draft.keyResults.map(kr => kr.title)),
+      keyResults: draft.keyResults.length,
+      progress,
+      priority,
+      keyResultProgress: draft.keyResults.map(keyResultProgress)
+    });
+
+    const tx = await platform.submitEncryptedOKR(
+      encrypted.handles[0],
+      encrypted.handles[1],
+      encrypted.handles[2],
+      encrypted.handles[3],
+      encrypted.handles.slice(4),
+      encrypted.inputProof,
+      draft.teamId || PERSONAL_TEAM_ID,
+      objectiveId || 0,
+      sealedRecord
+    );
+    const receipt = await tx.wait();
+
+    const [submitted] = parseEvents(platform, receipt, "OKRSubmitted");
+    if (!submitted) {
+      throw new Error("OKRSubmitted event not found in receipt");
+    }
+
+    const id = submitted.args.id.toString();
+    this.cache.write(id, { objective: "", keyResults: withoutText(draft.keyResults), progress });
+    this.cache.appendCheckIn(id, { index: 0, progress });
+
+    return {
+      id,
+      platformId: id,
+      ...draft,
+      progress,
+      priority,
+      encryptedData: ethers.hexlify(encrypted.handles[2]),
+      timestamp: Math.floor(Date.now() / 1000),
+      owner,
+      status: "active",
+      statusHistory
+    };
+  }
+
+  async update(id: string, patch: OKRUpdate): Promise<PersonalOKR> {
+    const [okr] = await this.updateMany([{ id, patch }]);
+    return okr;
+  }
+
+  // Key-result changes go out in one transaction per encrypted input; objective edits, status
+  // changes and rollover links in one transaction per OKR
+  async updateMany(updates: OKRPatch[]): Promise<PersonalOKR[]> {
+    const recordUpdates = updates.filter(
+      ({ patch }) => patch.objective !== undefined || patch.status !== undefined || patch.rolledInto !== undefined
+    );
+    // records are sealed again as a whole, so their text has to be readable first
+    const current = new Map<string, PersonalOKR>();
+    if (recordUpdates.length > 0) {
+      await unlockTextKey((await this.getWriter()).runner as ethers.Signer);
+      await Promise.all(
+        recordUpdates.map(async ({ id, patch }) => {
+          const okr = await this.get(id);
+          if (!okr) {
+            throw new Error("OKR not found");
+          }
+          if (okr.locked) {
+            throw new Error("OKR text is locked on this device");
+          }
+          if (patch.status !== undefined) {
+            assertTransition(okr.status, patch.status);
+          }
+          current.set(id, okr);
+        })
+      );
+    }
+
+    for (const { id, patch } of updates.filter(({ patch }) => patch.objective !== undefined)) {
+      await this.edit(id, patch, current.get(id) as PersonalOKR);
+    }
+
+    const progressUpdates = updates.filter(({ patch }) => patch.keyResults !== undefined && patch.objective === undefined);
+    if (progressUpdates.length > 0) {
+      const platform = await this.getWriter();
+      const signer = platform.runner as ethers.Signer;
+      const contractAddress = await platform.getAddress();
+      const userAddress = await signer.getAddress();
+
+      for (const chunk of chunkByHandles(progressUpdates)) {
+        const values = chunk.map(({ patch }) => clearValues(patch));
+        const sealedNotes = await Promise.all(chunk.map(({ patch }) => sealNote(signer, patch.checkIn?.note)));
+        const encrypted = await encryptKeyResultBatch(contractAddress, userAddress, values);
+        const tx = await platform.updateEncryptedKeyResultsBatch(
+          chunk.map(({ id }) => id),
+          values.map(v => v.keyResultProgress.length),
+          encrypted.handles,
+          encrypted.inputProof,
+          sealedNotes
+        );
+        const receipt = await tx.wait();
+
+        const checkInIndex = new Map<string, number>();
+        for (const recorded of parseEvents(platform, receipt, "CheckInRecorded")) {
+          checkInIndex.set(recorded.args.id.toString(), Number(recorded.args.index));
+        }
+        chunk.forEach(({ id, patch }, i) => {
+          const { progress, confidence } = values[i];
+          this.cache.patch(id, { keyResults: withoutText(patch.keyResults || []), progress });
+          const index = checkInIndex.get(id);
+          if (index === undefined) return;
+          this.cache.appendCheckIn(id, { index, progress, ...(confidence !== undefined && { confidence }) });
+        });
+      }
+    }
+
+    const recordOnly = recordUpdates.filter(({ id, patch }) => {
+      const okr = current.get(id) as PersonalOKR;
+      const statusChanged = patch.status !== undefined && patch.status !== okr.status;
+      return patch.objective === undefined && (statusChanged || patch.rolledInto !== undefined);
+    });
+    if (recordOnly.length > 0) {
+      const platform = await this.getWriter();
+      const signer = platform.runner as ethers.Signer;
+      for (const { id, patch } of recordOnly) {
+        const sealedRecord = await sealRecord(signer, patchedRecord(current.get(id) as PersonalOKR, patch));
+        const tx = await platform.setOKRRecord(id, sealedRecord);
+        await tx.wait();
+      }
+    }
+
+    return Promise.all(
+      updates.map(async ({ id }) => {
+        const okr = await this.get(id);
+        if (!okr) {
+          throw new Error("OKR not found");
+        }
+        return okr;
+      })
+    );
+  }
+
+  // Re-commits the text digest, priority, key results and record after the objective or key-result
+  // titles changed. Without a new priority the current one is encrypted again.
+  private async edit(id: string, patch: OKRUpdate, okr: PersonalOKR) {
+    const platform = await this.getWriter();
+    const signer = platform.runner as ethers.Signer;
+    const objective = patch.objective as string;
+    const keyResults = patch.keyResults ?? okr.keyResults;
+    const progress = objectiveProgress(keyResults);
+    const priority = clampPriority(patch.priority ?? okr.priority);
+    const sealedRecord = await sealRecord(signer, {
+      ...patchedRecord(okr, patch),
+      ...textOf(objective, keyResults),
+      priority
+    });
+    const encrypted = await encryptOKRValues(await platform.getAddress(), await signer.getAddress(), {
+      objective: textDigest(objective, keyResults.map(kr => kr.title)),
+      keyResults: keyResults.length,
+      progress,
+      priority,
+      keyResultProgress: keyResults.map(keyResultProgress)
+    });
+
+    const tx = await platform.editEncryptedOKR(
+      id,
+      encrypted.handles[0],
+      encrypted.handles[1],
+      encrypted.handles[2],
+      encrypted.handles[3],
+      encrypted.handles.slice(4),
+      encrypted.inputProof,
+      sealedRecord
+    );
+    const receipt = await tx.wait();
+
+    this.cache.patch(id, { objective: "", keyResults: withoutText(keyResults), progress });
+    const [recorded] = parseEvents(platform, receipt, "CheckInRecorded");
+    if (recorded) {
+      this.cache.appendCheckIn(id, { index: Number(recorded.args.index), progress });
+    }
+  }
+
+  archive(id: string): Promise<PersonalOKR> {
+    return this.update(id, { status: "archived" });
+  }
+
+  async delete(id: string): Promise<void> {
+    const platform = await this.getWriter();
+    const tx = await platform.deleteEncryptedOKR(id);
+    await tx.wait();
+    this.cache.remove(id);
+  }
+
+  async listCheckIns(id: string): Promise<CheckIn[]> {
+    const batch = await this.getReader();
+    if (!batch) return [];
+
+    const [count, { owner }] = await Promise.all([batch.read("getCheckInCount", id), batch.read("getEncryptedOKR", id)]);
+    const entries = await Promise.all(
+      Array.from({ length: Number(count) }, async (_, i) => {
+        const [progress, confidence, timestamp, sealedNote] = await batch.read("getCheckIn", id, i);
+        return { progress, confidence, timestamp: Number(timestamp), sealedNote };
+      })
+    );
+    const checkIns = mergeCheckIns(entries.map(e => e.timestamp), this.cache.readCheckIns(id));
+    await Promise.all(
+      entries.map(async ({ sealedNote }, i) => {
+        if (sealedNote) checkIns[i].note = (await openCheckInNote(owner, sealedNote)) ?? LOCKED_TEXT;
+      })
+    );
+
+    // entries recorded on another device are filled in when decryption is already authorized
+    const missing = checkIns.map((c, i) => (c.progress === null ? i : -1)).filter(i => i >= 0);
+    const contractAddress = await batch.contract.getAddress();
+    if (missing.length === 0 || !hasDecryptionSession(owner, contractAddress)) return checkIns;
+
+    const clear = await userDecryptHandles(
+      contractAddress,
+      owner,
+      missing.flatMap(i => [entries[i].progress, entries[i].confidence])
+    );
+    for (const i of missing) {
+      const progress = clear.get(entries[i].progress.toLowerCase());
+      const confidence = clear.get(entries[i].confidence.toLowerCase());
+      if (progress !== undefined) checkIns[i].progress = Number(progress);
+      if (confidence) checkIns[i].confidence = Number(confidence);
+    }
+    return checkIns;
+  }
+
+  async decryptProgress(okrs: PersonalOKR[], authorize = false): Promise<PersonalOKR[]> {
+    if (okrs.length === 0) return okrs;
+    const platform = authorize ? await this.getWriter() : (await this.getReader())?.contract;
+    if (!platform) return okrs;
+
+    const contractAddress = await platform.getAddress();
+    const owner = okrs[0].owner;
+    if (!authorize && !hasDecryptionSession(owner, contractAddress)) return okrs;
+
+    // encryptedData holds the current progress handle, see get()
+    const clear = await userDecryptHandles(
+      contractAddress,
+      owner,
+      okrs.map(okr => okr.encryptedData),
+      authorize ? (platform.runner as ethers.Signer) : undefined
+    );
+    return okrs.map(okr => {
+      const value = clear.get(okr.encryptedData.toLowerCase());
+      if (value === undefined) return okr;
+      this.cache.patch(okr.id, { progress: Number(value) });
+      return { ...okr, progress: Number(value), decrypted: true };
+    });
+  }
+
+  // Listing comes straight from OKRSubmitted events, so there is no list to fall out of sync
+  async repair(): Promise<string[]> {
+    return [];
+  }
+}
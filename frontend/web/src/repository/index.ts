@@ -0,0 +1,86 @@
+// repository/index.ts
+import {
+  config,
+  getBatchedPlatformReadOnly,
+  getBatchedReadOnly,
+  getContractWithSigner,
+  getOkrPlatformWithSigner
+} from "../contract";
+import { LocalOKRCache } from "../localOKRCache";
+import { CycleRepository } from "./cycleRepository";
+import { DataStoredIndex } from "./dataStoredIndex";
+import { FheOKRRepository } from "./fheRepository";
+import { KeyValueOKRRepository } from "./keyValueRepository";
+import { MemoryOKRRepository } from "./memoryRepository";
+import { TeamRepository } from "./teamRepository";
+import { TextKeyCheckRepository } from "./textKeyCheckRepository";
+import { OKRRepository } from "./types";
+
+export * from "./types";
+export { FheOKRRepository, PERSONAL_TEAM_ID } from "./fheRepository";
+export { KeyValueOKRRepository } from "./keyValueRepository";
+export { MemoryOKRRepository } from "./memoryRepository";
+export { DataStoredIndex } from "./dataStoredIndex";
+export {
+  TeamRepository,
+  DISTRIBUTION_BUCKETS,
+  lacksContributors,
+  noiseMargin,
+  objectiveAggregateKey,
+  revealLabel,
+  revealWindowOpensAt
+} from "./teamRepository";
+export { CycleRepository } from "./cycleRepository";
+export { TextKeyCheckRepository } from "./textKeyCheckRepository";
+export type { RolloverResult } from "./cycleRepository";
+
+export function createTeamRepository(): TeamRepository {
+  return new TeamRepository(getBatchedPlatformReadOnly, getOkrPlatformWithSigner, config.deployBlock);
+}
+
+export function createTextKeyCheckRepository(): TextKeyCheckRepository {
+  return new TextKeyCheckRepository(getBatchedPlatformReadOnly, getOkrPlatformWithSigner);
+}
+
+export function createCycleRepository(okrs: OKRRepository): CycleRepository {
+  return new CycleRepository(getBatchedReadOnly, getContractWithSigner, okrs);
+}
+
+function platformCache(): LocalOKRCache {
+  return new LocalOKRCache(`${config.chainId}_${config.okrPlatformAddress.toLowerCase()}`);
+}
+
+export type OKRBackend = "keyValue" | "fhe" | "memory";
+
+export function createOKRRepository(backend: OKRBackend = "keyValue"): OKRRepository {
+  switch (backend) {
+    case "memory":
+      return new MemoryOKRRepository();
+    case "fhe":
+      return new FheOKRRepository(
+        getBatchedPlatformReadOnly,
+        getOkrPlatformWithSigner,
+        platformCache(),
+        createTeamRepository(),
+        config.deployBlock
+      );
+    case "keyValue":
+    default:
+      return new KeyValueOKRRepository(
+        getBatchedReadOnly,
+        getContractWithSigner,
+        new FheOKRRepository(
+          getBatchedPlatformReadOnly,
+          getOkrPlatformWithSigner,
+          platformCache(),
+          createTeamRepository(),
+          config.deployBlock
+        ),
+        new LocalOKRCache(`${config.chainId}_${config.contractAddress.toLowerCase()}`),
+        new DataStoredIndex(
+          `privacyokr_index_${config.chainId}_${config.contractAddress.toLowerCase()}`,
+          config.deployBlock
+        )
+      );
+  }
+}
@@ -0,0 +1,427 @@
+// repository/keyValueRepository.ts
+import { ethers } from "ethers";
+import type { UniversalAdapter } from "../../../../types";
+import type { AdapterBatcher } from "../batchReader";
+import { normalizeKeyResults, objectiveProgress } from "../keyResults";
+import type { LocalOKRCache } from "../localOKRCache";
+import { assertTransition, withStatusChange } from "../okrLifecycle";
+import { clampPriority } from "../priority";
+import { revealOKRText, sealOKRText, textOf, withoutText } from "../textCrypto";
+import { DataStoredIndex, KeyValueSource, namespaceOf } from "./dataStoredIndex";
+import { CheckIn, OKRDraft, OKRPatch, OKRRepository, OKRUpdate, PersonalOKR, TeamOKR } from "./types";
+
+type AdapterReader = () => Promise<AdapterBatcher | null>;
+type AdapterWriter = () => Promise<UniversalAdapter>;
+
+// Storage layout in UniversalAdapter, inside the namespace of the account that writes the keys
+export const okrKey = (id: string) => `okr_${id}`;
+export const okrIndexKey = (owner: string) => `okr_keys_${owner}`;
+export const cycleListKey = (owner: string) => `cycles_${owner}`;
+
+// Writes always land in the namespace of the connected wallet
+export const writerOf = (contract: UniversalAdapter) => (contract.runner as ethers.Signer).getAddress();
+
+export async function readJSON<T>(source: KeyValueSource, key: string): Promise<T | null> {
+  const bytes = await source.getData(key);
+  if (bytes.length === 0 || bytes === "0x") return null;
+  try {
+    return JSON.parse(ethers.toUtf8String(bytes)) as T;
+  } catch (e) {
+    console.error(`Error parsing ${key}:`, e);
+    return null;
+  }
+}
+
+// Concurrent writers (other tabs, double submits) make the atomic write revert instead of
+// dropping each other's ids, after which the list is re-read and the append retried.
+const MAX_APPEND_ATTEMPTS = 5;
+
+const isStaleVersion = (e: any) => String(e?.reason ?? e?.message ?? "").includes("Stale version");
+
+interface VersionedWrite {
+  key: string;
+  value: unknown;
+  version: bigint;
+}
+
+// Rewrites a JSON list together with the records it points at, retrying on concurrent changes
+async function rewriteIndex<T = string>(
+  contract: UniversalAdapter,
+  indexKey: string,
+  change: (current: T[]) => T[],
+  records: () => Promise<VersionedWrite[]>
+) {
+  const owner = await writerOf(contract);
+  for (let attempt = 1; ; attempt++) {
+    // version first: if the list changes in between, the stale version makes the write revert
+    const version = await contract.getVersion(owner, indexKey);
+    const current = (await readJSON<T[]>(namespaceOf(contract, owner), indexKey)) || [];
+    const writes = [...(await records()), { key: indexKey, value: change(current), version }];
+
+    try {
+      const tx = await contract.setDataAtomic(
+        writes.map(w => w.key),
+        // null clears the record
+        writes.map(w => (w.value === null ? new Uint8Array() : ethers.toUtf8Bytes(JSON.stringify(w.value)))),
+        writes.map(w => w.version)
+      );
+      await tx.wait();
+      return writes.map(w => w.key);
+    } catch (e) {
+      if (!isStaleVersion(e) || attempt >= MAX_APPEND_ATTEMPTS) throw e;
+      console.warn(`${indexKey} changed concurrently, retrying (${attempt}/${MAX_APPEND_ATTEMPTS})`);
+    }
+  }
+}
+
+// Appends ids to a JSON list in the same transaction as the records they point at
+export function appendToIndex(
+  contract: UniversalAdapter,
+  indexKey: string,
+  ids: string[],
+  records: Record<string, unknown> = {}
+) {
+  return rewriteIndex(
+    contract,
+    indexKey,
+    current => [...current, ...ids.filter(id => !current.includes(id))],
+    // records are new keys, so they must not exist yet either
+    async () => Object.keys(records).map(key => ({ key, value: records[key], version: 0n }))
+  );
+}
+
+// Read-modify-write of a JSON list that is not an index, such as an account's cycles
+export function updateList<T>(contract: UniversalAdapter, key: string, change: (current: T[]) => T[]) {
+  return rewriteIndex<T>(contract, key, change, async () => []);
+}
+
+// Drops ids from a JSON list and clears their records in the same transaction
+export async function removeFromIndex(
+  contract: UniversalAdapter,
+  indexKey: string,
+  ids: string[],
+  recordKeys: string[]
+) {
+  const owner = await writerOf(contract);
+  return rewriteIndex(
+    contract,
+    indexKey,
+    current => current.filter(id => !ids.includes(id)),
+    () =>
+      Promise.all(recordKeys.map(async key => ({ key, value: null, version: await contract.getVersion(owner, key) })))
+  );
+}
+
+// Index and status records in the key-value adapter; ciphertexts go through the encrypted repository.
+export class KeyValueOKRRepository implements OKRRepository {
+  constructor(
+    private readonly getReader: AdapterReader,
+    private readonly getWriter: AdapterWriter,
+    private readonly encrypted: OKRRepository,
+    private readonly cache: LocalOKRCache,
+    private readonly index?: DataStoredIndex
+  ) {}
+
+  private async reader(): Promise<AdapterBatcher | null> {
+    const batch = await this.getReader();
+    if (!batch) return null;
+
+    const isAvailable = await batch.isAvailable();
+    if (!isAvailable) {
+      console.error("Contract is not available");
+      return null;
+    }
+    return batch;
+  }
+
+  // Serves list reads from the DataStored index when it synced, otherwise from batched storage reads
+  private async source(batch: AdapterBatcher, owner: string): Promise<KeyValueSource> {
+    if (this.index && (await this.index.sync(batch.contract))) {
+      return this.index.source(batch, owner);
+    }
+    return namespaceOf(batch, owner);
+  }
+
+  // Reads of a single id look in the connected wallet's namespace, the only one it can write to
+  private async walletSource(batch: AdapterBatcher): Promise<KeyValueSource> {
+    return this.source(batch, await writerOf(await this.getWriter()));
+  }
+
+  // Reads concurrently so the batcher can coalesce them; failed entries are logged and dropped
+  private async readAll<T>(keys: string[], load: (key: string) => Promise<T | null>): Promise<T[]> {
+    const list: T[] = [];
+    await Promise.all(
+      keys.map(async key => {
+        try {
+          const item = await load(key);
+          if (item) list.push(item);
+        } catch (e) {
+          console.error(`Error loading OKR ${key}:`, e);
+        }
+      })
+    );
+    return list;
+  }
+
+  async listPersonal(owner: string): Promise<PersonalOKR[]> {
+    const batch = await this.reader();
+    if (!batch) return [];
+    const source = await this.source(batch, owner);
+
+    const keys = (await readJSON<string[]>(source, okrIndexKey(owner))) || [];
+    const list = await this.readAll(keys, key => this.read(source, key));
+    return list.sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  // Teams live on the platform; the adapter only holds personal records
+  listTeam(member: string): Promise<TeamOKR[]> {
+    return this.encrypted.listTeam(member);
+  }
+
+  // Single reads always hit storage and double as a check of the index
+  async get(id: string): Promise<PersonalOKR | null> {
+    const batch = await this.reader();
+    if (!batch) return null;
+
+    const owner = await writerOf(await this.getWriter());
+    const index = this.index;
+    const source: KeyValueSource = index
+      ? { getData: key => index.verify(batch, owner, key) }
+      : namespaceOf(batch, owner);
+    return this.read(source, id);
+  }
+
+  private async read(source: KeyValueSource, id: string): Promise<PersonalOKR | null> {
+    const data = await readJSON<any>(source, okrKey(id));
+    if (!data) return null;
+
+    // text is sealed in the record; older records carry it on this device or inline
+    const local = this.cache.read(id);
+    const text = await revealOKRText(
+      data.owner,
+      data.sealedText,
+      local?.objective || data.objective,
+      local?.keyResults ?? normalizeKeyResults(data.keyResults)
+    );
+    // the record in the adapter is public, so alignment comes from the encrypted OKR's sealed record
+    // when this device did not create it
+    const aligned = local?.teamId || !data.platformId ? local : await this.encrypted.get(data.platformId);
+    return {
+      id,
+      platformId: data.platformId || "",
+      objective: text.objective,
+      keyResults: text.keyResults,
+      locked: text.locked,
+      progress: local?.progress ?? data.progress ?? 0,
+      priority: local?.priority ?? aligned?.priority,
+      encryptedData: data.encryptedData,
+      timestamp: data.timestamp,
+      owner: data.owner,
+      status: data.status || "active",
+      teamId: aligned?.teamId,
+      objectiveId: aligned?.objectiveId,
+      cycleId: data.cycleId,
+      rolledFrom: data.rolledFrom,
+      rolledInto: data.rolledInto,
+      statusHistory: data.statusHistory
+    };
+  }
+
+  async create(owner: string, draft: OKRDraft): Promise<PersonalOKR> {
+    const encrypted = await this.encrypted.create(owner, draft);
+
+    const contract = await this.getWriter();
+    const id = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+    this.cache.write(id, {
+      ...draft,
+      objective: "",
+      keyResults: withoutText(draft.keyResults),
+      progress: encrypted.progress,
+      priority: encrypted.priority
+    });
+
+    // Only sealed text and the reference to the encrypted record go to the key-value store
+    const record = {
+      platformId: encrypted.platformId,
+      sealedText: await sealOKRText(contract.runner as ethers.Signer, textOf(draft.objective, draft.keyResults)),
+      encryptedData: encrypted.encryptedData,
+      timestamp: encrypted.timestamp,
+      owner,
+      status: "active",
+      cycleId: draft.cycleId,
+      rolledFrom: draft.rolledFrom,
+      statusHistory: withStatusChange(undefined, "active")
+    };
+    const written = await appendToIndex(contract, okrIndexKey(owner), [id], { [okrKey(id)]: record });
+    const writer = await writerOf(contract);
+    written.forEach(key => this.index?.markDirty(writer, key));
+
+    return { ...encrypted, id, statusHistory: record.statusHistory };
+  }
+
+  async update(id: string, patch: OKRUpdate): Promise<PersonalOKR> {
+    const [okr] = await this.updateMany([{ id, patch }]);
+    return okr;
+  }
+
+  // One encrypted batch for all key-result changes, then one atomic write for all record changes
+  async updateMany(updates: OKRPatch[]): Promise<PersonalOKR[]> {
+    const contract = await this.getWriter();
+    const writer = await writerOf(contract);
+    const own = namespaceOf(contract, writer);
+    const loaded = await Promise.all(
+      updates.map(async ({ id, patch }) => {
+        // version first: a concurrent write in between makes the record write revert
+        const version = await contract.getVersion(writer, okrKey(id));
+        const data = await readJSON<any>(own, okrKey(id));
+        if (!data) {
+          throw new Error("OKR not found");
+        }
+        if (patch.status !== undefined) {
+          assertTransition(data.status || "active", patch.status);
+        }
+        return { id, patch, data, version };
+      })
+    );
+
+    const progressUpdates = loaded.filter(({ patch }) => patch.keyResults !== undefined || patch.objective !== undefined);
+    if (progressUpdates.some(({ data }) => !data.platformId)) {
+      throw new Error("This OKR was created before encryption and cannot be updated");
+    }
+
+    // edited text is sealed again; clear text inline in older records is dropped on the way
+    const sealed = new Map<string, string>();
+    for (const { id, patch } of loaded.filter(({ patch }) => patch.objective !== undefined)) {
+      const keyResults = patch.keyResults ?? (await this.read(own, id))?.keyResults ?? [];
+      sealed.set(id, await sealOKRText(contract.runner as ethers.Signer, textOf(patch.objective as string, keyResults)));
+    }
+
+    if (progressUpdates.length > 0) {
+      await this.encrypted.updateMany(
+        progressUpdates.map(({ patch, data }) => ({
+          id: data.platformId,
+          patch: { objective: patch.objective, keyResults: patch.keyResults, priority: patch.priority, checkIn: patch.checkIn }
+        }))
+      );
+      progressUpdates.forEach(({ id, patch }) => {
+        if (patch.objective !== undefined) this.cache.patch(id, { objective: "" });
+        if (patch.priority !== undefined) this.cache.patch(id, { priority: clampPriority(patch.priority) });
+        if (patch.keyResults !== undefined) {
+          this.cache.patch(id, { keyResults: withoutText(patch.keyResults), progress: objectiveProgress(patch.keyResults) });
+        }
+      });
+    }
+
+    const changed = loaded
+      .map(({ id, patch, data, version }) => {
+        const recordPatch: Record<string, unknown> = {};
+        if (patch.status !== undefined && patch.status !== (data.status || "active")) {
+          recordPatch.status = patch.status;
+          recordPatch.statusHistory = withStatusChange(data.statusHistory, patch.status);
+        }
+        if (patch.rolledInto !== undefined) recordPatch.rolledInto = patch.rolledInto;
+        const sealedText = sealed.get(id);
+        if (sealedText) {
+          const { objective: _objective, keyResults: _keyResults, ...rest } = data;
+          return { key: okrKey(id), value: { ...rest, ...recordPatch, sealedText }, version, dirty: true };
+        }
+        return { key: okrKey(id), value: { ...data, ...recordPatch }, version, dirty: Object.keys(recordPatch).length > 0 };
+      })
+      .filter(record => record.dirty);
+    if (changed.length > 0) {
+      const tx = await contract.setDataAtomic(
+        changed.map(record => record.key),
+        changed.map(record => ethers.toUtf8Bytes(JSON.stringify(record.value))),
+        changed.map(record => record.version)
+      );
+      await tx.wait();
+      changed.forEach(record => this.index?.markDirty(writer, record.key));
+    }
+
+    return Promise.all(
+      updates.map(async ({ id }) => {
+        const okr = await this.read(own, id);
+        if (!okr) {
+          throw new Error("OKR not found");
+        }
+        return okr;
+      })
+    );
+  }
+
+  archive(id: string): Promise<PersonalOKR> {
+    return this.update(id, { status: "archived" });
+  }
+
+  // Index and record go in one transaction, so the list never points at a deleted record
+  async delete(id: string): Promise<void> {
+    const contract = await this.getWriter();
+    const writer = await writerOf(contract);
+    const data = await readJSON<any>(namespaceOf(contract, writer), okrKey(id));
+    if (!data) {
+      throw new Error("OKR not found");
+    }
+
+    const written = await removeFromIndex(contract, okrIndexKey(data.owner), [id], [okrKey(id)]);
+    written.forEach(key => this.index?.markDirty(writer, key));
+    this.cache.remove(id);
+
+    if (data.platformId) {
+      await this.encrypted.delete(data.platformId);
+    }
+  }
+
+  // Progress handles in the records are those of creation time, so current ones come from the platform
+  async decryptProgress(okrs: PersonalOKR[], authorize = false): Promise<PersonalOKR[]> {
+    const encrypted = okrs.filter(okr => okr.platformId);
+    const platformOKRs = (await Promise.all(encrypted.map(okr => this.encrypted.get(okr.platformId)))).filter(
+      (okr): okr is PersonalOKR => okr !== null
+    );
+    const decrypted = await this.encrypted.decryptProgress(platformOKRs, authorize);
+
+    return okrs.map(okr => {
+      const match = decrypted.find(d => d.platformId === okr.platformId && d.decrypted);
+      if (!match) return okr;
+      this.cache.patch(okr.id, { progress: match.progress });
+      return { ...okr, progress: match.progress, decrypted: true };
+    });
+  }
+
+  // History lives with the encrypted record; records from before encryption have none
+  async listCheckIns(id: string): Promise<CheckIn[]> {
+    const batch = await this.reader();
+    if (!batch) return [];
+
+    const data = await readJSON<any>(await this.walletSource(batch), okrKey(id));
+    if (!data?.platformId) return [];
+    return this.encrypted.listCheckIns(data.platformId);
+  }
+
+  // Finds okr_* records the owner wrote that their okr_keys list does not reference
+  async repair(owner: string): Promise<string[]> {
+    if (!this.index) {
+      throw new Error("Repair needs the DataStored index");
+    }
+    const contract = await this.getWriter();
+    const own = namespaceOf(contract, owner);
+    const linked = new Set((await readJSON<string[]>(own, okrIndexKey(owner))) || []);
+
+    const candidates = (await this.index.keysWrittenBy(contract, owner))
+      .filter(key => key.startsWith("okr_") && !key.startsWith("okr_keys_"))
+      .map(key => key.substring("okr_".length))
+      .filter(id => !linked.has(id));
+
+    const orphans: string[] = [];
+    for (const id of candidates) {
+      const data = await readJSON<any>(own, okrKey(id));
+      if (data && String(data.owner).toLowerCase() === owner.toLowerCase()) {
+        orphans.push(id);
+      }
+    }
+    if (orphans.length === 0) return [];
+
+    await appendToIndex(contract, okrIndexKey(owner), orphans);
+    this.index.markDirty(owner, okrIndexKey(owner));
+    return orphans;
+  }
+}
@@ -0,0 +1,109 @@
+// repository/memoryRepository.ts
+import { objectiveProgress } from "../keyResults";
+import { assertTransition, withStatusChange } from "../okrLifecycle";
+import { clampPriority } from "../priority";
+import { CheckIn, OKRDraft, OKRPatch, OKRRepository, OKRUpdate, PersonalOKR, TeamOKR } from "./types";
+
+// Process-local store for tests and demos. Nothing is encrypted or persisted.
+export class MemoryOKRRepository implements OKRRepository {
+  private readonly okrs = new Map<string, PersonalOKR>();
+  private readonly checkIns = new Map<string, CheckIn[]>();
+  private nextId = 1;
+
+  constructor(private readonly teamOKRs: TeamOKR[] = []) {}
+
+  async listPersonal(owner: string): Promise<PersonalOKR[]> {
+    return [...this.okrs.values()]
+      .filter(okr => okr.owner.toLowerCase() === owner.toLowerCase())
+      .sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  async listTeam(): Promise<TeamOKR[]> {
+    return [...this.teamOKRs].sort((a, b) => b.lastUpdated - a.lastUpdated);
+  }
+
+  async get(id: string): Promise<PersonalOKR | null> {
+    return this.okrs.get(id) || null;
+  }
+
+  async create(owner: string, draft: OKRDraft): Promise<PersonalOKR> {
+    const id = String(this.nextId++);
+    const okr: PersonalOKR = {
+      id,
+      platformId: "",
+      objective: draft.objective,
+      keyResults: [...draft.keyResults],
+      progress: objectiveProgress(draft.keyResults),
+      priority: clampPriority(draft.priority),
+      encryptedData: "",
+      timestamp: Math.floor(Date.now() / 1000),
+      owner,
+      status: "active",
+      teamId: draft.teamId,
+      objectiveId: draft.objectiveId,
+      cycleId: draft.cycleId,
+      rolledFrom: draft.rolledFrom,
+      statusHistory: withStatusChange(undefined, "active")
+    };
+    this.okrs.set(id, okr);
+    this.checkIns.set(id, [{ timestamp: okr.timestamp, progress: okr.progress }]);
+    return okr;
+  }
+
+  async update(id: string, patch: OKRUpdate): Promise<PersonalOKR> {
+    const okr = this.okrs.get(id);
+    if (!okr) {
+      throw new Error("OKR not found");
+    }
+    const { checkIn, ...fields } = patch;
+    if (fields.status !== undefined) {
+      assertTransition(okr.status, fields.status);
+    }
+    const updated = { ...okr, ...fields };
+    if (fields.status !== undefined && fields.status !== okr.status) {
+      updated.statusHistory = withStatusChange(okr.statusHistory, fields.status);
+    }
+    if (fields.priority !== undefined) {
+      updated.priority = clampPriority(fields.priority);
+    }
+    if (patch.keyResults) {
+      updated.progress = objectiveProgress(patch.keyResults);
+      this.checkIns.set(id, [
+        ...(this.checkIns.get(id) || []),
+        { timestamp: Math.floor(Date.now() / 1000), progress: updated.progress, ...checkIn }
+      ]);
+    }
+    this.okrs.set(id, updated);
+    return updated;
+  }
+
+  async updateMany(updates: OKRPatch[]): Promise<PersonalOKR[]> {
+    const list: PersonalOKR[] = [];
+    for (const { id, patch } of updates) {
+      list.push(await this.update(id, patch));
+    }
+    return list;
+  }
+
+  archive(id: string): Promise<PersonalOKR> {
+    return this.update(id, { status: "archived" });
+  }
+
+  async delete(id: string): Promise<void> {
+    this.okrs.delete(id);
+    this.checkIns.delete(id);
+  }
+
+  async listCheckIns(id: string): Promise<CheckIn[]> {
+    return [...(this.checkIns.get(id) || [])];
+  }
+
+  // Nothing is encrypted here
+  async decryptProgress(okrs: PersonalOKR[]): Promise<PersonalOKR[]> {
+    return okrs;
+  }
+
+  async repair(): Promise<string[]> {
+    return [];
+  }
+}
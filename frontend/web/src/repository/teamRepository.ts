@@ -0,0 +1,487 @@
+// repository/teamRepository.ts
+import { ethers } from "ethers";
+import type { EncryptedOKRPlatformFHE } from "../../../../types";
+import type { ContractBatcher } from "../batchReader";
+import { LOCKED_TEXT, newSharedKey, openHeldKey, openShared, sealHeldKey, sealShared, unlockTextKey } from "../textCrypto";
+import { queryBlockRanges } from "./dataStoredIndex";
+import { AggregateReveal, Objective, PrivacyBudget, Team, TeamDistribution } from "./types";
+
+type PlatformReader = () => Promise<ContractBatcher<EncryptedOKRPlatformFHE> | null>;
+type PlatformWriter = () => Promise<EncryptedOKRPlatformFHE>;
+
+// Matches EncryptedOKRPlatformFHE.inviteHashFor
+export const inviteHashFor = (code: string, member: string) =>
+  ethers.solidityPackedKeccak256(["bytes32", "address"], [code, member]);
+
+// Everything a joiner needs, handed over off-chain: the team id, the single-use code (zero for
+// allowlisted members) and the team key names and titles are sealed with
+export const inviteToken = (teamId: string, code: string, teamKey: string) => [teamId, code, teamKey].join(".");
+
+export function parseInviteToken(token: string): { teamId: string; code: string; teamKey: string } {
+  const [teamId, code, teamKey] = token.trim().split(".");
+  if (!ethers.isHexString(teamId, 32) || !ethers.isHexString(code, 32) || !isSharedKey(teamKey)) {
+    throw new Error("Invalid invite token");
+  }
+  return { teamId, code, teamKey };
+}
+
+function isSharedKey(key: string | undefined): key is string {
+  try {
+    return !!key && ethers.decodeBase64(key).length === 32;
+  } catch {
+    return false;
+  }
+}
+
+const openOrLocked = async (key: string | null, sealed: string) => (key && (await openShared(key, sealed))) || LOCKED_TEXT;
+
+// Matches EncryptedOKRPlatformFHE.objectiveAggregateKey
+export const objectiveAggregateKey = (objectiveId: string) =>
+  ethers.solidityPackedKeccak256(["string", "uint256"], ["objective", objectiveId]);
+
+export type RevealState = Pick<
+  Team,
+  "reveal" | "revealPending" | "contributors" | "minContributors" | "changedContributors" | "nextRevealAt"
+>;
+
+// True when the last computed aggregate is below the team's threshold; unknown until one is computed
+export const lacksContributors = (state: RevealState) =>
+  state.contributors !== undefined && state.minContributors !== undefined && state.contributors < state.minContributors;
+
+// Start of the next reveal window while it is still closed, otherwise zero
+export const revealWindowOpensAt = (state: RevealState, now = Date.now() / 1000) =>
+  state.nextRevealAt && state.nextRevealAt > now ? state.nextRevealAt : 0;
+
+// Noisy reveals add scale * (G1 - G2) for two geometric(1/2) draws, so
+// P(|noise| > k * scale) = 2/3 * 2^-k. Returns the smallest such band at the given confidence.
+export const NOISE_CONFIDENCE = 0.95;
+export function noiseMargin(scale: number, confidence = NOISE_CONFIDENCE): number {
+  if (!scale) return 0;
+  let steps = 0;
+  while ((2 / 3) * Math.pow(2, -steps) > 1 - confidence) steps++;
+  return steps * scale;
+}
+
+export const revealLabel = (reveal: AggregateReveal) =>
+  reveal.margin > 0 ? `≈${reveal.progress}% ±${reveal.margin}` : `${reveal.progress}%`;
+
+// Aggregates sum progress times priority next to the priority total
+const weightedAverage = (value: number, weightTotal: number) => (weightTotal > 0 ? Math.round(value / weightTotal) : 0);
+
+export const DISTRIBUTION_BUCKETS = ["0–25%", "25–50%", "50–75%", "75–100%"];
+
+// the contract keeps epsilon in thousandths
+const EPSILON_UNIT = 1000;
+
+const REVEAL_POLL_MS = 4000;
+
+// Teams in EncryptedOKRPlatformFHE. The contract only answers membership for the caller,
+// so listing needs a connected wallet. Events are scanned from `startBlock`, the deployment.
+// Team names and objective titles are sealed with shared keys; without one they read as locked.
+export class TeamRepository {
+  // shared keys opened this session by team id; the zero id holds the company key
+  private readonly sharedKeys = new Map<string, string>();
+
+  constructor(
+    private readonly getReader: PlatformReader,
+    private readonly getWriter: PlatformWriter,
+    private readonly startBlock = 0
+  ) {}
+
+  // The caller's copy of a team key, read through the wallet since heldKey answers for msg.sender.
+  // Null without a wallet, outside the team or while the text key is locked, unless `unlock` asks
+  // the wallet for it.
+  private async teamKey(teamId: string, unlock = false): Promise<string | null> {
+    const cached = this.sharedKeys.get(teamId);
+    if (cached) return cached;
+    if (!(window as any).ethereum) return null;
+
+    const platform = await this.getWriter();
+    const signer = platform.runner as ethers.Signer;
+    const sealed = await platform.heldKey(teamId);
+    if (!sealed) return null;
+    if (unlock) await unlockTextKey(signer);
+    const key = await openHeldKey(await signer.getAddress(), sealed);
+    if (key) this.sharedKeys.set(teamId, key);
+    return key;
+  }
+
+  private async requireTeamKey(teamId: string): Promise<string> {
+    const key = await this.teamKey(teamId, true);
+    if (!key) {
+      throw new Error("This wallet holds no key for the team");
+    }
+    return key;
+  }
+
+  // The company admin holds the company key itself; members get it through a team it was shared with
+  private async companyKey(teamIds: string[]): Promise<string | null> {
+    const own = await this.teamKey(ethers.ZeroHash);
+    if (own) return own;
+    const batch = await this.getReader();
+    if (!batch) return null;
+
+    for (const teamId of teamIds) {
+      const sealed = await batch.read("teamCompanyKeys", teamId);
+      const teamKey = sealed ? await this.teamKey(teamId) : null;
+      const key = teamKey ? await openShared(teamKey, sealed) : null;
+      if (key) {
+        this.sharedKeys.set(ethers.ZeroHash, key);
+        return key;
+      }
+    }
+    return null;
+  }
+
+  // Created by the company admin along with the first company objective. A copy that no longer opens
+  // is never replaced, since the titles sealed under it would be lost.
+  private async ensureCompanyKey(): Promise<string> {
+    const existing = await this.teamKey(ethers.ZeroHash, true);
+    if (existing) return existing;
+
+    const platform = await this.getWriter();
+    const signer = platform.runner as ethers.Signer;
+    if (await platform.heldKey(ethers.ZeroHash)) {
+      throw new Error("The company key on chain does not open with this wallet");
+    }
+    const key = newSharedKey();
+    await (await platform.setHeldKey(ethers.ZeroHash, await sealHeldKey(signer, key))).wait();
+    this.sharedKeys.set(ethers.ZeroHash, key);
+    return key;
+  }
+
+  // The company admin hands this to team admins, who pass it on with shareCompanyKey
+  exportCompanyKey(): Promise<string> {
+    return this.ensureCompanyKey();
+  }
+
+  // Seals the company key with the team key so every member can read company objective titles
+  async shareCompanyKey(teamId: string, companyKey: string): Promise<void> {
+    const key = companyKey.trim();
+    if (!isSharedKey(key)) {
+      throw new Error("Invalid company key");
+    }
+    const teamKey = await this.requireTeamKey(teamId);
+    const platform = await this.getWriter();
+    await (await platform.shareCompanyKey(teamId, await sealShared(teamKey, key))).wait();
+  }
+
+  async listMine(): Promise<Team[]> {
+    const batch = await this.getReader();
+    const provider = batch?.contract.runner?.provider;
+    if (!batch || !provider || !(window as any).ethereum) return [];
+
+    const reader = batch.contract;
+    const platform = await this.getWriter();
+    const created = await queryBlockRanges(provider, this.startBlock, (from, to) =>
+      reader.queryFilter(reader.filters.TeamCreated(), from, to)
+    );
+    const ids = created.map(event => event.args.teamId);
+    // isMemberOf answers for msg.sender, which Multicall3 would replace, so it goes through the wallet
+    const membership = await Promise.all(ids.map(id => platform.isMemberOf(id)));
+    const teams = await Promise.all(ids.filter((_, i) => membership[i]).map(id => this.get(id)));
+    return teams.filter((team): team is Team => team !== null).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async get(id: string): Promise<Team | null> {
+    const batch = await this.getReader();
+    if (!batch) return null;
+
+    const [team, privacy, distribution, reveal, teamKey] = await Promise.all([
+      batch.read("teams", id),
+      this.privacyOf(id),
+      this.distributionOf(id),
+      this.revealOf(id, id),
+      this.teamKey(id)
+    ]);
+    if (team.admin === ethers.ZeroAddress) return null;
+    return {
+      id,
+      name: await openOrLocked(teamKey, team.sealedName),
+      admin: team.admin,
+      memberCount: Number(team.memberCount),
+      createdAt: Number(team.createdAt),
+      privacy,
+      distribution,
+      ...reveal
+    };
+  }
+
+  async privacyOf(teamId: string): Promise<PrivacyBudget | undefined> {
+    const batch = await this.getReader();
+    if (!batch) return undefined;
+
+    const budget = await batch.read("privacyBudgets", teamId);
+    if (budget.epsilonPerReveal === 0n) return undefined;
+    return {
+      epsilonPerReveal: Number(budget.epsilonPerReveal) / EPSILON_UNIT,
+      totalEpsilon: Number(budget.totalEpsilon) / EPSILON_UNIT,
+      spentEpsilon: Number(budget.spentEpsilon) / EPSILON_UNIT
+    };
+  }
+
+  // Turning noise on cannot be undone and the first total is a cap; later calls retune the
+  // per-reveal epsilon or lower the total. The zero team id holds the company objectives' budget.
+  async configurePrivacy(teamId: string, epsilonPerReveal: number, totalEpsilon: number): Promise<void> {
+    const platform = await this.getWriter();
+    const tx = await platform.configurePrivacyBudget(
+      teamId,
+      Math.round(epsilonPerReveal * EPSILON_UNIT),
+      Math.round(totalEpsilon * EPSILON_UNIT)
+    );
+    await tx.wait();
+  }
+
+  // Last value the decryption oracle verified for an aggregate key, next to the contributor
+  // threshold of the team it belongs to. Team aggregates use the team id as key.
+  async revealOf(key: string, teamId: string): Promise<RevealState> {
+    const batch = await this.getReader();
+    if (!batch) return {};
+
+    const [revealed, revealPending, aggregate, minContributors, nextRevealAt] = await Promise.all([
+      batch.read("revealedAggregates", key),
+      batch.read("decryptionPending", key),
+      batch.read("teamAggregates", key),
+      batch.read("minContributors", teamId),
+      batch.read("nextRevealAt", key)
+    ]);
+    const computed = aggregate.lastUpdated !== 0n;
+    const threshold: RevealState = {
+      revealPending,
+      contributors: computed ? Number(aggregate.distinctContributors) : undefined,
+      minContributors: Number(minContributors),
+      changedContributors: computed ? Number(aggregate.changedContributors) : undefined,
+      nextRevealAt: Number(nextRevealAt)
+    };
+    if (revealed.revealedAt === 0n) return threshold;
+
+    const contributors = Number(revealed.contributors);
+    const reveal: AggregateReveal = {
+      progress: weightedAverage(Number(revealed.clearSum), Number(revealed.weightTotal)),
+      contributors,
+      computedAt: Number(revealed.computedAt),
+      revealedAt: Number(revealed.revealedAt),
+      margin: weightedAverage(noiseMargin(Number(revealed.noiseScale)), Number(revealed.weightTotal))
+    };
+    return { ...threshold, reveal };
+  }
+
+  // Bucket counts from the last team reveal. The contract counts members below each bound and
+  // reveals the total exactly, so a bucket is the difference of two counts; with noise that can
+  // dip below zero and is clamped.
+  async distributionOf(teamId: string): Promise<TeamDistribution | undefined> {
+    const batch = await this.getReader();
+    if (!batch) return undefined;
+
+    const [revealed, aggregate] = await Promise.all([
+      batch.read("revealedDistributions", teamId),
+      batch.read("revealedAggregates", teamId)
+    ]);
+    if (revealed.revealedAt === 0n) return undefined;
+
+    const count = Number(revealed.count);
+    const below = [0, Number(revealed.below25), Number(revealed.below50), Number(revealed.below75), count];
+    return {
+      buckets: DISTRIBUTION_BUCKETS.map((_, i) => Math.max(0, below[i + 1] - below[i])),
+      count,
+      average: weightedAverage(Number(aggregate.clearSum), Number(aggregate.weightTotal)),
+      margin: noiseMargin(Number(revealed.noiseScale)),
+      revealedAt: Number(revealed.revealedAt)
+    };
+  }
+
+  // Members whose latest team OKR has a check-in at or after `since`, in seconds
+  async checkedInSince(teamId: string, since: number): Promise<number> {
+    const batch = await this.getReader();
+    if (!batch) return 0;
+    return Number(await batch.read("checkedInSince", teamId, Math.floor(since)));
+  }
+
+  // Both reveals recompute the sum first so the oracle decrypts current progress. They resolve
+  // once the request is mined; the clear value arrives later with the oracle's callback.
+  async revealTeam(teamId: string): Promise<void> {
+    const platform = await this.getWriter();
+    await this.assertRevealOpen(teamId, teamId);
+    await (await platform.recomputeTeamAggregate(teamId)).wait();
+    await this.assertEnoughContributors(teamId, teamId);
+    await (await platform.requestTeamAggregateDecryption(teamId)).wait();
+  }
+
+  // Company objectives are revealed through one of the member's teams aligned under them. Objective
+  // sums overlap team sums, so the contract only reveals them with noise from a privacy budget.
+  async revealObjective(objectiveId: string, viaTeamId: string): Promise<void> {
+    const platform = await this.getWriter();
+    const key = objectiveAggregateKey(objectiveId);
+    const objective = await platform.objectives(objectiveId);
+    if (!(await this.privacyOf(objective.teamId))) {
+      throw new Error(
+        objective.teamId === ethers.ZeroHash
+          ? "Company objectives are revealed only after the company admin adds a privacy budget"
+          : "Objectives are revealed only after the team admin adds a privacy budget"
+      );
+    }
+    await this.assertRevealOpen(key, objective.teamId);
+    await (await platform.recomputeObjectiveAggregate(objectiveId)).wait();
+    await this.assertEnoughContributors(key, objective.teamId);
+    await (await platform.requestObjectiveAggregateDecryption(objectiveId, viaTeamId)).wait();
+  }
+
+  // The contract would revert too; checking first saves the user failing transactions
+  private async assertRevealOpen(key: string, teamId: string) {
+    const opensAt = revealWindowOpensAt(await this.revealOf(key, teamId));
+    if (opensAt) {
+      throw new Error(`The next reveal window opens ${new Date(opensAt * 1000).toLocaleString()}`);
+    }
+    const privacy = await this.privacyOf(teamId);
+    if (privacy && privacy.spentEpsilon + privacy.epsilonPerReveal > privacy.totalEpsilon) {
+      throw new Error("The team's privacy budget is spent");
+    }
+  }
+
+  // Checked on the freshly recomputed aggregate
+  private async assertEnoughContributors(key: string, teamId: string) {
+    const state = await this.revealOf(key, teamId);
+    if (lacksContributors(state)) {
+      throw new Error(`Not enough contributors yet (${state.contributors} of ${state.minContributors})`);
+    }
+    const changed = state.changedContributors ?? 0;
+    const minimum = state.minContributors ?? 0;
+    if (changed < minimum) {
+      throw new Error(`Not enough contributors changed since the last reveal (${changed} of ${minimum})`);
+    }
+  }
+
+  async setMinContributors(teamId: string, minimum: number): Promise<void> {
+    const platform = await this.getWriter();
+    const tx = await platform.setMinContributors(teamId, minimum);
+    await tx.wait();
+  }
+
+  // Resolves with the stored value once no request is pending, or null when the oracle is slower
+  async waitForReveal(key: string, teamId: string, timeoutMs = 120_000): Promise<AggregateReveal | null> {
+    const deadline = Date.now() + timeoutMs;
+    while (Date.now() < deadline) {
+      const state = await this.revealOf(key, teamId);
+      if (!state.revealPending) return state.reveal ?? null;
+      await new Promise(resolve => setTimeout(resolve, REVEAL_POLL_MS));
+    }
+    return null;
+  }
+
+  // The id is random, so nothing about the name can be guessed from it
+  async create(name: string): Promise<Team> {
+    const platform = await this.getWriter();
+    const teamId = ethers.hexlify(ethers.randomBytes(32));
+    const teamKey = newSharedKey();
+    const tx = await platform.createTeam(
+      teamId,
+      await sealShared(teamKey, name.trim()),
+      await sealHeldKey(platform.runner as ethers.Signer, teamKey)
+    );
+    await tx.wait();
+    this.sharedKeys.set(teamId, teamKey);
+
+    const team = await this.get(teamId);
+    if (!team) {
+      throw new Error("Team not found after creation");
+    }
+    return team;
+  }
+
+  async companyAdmin(): Promise<string> {
+    const batch = await this.getReader();
+    return batch ? batch.read("companyAdmin") : ethers.ZeroAddress;
+  }
+
+  // Company and team objectives, titled for whoever holds the key; alignments only as counts
+  async listObjectives(): Promise<Objective[]> {
+    const batch = await this.getReader();
+    const provider = batch?.contract.runner?.provider;
+    if (!batch || !provider) return [];
+
+    const reader = batch.contract;
+    const created = await queryBlockRanges(provider, this.startBlock, (from, to) =>
+      reader.queryFilter(reader.filters.ObjectiveCreated(), from, to)
+    );
+    const loaded = await Promise.all(
+      created.map(async event => {
+        const [[childObjectiveCount, alignedCount], objective] = await Promise.all([
+          batch.read("getObjectiveChildCounts", event.args.id),
+          batch.read("objectives", event.args.id)
+        ]);
+        return { id: event.args.id, childObjectiveCount, alignedCount, objective };
+      })
+    );
+
+    const teamIds = [...new Set(loaded.map(({ objective }) => objective.teamId))].filter(id => id !== ethers.ZeroHash);
+    const [teams, teamKeys, companyKey] = await Promise.all([
+      Promise.all(teamIds.map(id => batch.read("teams", id))),
+      Promise.all(teamIds.map(id => this.teamKey(id))),
+      this.companyKey(teamIds)
+    ]);
+    const keys = new Map<string, string | null>([[ethers.ZeroHash, companyKey]]);
+    const teamNames = new Map<string, string>([[ethers.ZeroHash, ""]]);
+    await Promise.all(
+      teamIds.map(async (id, i) => {
+        keys.set(id, teamKeys[i]);
+        teamNames.set(id, await openOrLocked(teamKeys[i], teams[i].sealedName));
+      })
+    );
+
+    const titles = await Promise.all(
+      loaded.map(({ objective }) => openOrLocked(keys.get(objective.teamId) ?? null, objective.sealedTitle))
+    );
+    return loaded.map(({ id, childObjectiveCount, alignedCount, objective }, i) => ({
+      id: id.toString(),
+      title: titles[i],
+      teamId: objective.teamId,
+      teamName: teamNames.get(objective.teamId) || "",
+      parentId: objective.parentId.toString(),
+      createdAt: Number(objective.createdAt),
+      childObjectiveCount: Number(childObjectiveCount),
+      alignedCount: Number(alignedCount)
+    }));
+  }
+
+  // Company objectives take the zero team id and no parent; their titles are sealed with the company key
+  async createObjective(title: string, teamId: string, parentId = "0"): Promise<void> {
+    const key = teamId === ethers.ZeroHash ? await this.ensureCompanyKey() : await this.requireTeamKey(teamId);
+    const platform = await this.getWriter();
+    const tx = await platform.createObjective(await sealShared(key, title.trim()), teamId, parentId);
+    await tx.wait();
+  }
+
+  // The returned token is the only copy and works for `member` alone; only the code's hash is stored on chain
+  async createInvite(teamId: string, member: string): Promise<string> {
+    const teamKey = await this.requireTeamKey(teamId);
+    const platform = await this.getWriter();
+    const code = ethers.hexlify(ethers.randomBytes(32));
+    const tx = await platform.addInvite(teamId, inviteHashFor(code, ethers.getAddress(member)));
+    await tx.wait();
+    return inviteToken(teamId, code, teamKey);
+  }
+
+  // Allowlisted members still need the team key, so they get a token without a code
+  async allow(teamId: string, member: string): Promise<string> {
+    const teamKey = await this.requireTeamKey(teamId);
+    const platform = await this.getWriter();
+    const tx = await platform.allowMember(teamId, ethers.getAddress(member));
+    await tx.wait();
+    return inviteToken(teamId, ethers.ZeroHash, teamKey);
+  }
+
+  // The team key from the token is kept on chain sealed to the joiner
+  async join(token: string): Promise<Team> {
+    const { teamId, code, teamKey } = parseInviteToken(token);
+    const platform = await this.getWriter();
+    const tx = await platform.joinTeam(teamId, code, await sealHeldKey(platform.runner as ethers.Signer, teamKey));
+    await tx.wait();
+    this.sharedKeys.set(teamId, teamKey);
+
+    const team = await this.get(teamId);
+    if (!team) {
+      throw new Error("Team not found");
+    }
+    return team;
+  }
+}
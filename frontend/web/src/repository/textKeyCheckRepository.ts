@@ -0,0 +1,34 @@
+// repository/textKeyCheckRepository.ts
+import { ethers } from "ethers";
+import type { EncryptedOKRPlatformFHE } from "../../../../types";
+import type { ContractBatcher } from "../batchReader";
+import { KeyCheckStore, localKeyChecks } from "../textCrypto";
+
+type PlatformReader = () => Promise<ContractBatcher<EncryptedOKRPlatformFHE> | null>;
+type PlatformWriter = () => Promise<EncryptedOKRPlatformFHE>;
+
+// Text key checks kept on the platform contract, so every device compares against the same value.
+// Profiles without a platform keep them in this browser only.
+export class TextKeyCheckRepository implements KeyCheckStore {
+  constructor(
+    private readonly getReader: PlatformReader,
+    private readonly getWriter: PlatformWriter
+  ) {}
+
+  async read(account: string): Promise<string | null> {
+    const platform = await this.getReader();
+    if (!platform) return localKeyChecks.read(account);
+    const check = await platform.read("textKeyChecks", account);
+    return check === ethers.ZeroHash ? null : check;
+  }
+
+  // A declined transaction leaves the check unrecorded; the next unlock offers it again
+  async write(signer: ethers.Signer, check: string): Promise<void> {
+    if (!(await this.getReader())) return localKeyChecks.write(signer, check);
+    try {
+      await (await (await this.getWriter()).setTextKeyCheck(check)).wait();
+    } catch (e) {
+      console.warn("Text key check not recorded:", e);
+    }
+  }
+}
@@ -0,0 +1,199 @@
+// repository/types.ts
+
+export type OKRStatus = "active" | "completed" | "archived";
+
+export type KeyResultMetric = "number" | "percentage" | "boolean" | "milestone";
+
+// Measurable key result. Boolean results run from 0 to 1; milestones count reached milestones.
+export interface KeyResult {
+  title: string;
+  metric: KeyResultMetric;
+  start: number;
+  target: number;
+  current: number;
+  unit: string;
+  weight: number;
+}
+
+export interface StatusChange {
+  status: OKRStatus;
+  timestamp: number;
+}
+
+export interface PersonalOKR {
+  id: string;
+  platformId: string;
+  objective: string;
+  keyResults: KeyResult[];
+  // derived from keyResults, 0-100
+  progress: number;
+  // 1-3, the OKR's weight in aggregates; in clear only where its owner can read it
+  priority?: number;
+  encryptedData: string;
+  timestamp: number;
+  owner: string;
+  status: OKRStatus;
+  // alignment the OKR was submitted with; unset for personal OKRs
+  teamId?: string;
+  objectiveId?: string;
+  cycleId?: string;
+  // set when an unfinished OKR was carried over at cycle close-out
+  rolledFrom?: string;
+  rolledInto?: string;
+  // every status the OKR moved through, oldest first
+  statusHistory?: StatusChange[];
+  // text is sealed and the owner's key is not unlocked in this session
+  locked?: boolean;
+  // progress was decrypted from EncryptedOKRPlatformFHE rather than read from this device
+  decrypted?: boolean;
+}
+
+// One progress update on an OKR, oldest first. The chain keeps the timestamp with encrypted
+// progress and confidence and the note sealed to the owner; the clear values stay on this device.
+export interface CheckIn {
+  timestamp: number;
+  // 0-100; null when the clear value is not on this device
+  progress: number | null;
+  // 1-10, unset when none was given
+  confidence?: number;
+  note?: string;
+}
+
+// Planning period, usually a calendar quarter. Times are unix seconds, end inclusive.
+export interface Cycle {
+  id: string;
+  name: string;
+  start: number;
+  end: number;
+  closedAt?: number;
+}
+
+// Aggregate sum the decryption oracle verified, as an average over the OKRs it covered weighted by priority
+export interface AggregateReveal {
+  progress: number;
+  contributors: number;
+  // when the encrypted sum was computed, and when its clear value came back
+  computedAt: number;
+  revealedAt: number;
+  // half-width of the confidence band around a noisy average; zero for exact sums
+  margin: number;
+}
+
+// Member counts revealed with a team sum, per progress bucket: 0-25, 25-50, 50-75 and 75-100 percent
+export interface TeamDistribution {
+  buckets: number[];
+  // exact: the contributor count is public
+  count: number;
+  // priority-weighted average progress of the same reveal
+  average: number;
+  // half-width of the confidence band around each bucket count; zero for exact counts
+  margin: number;
+  revealedAt: number;
+}
+
+// Opt-in noise of a team's reveals, in epsilon
+export interface PrivacyBudget {
+  epsilonPerReveal: number;
+  totalEpsilon: number;
+  spentEpsilon: number;
+}
+
+export interface TeamOKR {
+  id: string;
+  objective: string;
+  aggregatedProgress: number;
+  lastUpdated: number;
+  memberCount?: number;
+  teamId?: string;
+  // company objective this team objective rolls up to
+  parentId?: string;
+  // number of personal OKRs aligned under it; never who they belong to
+  alignedCount?: number;
+  reveal?: AggregateReveal;
+  // a decryption request is waiting for the oracle
+  revealPending?: boolean;
+  // distinct contributors in the last computed aggregate, and how many a reveal needs
+  contributors?: number;
+  minContributors?: number;
+  // people whose part changed since the last reveal; another reveal needs minContributors of them
+  changedContributors?: number;
+  // start of the next reveal window, in seconds; zero before the first reveal
+  nextRevealAt?: number;
+}
+
+export interface Team {
+  id: string;
+  name: string;
+  admin: string;
+  memberCount: number;
+  createdAt: number;
+  reveal?: AggregateReveal;
+  revealPending?: boolean;
+  contributors?: number;
+  minContributors?: number;
+  changedContributors?: number;
+  nextRevealAt?: number;
+  // set once the team has opted into noisy reveals
+  privacy?: PrivacyBudget;
+  distribution?: TeamDistribution;
+}
+
+// Shared objective; company level when teamId is the zero hash
+export interface Objective {
+  id: string;
+  title: string;
+  teamId: string;
+  teamName: string;
+  parentId: string;
+  createdAt: number;
+  childObjectiveCount: number;
+  alignedCount: number;
+}
+
+export interface OKRDraft {
+  objective: string;
+  keyResults: KeyResult[];
+  priority?: number;
+  // bytes32 team id; personal OKRs leave it unset
+  teamId?: string;
+  // team objective this OKR aligns to, within teamId
+  objectiveId?: string;
+  cycleId?: string;
+  rolledFrom?: string;
+}
+
+export interface OKRUpdate {
+  objective?: string;
+  keyResults?: KeyResult[];
+  // goes out with an objective edit
+  priority?: number;
+  // attached to the check-in recorded for a keyResults change
+  checkIn?: { note?: string; confidence?: number };
+  status?: OKRStatus;
+  rolledInto?: string;
+}
+
+export interface OKRPatch {
+  id: string;
+  patch: OKRUpdate;
+}
+
+// Storage-agnostic access to OKRs. Implementations own the storage layout.
+export interface OKRRepository {
+  listPersonal(owner: string): Promise<PersonalOKR[]>;
+  listTeam(member: string): Promise<TeamOKR[]>;
+  get(id: string): Promise<PersonalOKR | null>;
+  create(owner: string, draft: OKRDraft): Promise<PersonalOKR>;
+  update(id: string, patch: OKRUpdate): Promise<PersonalOKR>;
+  // Applies several updates in as few transactions as the storage allows
+  updateMany(updates: OKRPatch[]): Promise<PersonalOKR[]>;
+  archive(id: string): Promise<PersonalOKR>;
+  // Removes the OKR and its history, and drops it from the owner's list
+  delete(id: string): Promise<void>;
+  listCheckIns(id: string): Promise<CheckIn[]>;
+  // Replaces progress with the owner's values decrypted from the contract. Uses the cached
+  // decryption session; with `authorize` the wallet is asked to sign a new one when needed.
+  decryptProgress(okrs: PersonalOKR[], authorize?: boolean): Promise<PersonalOKR[]>;
+  // Re-links records the owner's list lost track of; resolves to the ids it restored
+  repair(owner: string): Promise<string[]>;
+}
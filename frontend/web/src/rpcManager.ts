@@ -0,0 +1,252 @@
+// rpcManager.ts
+// One long-lived read provider for the active network. Each JSON-RPC request goes to the healthiest
+// endpoint of the profile and fails over to the next one; endpoints that keep failing get an open
+// circuit and are left alone until a background probe finds them answering again.
+import { ethers } from "ethers";
+import { activeNetwork, activeNetworkName, NetworkProfile, rpcEndpoints } from "./network";
+
+// an endpoint slower than this counts as failed for the request
+const REQUEST_TIMEOUT_MS = 10000;
+// consecutive failures that open a circuit
+const FAILURE_THRESHOLD = 3;
+// how long a circuit stays open; doubled after every failed probe
+const BASE_COOLDOWN_MS = 30000;
+const MAX_COOLDOWN_MS = 5 * 60000;
+// weight of the newest sample in the latency and error-rate averages
+const SMOOTHING = 0.3;
+// ranks endpoints nobody has timed yet behind any that answered reasonably fast
+const UNMEASURED_LATENCY_MS = 1000;
+// JSON-RPC "limit exceeded": the endpoint is throttling, the call itself was fine
+const RATE_LIMITED = -32005;
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface EndpointHealth {
+  label: string;
+  circuit: CircuitState;
+  // smoothed round trip; null until the endpoint has answered once
+  latencyMs: number | null;
+  // smoothed share of failed requests, 0-1
+  errorRate: number;
+  requests: number;
+  failures: number;
+  lastError?: string;
+  // ms timestamp after which an open circuit gets probed
+  retryAt?: number;
+}
+
+export interface RpcDiagnostics {
+  network: string;
+  // label of the endpoint that answered last
+  active: string | null;
+  endpoints: EndpointHealth[];
+  // rpcUrls left out because their key is not configured
+  unconfigured: number;
+}
+
+const withTimeout = <T>(promise: Promise<T>, ms: number): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`RPC timeout after ${ms}ms`)), ms);
+    promise.then(
+      value => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      error => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    );
+  });
+
+class Endpoint {
+  readonly provider: ethers.JsonRpcProvider;
+  latencyMs: number | null = null;
+  errorRate = 0;
+  requests = 0;
+  failures = 0;
+  consecutiveFailures = 0;
+  lastError?: string;
+  // 0 while the circuit is closed
+  openUntil = 0;
+  cooldownMs = BASE_COOLDOWN_MS;
+  probing = false;
+
+  constructor(readonly url: string, readonly label: string, network: ethers.Network) {
+    this.provider = new ethers.JsonRpcProvider(url, network, { staticNetwork: network });
+  }
+
+  circuit(now = Date.now()): CircuitState {
+    if (this.openUntil === 0) return "closed";
+    return now < this.openUntil ? "open" : "half-open";
+  }
+
+  score(): number {
+    return (this.latencyMs ?? UNMEASURED_LATENCY_MS) * (1 + 4 * this.errorRate);
+  }
+
+  succeeded(elapsedMs: number) {
+    this.requests++;
+    this.latencyMs = this.latencyMs === null ? elapsedMs : this.latencyMs + SMOOTHING * (elapsedMs - this.latencyMs);
+    this.errorRate *= 1 - SMOOTHING;
+    this.consecutiveFailures = 0;
+    this.openUntil = 0;
+    this.cooldownMs = BASE_COOLDOWN_MS;
+  }
+
+  failed(error: unknown) {
+    this.requests++;
+    this.failures++;
+    this.errorRate += SMOOTHING * (1 - this.errorRate);
+    this.consecutiveFailures++;
+    this.lastError = (error as any)?.shortMessage || (error as any)?.message || String(error);
+    if (this.openUntil > 0) {
+      // a failed probe keeps the circuit open for longer
+      this.cooldownMs = Math.min(this.cooldownMs * 2, MAX_COOLDOWN_MS);
+      this.openUntil = Date.now() + this.cooldownMs;
+    } else if (this.consecutiveFailures >= FAILURE_THRESHOLD) {
+      this.openUntil = Date.now() + this.cooldownMs;
+    }
+  }
+
+  health(): EndpointHealth {
+    const circuit = this.circuit();
+    return {
+      label: this.label,
+      circuit,
+      latencyMs: this.latencyMs === null ? null : Math.round(this.latencyMs),
+      errorRate: this.errorRate,
+      requests: this.requests,
+      failures: this.failures,
+      lastError: this.lastError,
+      retryAt: circuit === "open" ? this.openUntil : undefined
+    };
+  }
+}
+
+// ethers provider whose transport is the manager, so contracts bound to it fail over transparently
+class FailoverProvider extends ethers.JsonRpcApiProvider {
+  constructor(private readonly manager: RpcManager, network: ethers.Network) {
+    super(network, { staticNetwork: network });
+  }
+
+  _send(payload: ethers.JsonRpcPayload | ethers.JsonRpcPayload[]): Promise<Array<ethers.JsonRpcResult | ethers.JsonRpcError>> {
+    return this.manager.send(payload);
+  }
+}
+
+export class RpcManager {
+  readonly provider: ethers.JsonRpcApiProvider;
+  private readonly endpoints: Endpoint[];
+  private readonly unconfigured: number;
+  private active: Endpoint | null = null;
+  private listeners = new Set<() => void>();
+
+  constructor(private readonly profile: NetworkProfile, name: string) {
+    const network = new ethers.Network(name, profile.chainId);
+    const configured = rpcEndpoints(profile);
+    this.endpoints = configured.map(endpoint => new Endpoint(endpoint.url, endpoint.label, network));
+    this.unconfigured = profile.rpcUrls.length - configured.length;
+    this.provider = new FailoverProvider(this, network);
+  }
+
+  async send(payload: ethers.JsonRpcPayload | ethers.JsonRpcPayload[]): Promise<Array<ethers.JsonRpcResult | ethers.JsonRpcError>> {
+    const candidates = this.ranked();
+    if (candidates.length === 0) {
+      throw new Error(`No ${this.profile.chainName} RPC endpoint available`);
+    }
+
+    let lastError: unknown;
+    for (const endpoint of candidates) {
+      try {
+        const results = await this.call(endpoint, payload);
+        if (this.active !== endpoint) {
+          if (this.active) console.warn(`RPC failover: ${this.active.label} -> ${endpoint.label}`);
+          this.active = endpoint;
+          this.notify();
+        }
+        return results;
+      } catch (e) {
+        lastError = e;
+      }
+    }
+    throw lastError;
+  }
+
+  diagnostics(): RpcDiagnostics {
+    return {
+      network: this.profile.chainName,
+      active: this.active?.label ?? null,
+      endpoints: this.endpoints.map(endpoint => endpoint.health()),
+      unconfigured: this.unconfigured
+    };
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Closed circuits, best score first; endpoints whose cool-down has passed get probed on the side
+  private ranked(): Endpoint[] {
+    const now = Date.now();
+    this.endpoints.forEach(endpoint => {
+      if (endpoint.circuit(now) === "half-open") this.probe(endpoint);
+    });
+    return this.endpoints
+      .filter(endpoint => endpoint.circuit(now) === "closed")
+      .sort((a, b) => a.score() - b.score());
+  }
+
+  private probe(endpoint: Endpoint) {
+    if (endpoint.probing) return;
+    endpoint.probing = true;
+    this.call(endpoint, { method: "eth_blockNumber", params: [], id: 0, jsonrpc: "2.0" })
+      .catch(() => undefined)
+      .finally(() => {
+        endpoint.probing = false;
+      });
+  }
+
+  private async call(
+    endpoint: Endpoint,
+    payload: ethers.JsonRpcPayload | ethers.JsonRpcPayload[]
+  ): Promise<Array<ethers.JsonRpcResult | ethers.JsonRpcError>> {
+    const started = Date.now();
+    try {
+      const results: Array<ethers.JsonRpcResult | ethers.JsonRpcError> = await withTimeout(
+        endpoint.provider._send(payload),
+        REQUEST_TIMEOUT_MS
+      );
+      // reverts and bad params are answers; being throttled is the endpoint failing
+      const throttled = results.find(result => "error" in result && result.error.code === RATE_LIMITED);
+      if (throttled && "error" in throttled) {
+        throw new Error(throttled.error.message || "RPC rate limited");
+      }
+      endpoint.succeeded(Date.now() - started);
+      return results;
+    } catch (e) {
+      endpoint.failed(e);
+      console.warn(`RPC ${endpoint.label} failed: ${endpoint.lastError}`);
+      throw e;
+    } finally {
+      this.notify();
+    }
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+let manager: RpcManager | null = null;
+
+// The shared manager for the active profile
+export function getRpcManager(): RpcManager {
+  if (!manager) {
+    manager = new RpcManager(activeNetwork, activeNetworkName);
+  }
+  return manager;
+}
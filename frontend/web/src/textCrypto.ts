@@ -0,0 +1,259 @@
+// textCrypto.ts
+// Objective, key-result and check-in note text sealed with AES-GCM under a key derived from a
+// wallet signature (checked against a stored key check value), and team text sealed under keys the
+// team shares. Only the sealed string is stored; the keys live in memory for the session.
+import { ethers } from "ethers";
+import { newKeyResult } from "./keyResults";
+import type { KeyResult, OKRStatus, StatusChange } from "./repository/types";
+
+export interface OKRText {
+  objective: string;
+  keyResults: { title: string; unit: string }[];
+}
+
+// What an FHE OKR keeps on chain besides its ciphertexts: the text with the fields only the owner
+// should see, so every device of theirs restores the same OKR
+export interface OKRRecord extends OKRText {
+  status: OKRStatus;
+  statusHistory?: StatusChange[];
+  priority?: number;
+  cycleId?: string;
+  objectiveId?: string;
+  rolledFrom?: string;
+  rolledInto?: string;
+}
+
+export const LOCKED_TEXT = "Locked";
+
+const SEAL_VERSION = "v1";
+
+// WebCrypto wants ArrayBuffer-backed views; ethers hands out ArrayBufferLike ones
+const buffer = (bytes: Uint8Array) => new Uint8Array(bytes);
+
+const HKDF_SALT = buffer(ethers.toUtf8Bytes("privacyokr-text-v1"));
+
+const TEXT_KEY_TYPES = {
+  TextKey: [
+    { name: "account", type: "address" },
+    { name: "purpose", type: "string" }
+  ]
+};
+
+const KEY_CHECK_INFO = buffer(ethers.toUtf8Bytes("key-check"));
+
+// Where each account's key check value lives. The check comes from the same signature as the key,
+// so comparing it catches a wallet that signs differently than it did before (a non-deterministic
+// signer, another device, a hardware or contract wallet) before anything is sealed under a key
+// nothing else opens.
+export interface KeyCheckStore {
+  read(account: string): Promise<string | null>;
+  write(signer: ethers.Signer, check: string): Promise<void>;
+}
+
+export const localKeyChecks: KeyCheckStore = {
+  async read(account) {
+    return localStorage.getItem(`privacyokr_textkey_check_${account.toLowerCase()}`);
+  },
+  async write(signer, check) {
+    localStorage.setItem(`privacyokr_textkey_check_${(await signer.getAddress()).toLowerCase()}`, check);
+  }
+};
+
+let keyChecks: KeyCheckStore = localKeyChecks;
+
+export function setKeyCheckStore(store: KeyCheckStore) {
+  keyChecks = store;
+}
+
+// one key per account, kept for the session
+const keys = new Map<string, CryptoKey>();
+const pending = new Map<string, Promise<CryptoKey>>();
+
+export function hasTextKey(account: string): boolean {
+  return !!account && keys.has(account.toLowerCase());
+}
+
+// The signed domain carries no chainId, so the same wallet gets the same key on every network
+async function deriveKey(signer: ethers.Signer): Promise<CryptoKey> {
+  const account = await signer.getAddress();
+  const signature = await signer.signTypedData(
+    { name: "PrivacyOKR", version: "1" },
+    TEXT_KEY_TYPES,
+    { account, purpose: "Unlock my encrypted OKR text. This signature costs no gas." }
+  );
+
+  const material = await crypto.subtle.importKey("raw", buffer(ethers.getBytes(signature)), "HKDF", false, [
+    "deriveKey",
+    "deriveBits"
+  ]);
+  const check = ethers.hexlify(
+    new Uint8Array(
+      await crypto.subtle.deriveBits({ name: "HKDF", hash: "SHA-256", salt: HKDF_SALT, info: KEY_CHECK_INFO }, material, 256)
+    )
+  );
+  const stored = await keyChecks.read(account);
+  if (stored && stored !== check) {
+    throw new Error(
+      "This wallet signed the unlock request differently than when your OKR text was first sealed, so the key " +
+        "it gives cannot open that text. Unlock with the wallet and device you sealed it with."
+    );
+  }
+  if (!stored) await keyChecks.write(signer, check);
+
+  return crypto.subtle.deriveKey(
+    { name: "HKDF", hash: "SHA-256", salt: HKDF_SALT, info: new Uint8Array() },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+// Asks the wallet for the key signature once per session; concurrent callers share the prompt.
+// Rejects when the signature does not match the account's key check.
+export async function unlockTextKey(signer: ethers.Signer): Promise<CryptoKey> {
+  const account = (await signer.getAddress()).toLowerCase();
+  const cached = keys.get(account);
+  if (cached) return cached;
+
+  let request = pending.get(account);
+  if (!request) {
+    request = deriveKey(signer).finally(() => pending.delete(account));
+    pending.set(account, request);
+  }
+  const key = await request;
+  keys.set(account, key);
+  return key;
+}
+
+export function lockTextKeys() {
+  keys.clear();
+}
+
+async function sealUnder(key: CryptoKey, value: unknown): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, buffer(ethers.toUtf8Bytes(JSON.stringify(value))));
+  return [SEAL_VERSION, ethers.encodeBase64(iv), ethers.encodeBase64(new Uint8Array(ciphertext))].join(".");
+}
+
+// Resolves to null when the value was sealed under another key
+async function openUnder<T>(key: CryptoKey, sealed: string): Promise<T | null> {
+  const [version, iv, ciphertext] = sealed.split(".");
+  if (version !== SEAL_VERSION || !iv || !ciphertext) return null;
+  try {
+    const clear = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: buffer(ethers.decodeBase64(iv)) },
+      key,
+      buffer(ethers.decodeBase64(ciphertext))
+    );
+    return JSON.parse(ethers.toUtf8String(new Uint8Array(clear))) as T;
+  } catch (e) {
+    console.error("Could not open sealed text:", e);
+    return null;
+  }
+}
+
+async function seal(signer: ethers.Signer, value: unknown): Promise<string> {
+  return sealUnder(await unlockTextKey(signer), value);
+}
+
+// Resolves to null while the owner's key is locked or when the value was sealed under another key
+async function open<T>(owner: string, sealed: string): Promise<T | null> {
+  const key = owner ? keys.get(owner.toLowerCase()) : undefined;
+  return key ? openUnder<T>(key, sealed) : null;
+}
+
+export function sealOKRText(signer: ethers.Signer, text: OKRText): Promise<string> {
+  return seal(signer, text);
+}
+
+export function openOKRText(owner: string, sealed: string): Promise<OKRText | null> {
+  return open<OKRText>(owner, sealed);
+}
+
+export function sealOKRRecord(signer: ethers.Signer, record: OKRRecord): Promise<string> {
+  return seal(signer, record);
+}
+
+export function openOKRRecord(owner: string, sealed: string): Promise<OKRRecord | null> {
+  return open<OKRRecord>(owner, sealed);
+}
+
+// Check-in notes are stored on chain with their check-in, so they are sealed under the same key
+export function sealCheckInNote(signer: ethers.Signer, note: string): Promise<string> {
+  return seal(signer, note);
+}
+
+export function openCheckInNote(owner: string, sealed: string): Promise<string | null> {
+  return open<string>(owner, sealed);
+}
+
+// Shared keys: random AES keys a whole team (or, for company objectives, the company) reads team
+// names and objective titles with. They travel in invites as base64 and are kept on chain sealed
+// under each holder's own text key.
+const sharedKeys = new Map<string, Promise<CryptoKey>>();
+
+export function newSharedKey(): string {
+  return ethers.encodeBase64(ethers.randomBytes(32));
+}
+
+function importSharedKey(sharedKey: string): Promise<CryptoKey> {
+  let key = sharedKeys.get(sharedKey);
+  if (!key) {
+    key = crypto.subtle.importKey("raw", buffer(ethers.decodeBase64(sharedKey)), "AES-GCM", false, ["encrypt", "decrypt"]);
+    sharedKeys.set(sharedKey, key);
+  }
+  return key;
+}
+
+export async function sealShared(sharedKey: string, text: string): Promise<string> {
+  return sealUnder(await importSharedKey(sharedKey), text);
+}
+
+export async function openShared(sharedKey: string, sealed: string): Promise<string | null> {
+  return openUnder<string>(await importSharedKey(sharedKey), sealed);
+}
+
+// The holder's own copy of a shared key
+export function sealHeldKey(signer: ethers.Signer, sharedKey: string): Promise<string> {
+  return seal(signer, sharedKey);
+}
+
+export function openHeldKey(owner: string, sealed: string): Promise<string | null> {
+  return open<string>(owner, sealed);
+}
+
+export function textOf(objective: string, keyResults: KeyResult[]): OKRText {
+  return { objective, keyResults: keyResults.map(kr => ({ title: kr.title, unit: kr.unit })) };
+}
+
+// Key results as they are stored next to the sealed text: numbers only
+export function withoutText(keyResults: KeyResult[]): KeyResult[] {
+  return keyResults.map(kr => ({ ...kr, title: "", unit: "" }));
+}
+
+// Numbers may be missing on a device that did not create the OKR; the text still lists every result
+export function withText(keyResults: KeyResult[], text: OKRText | null): KeyResult[] {
+  if (!text) return keyResults.map(kr => ({ ...kr, title: LOCKED_TEXT }));
+  return text.keyResults.map((clear, i) => ({ ...(keyResults[i] ?? newKeyResult()), ...clear }));
+}
+
+export interface RevealedText {
+  objective: string;
+  keyResults: KeyResult[];
+  locked: boolean;
+}
+
+// Clear text for display. Records from before sealing carry their text as is.
+export async function revealOKRText(
+  owner: string,
+  sealedText: string | undefined,
+  objective: string | undefined,
+  keyResults: KeyResult[]
+): Promise<RevealedText> {
+  if (!sealedText) {
+    return { objective: objective || "Encrypted objective", keyResults, locked: false };
+  }
+  const text = await openOKRText(owner, sealedText);
+  return { objective: text?.objective ?? LOCKED_TEXT, keyResults: withText(keyResults, text), locked: !text };
+}
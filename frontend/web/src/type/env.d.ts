@@ -0,0 +1,8 @@
+// build-time variables vite.config.ts inlines; see RPC_KEY_VARS there
+interface ImportMetaEnv {
+  readonly VITE_INFURA_API_KEY?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -1,9 +1,16 @@
-import { defineConfig } from "vite";
+import { defineConfig, loadEnv } from "vite";
 import react from "@vitejs/plugin-react";
 
-export default defineConfig({
-  plugins: [react()],
-  define: {
-    'process.env': process.env
-  }
+// RPC keys network.ts fills into the ${NAME} placeholders of config.json. Only these are inlined;
+// the rest of the build environment (deployer keys among it) stays out of the bundle.
+const RPC_KEY_VARS = ["VITE_INFURA_API_KEY"];
+
+export default defineConfig(({ mode }) => {
+  const env = loadEnv(mode, process.cwd(), "VITE_");
+  return {
+    plugins: [react()],
+    define: Object.fromEntries(
+      RPC_KEY_VARS.map(name => [`import.meta.env.${name}`, JSON.stringify(env[name] ?? "")])
+    )
+  };
 });
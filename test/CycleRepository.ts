@@ -0,0 +1,97 @@
+/// <reference lib="dom" />
+// the repositories under test are browser modules
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import type { UniversalAdapter } from "../types";
+import type { AdapterBatcher } from "../frontend/web/src/batchReader";
+import { CycleRepository } from "../frontend/web/src/repository/cycleRepository";
+import { MemoryOKRRepository } from "../frontend/web/src/repository/memoryRepository";
+import type { KeyResult, OKRDraft } from "../frontend/web/src/repository/types";
+
+const OWNER = "0x00000000000000000000000000000000000000A1";
+const TEAM_A = ethers.id("team-a");
+
+// UniversalAdapter storage with the versioning setDataAtomic checks, written by OWNER's wallet
+function fakeAdapter() {
+  const values = new Map<string, string>();
+  const versions = new Map<string, bigint>();
+  const entry = (owner: string, key: string) => `${owner}/${key}`;
+  const adapter = {
+    runner: { getAddress: async () => OWNER },
+    getData: async (owner: string, key: string) => values.get(entry(owner, key)) ?? "0x",
+    getVersion: async (owner: string, key: string) => versions.get(entry(owner, key)) ?? 0n,
+    isAvailable: async () => true,
+    setDataAtomic: async (keys: string[], data: Uint8Array[], expected: bigint[]) => {
+      keys.forEach((key, i) => {
+        if ((versions.get(entry(OWNER, key)) ?? 0n) !== expected[i]) throw new Error("Stale version");
+      });
+      keys.forEach((key, i) => {
+        values.set(entry(OWNER, key), ethers.hexlify(data[i]));
+        versions.set(entry(OWNER, key), (versions.get(entry(OWNER, key)) ?? 0n) + 1n);
+      });
+      return { wait: async () => null };
+    },
+  };
+  return adapter as unknown as UniversalAdapter & AdapterBatcher;
+}
+
+const keyResult = (current: number): KeyResult => ({
+  title: "Ship it",
+  metric: "percentage",
+  start: 0,
+  target: 100,
+  current,
+  unit: "%",
+  weight: 1,
+});
+
+describe("CycleRepository", function () {
+  let okrs: MemoryOKRRepository;
+  let cycles: CycleRepository;
+
+  beforeEach(function () {
+    const adapter = fakeAdapter();
+    okrs = new MemoryOKRRepository();
+    cycles = new CycleRepository(async () => adapter, async () => adapter, okrs);
+  });
+
+  async function createIn(cycleId: string, draft: Partial<OKRDraft> = {}) {
+    return okrs.create(OWNER, { objective: "Grow", keyResults: [keyResult(40)], cycleId, ...draft });
+  }
+
+  describe("closeOut", function () {
+    it("rolls unfinished OKRs over aligned to the same team and objective", async function () {
+      const [cycle] = await cycles.list(OWNER);
+      const aligned = await createIn(cycle.id, { teamId: TEAM_A, objectiveId: "7" });
+      const personal = await createIn(cycle.id);
+
+      const { next, rolled } = await cycles.closeOut(OWNER, cycle.id, await okrs.listPersonal(OWNER));
+
+      const copyOf = (id: string) => rolled.find(copy => copy.rolledFrom === id);
+      expect(copyOf(aligned.id)).to.include({ teamId: TEAM_A, objectiveId: "7", cycleId: next.id });
+      expect(copyOf(personal.id)?.teamId).to.eq(undefined);
+      expect((await okrs.get(aligned.id))?.rolledInto).to.eq(copyOf(aligned.id)?.id);
+    });
+
+    it("keeps the priority of rolled-over OKRs", async function () {
+      const [cycle] = await cycles.list(OWNER);
+      const urgent = await createIn(cycle.id, { priority: 3, teamId: TEAM_A });
+
+      const { rolled } = await cycles.closeOut(OWNER, cycle.id, await okrs.listPersonal(OWNER));
+
+      expect(rolled).to.have.length(1);
+      expect(rolled[0]).to.include({ rolledFrom: urgent.id, priority: 3 });
+    });
+
+    it("leaves finished OKRs and marks the cycle closed", async function () {
+      const [cycle] = await cycles.list(OWNER);
+      await createIn(cycle.id, { keyResults: [keyResult(100)] });
+
+      const { closed, rolled } = await cycles.closeOut(OWNER, cycle.id, await okrs.listPersonal(OWNER));
+
+      expect(rolled).to.have.length(0);
+      expect(closed.closedAt).to.be.greaterThan(0);
+      expect((await cycles.list(OWNER)).find(c => c.id === cycle.id)?.closedAt).to.eq(closed.closedAt);
+    });
+  });
+});
@@ -0,0 +1,1347 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { EncryptedOKRPlatformFHE, EncryptedOKRPlatformFHE__factory } from "../types";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+  carol: HardhatEthersSigner;
+};
+
+const TEAM_A = ethers.id("team-a");
+const TEAM_B = ethers.id("team-b");
+// stand-ins for what the client seals; the contract only stores them
+const SEALED_NAME = "v1.sealed-name";
+const SEALED_KEY = "v1.sealed-key";
+const SEALED_RECORD = "v1.sealed-record";
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory("EncryptedOKRPlatformFHE")) as EncryptedOKRPlatformFHE__factory;
+  const contract = (await factory.deploy()) as EncryptedOKRPlatformFHE;
+  const contractAddress = await contract.getAddress();
+  return { contract, contractAddress };
+}
+
+describe("EncryptedOKRPlatformFHE", function () {
+  let signers: Signers;
+  let contract: EncryptedOKRPlatformFHE;
+  let contractAddress: string;
+
+  async function submit(signer: HardhatEthersSigner, progress: number, teamId: string, objectiveId = 0n, priority = 1) {
+    const input = fhevm.createEncryptedInput(contractAddress, signer.address);
+    input.add32(1234).add32(3).add32(progress).add32(priority);
+    const encrypted = await input.encrypt();
+    const tx = await contract
+      .connect(signer)
+      .submitEncryptedOKR(
+        encrypted.handles[0],
+        encrypted.handles[1],
+        encrypted.handles[2],
+        encrypted.handles[3],
+        [],
+        encrypted.inputProof,
+        teamId,
+        objectiveId,
+        SEALED_RECORD,
+      );
+    await tx.wait();
+    return contract.okrCount();
+  }
+
+  async function updateProgress(signer: HardhatEthersSigner, okrId: bigint, progress: number) {
+    const input = fhevm.createEncryptedInput(contractAddress, signer.address);
+    input.add32(progress);
+    const encrypted = await input.encrypt();
+    const tx = await contract.connect(signer).updateEncryptedProgress(okrId, encrypted.handles[0], encrypted.inputProof);
+    await tx.wait();
+  }
+
+  async function join(signer: HardhatEthersSigner, teamId: string) {
+    await (await contract.connect(signers.deployer).allowMember(teamId, signer.address)).wait();
+    await (await contract.connect(signer).joinTeam(teamId, ethers.ZeroHash, SEALED_KEY)).wait();
+  }
+
+  async function createObjective(title: string, teamId: string, parentId = 0n) {
+    await (await contract.connect(signers.deployer).createObjective(title, teamId, parentId)).wait();
+    return contract.objectiveCount();
+  }
+
+  async function objectiveAggregateOf(objectiveId: bigint) {
+    await (await contract.recomputeObjectiveAggregate(objectiveId)).wait();
+    const [encryptedSum] = await contract.getEncryptedAggregate(await contract.objectiveAggregateKey(objectiveId));
+    return fhevm.debugger.decryptEuint(FhevmType.euint32, encryptedSum);
+  }
+
+  async function aggregateOf(teamId: string) {
+    await (await contract.recomputeTeamAggregate(teamId)).wait();
+    const [encryptedSum] = await contract.getEncryptedAggregate(teamId);
+    return fhevm.debugger.decryptEuint(FhevmType.euint32, encryptedSum);
+  }
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2], carol: ethSigners[3] };
+  });
+
+  beforeEach(async function () {
+    // the suite relies on the mock coprocessor and decryption oracle
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ contract, contractAddress } = await deployFixture());
+
+    // the deployer administers both teams; members join through the allowlist
+    await (await contract.connect(signers.deployer).createTeam(TEAM_A, SEALED_NAME, SEALED_KEY)).wait();
+    await (await contract.connect(signers.deployer).createTeam(TEAM_B, SEALED_NAME, SEALED_KEY)).wait();
+    for (const signer of [signers.alice, signers.bob, signers.carol]) {
+      await join(signer, TEAM_A);
+      await join(signer, TEAM_B);
+    }
+  });
+
+  describe("teams", function () {
+    it("stores only the sealed name under the chosen id", async function () {
+      const team = await contract.teams(TEAM_A);
+      expect(team.sealedName).to.eq(SEALED_NAME);
+      expect(team.admin).to.eq(signers.deployer.address);
+    });
+
+    it("exposes the roster only as a count", async function () {
+      expect((await contract.teams(TEAM_A)).memberCount).to.eq(4n);
+      expect(await contract.connect(signers.alice).isMemberOf(TEAM_A)).to.eq(true);
+    });
+
+    it("rejects duplicate team names", async function () {
+      await expect(contract.connect(signers.alice).createTeam(TEAM_A, SEALED_NAME, SEALED_KEY)).to.be.revertedWith(
+        "Team exists",
+      );
+      await expect(contract.createTeam(ethers.ZeroHash, SEALED_NAME, SEALED_KEY)).to.be.revertedWith("Invalid team id");
+    });
+
+    it("makes the creator the first member", async function () {
+      const teamId = ethers.id("team-c");
+      await expect(contract.connect(signers.alice).createTeam(teamId, SEALED_NAME, SEALED_KEY))
+        .to.emit(contract, "TeamCreated")
+        .withArgs(teamId)
+        .and.to.emit(contract, "TeamJoined")
+        .withArgs(teamId, 1n);
+      expect(await contract.connect(signers.alice).isMemberOf(teamId)).to.eq(true);
+    });
+
+    it("accepts an invite code from the invited address", async function () {
+      const teamId = ethers.id("team-c");
+      await (await contract.connect(signers.alice).createTeam(teamId, SEALED_NAME, SEALED_KEY)).wait();
+
+      const code = ethers.id("secret invite");
+      const codeHash = ethers.solidityPackedKeccak256(["bytes32", "address"], [code, signers.bob.address]);
+      expect(await contract.inviteHashFor(code, signers.bob.address)).to.eq(codeHash);
+      await (await contract.connect(signers.alice).addInvite(teamId, codeHash)).wait();
+
+      await expect(contract.connect(signers.bob).joinTeam(teamId, code, SEALED_KEY)).to.emit(contract, "TeamJoined").withArgs(teamId, 2n);
+    });
+
+    it("binds an invite code to the invited address", async function () {
+      const teamId = ethers.id("team-c");
+      await (await contract.connect(signers.alice).createTeam(teamId, SEALED_NAME, SEALED_KEY)).wait();
+
+      const code = ethers.id("secret invite");
+      await (await contract.connect(signers.alice).addInvite(teamId, await contract.inviteHashFor(code, signers.bob.address))).wait();
+
+      // a code copied from bob's pending transaction is worthless to carol
+      await expect(contract.connect(signers.carol).joinTeam(teamId, code, SEALED_KEY)).to.be.revertedWith("Invalid invite");
+      await expect(contract.connect(signers.bob).joinTeam(teamId, code, SEALED_KEY)).to.emit(contract, "TeamJoined");
+    });
+
+    it("lets only the admin invite", async function () {
+      await expect(contract.connect(signers.alice).addInvite(TEAM_A, ethers.ZeroHash)).to.be.revertedWith("Not team admin");
+      await expect(contract.connect(signers.alice).allowMember(TEAM_A, signers.bob.address)).to.be.revertedWith(
+        "Not team admin",
+      );
+    });
+
+    it("rejects joining twice or joining unknown teams", async function () {
+      await expect(contract.connect(signers.alice).joinTeam(TEAM_A, ethers.ZeroHash, SEALED_KEY)).to.be.revertedWith(
+        "Already a member",
+      );
+      await expect(contract.connect(signers.alice).joinTeam(ethers.id("nope"), ethers.ZeroHash, SEALED_KEY)).to.be.revertedWith(
+        "Unknown team",
+      );
+    });
+  });
+
+  describe("team keys", function () {
+    it("keeps each holder's copy of the team key for them alone", async function () {
+      const teamId = ethers.id("team-c");
+      await (await contract.connect(signers.alice).createTeam(teamId, SEALED_NAME, "v1.alice-copy")).wait();
+      await (await contract.connect(signers.alice).allowMember(teamId, signers.bob.address)).wait();
+      await (await contract.connect(signers.bob).joinTeam(teamId, ethers.ZeroHash, "v1.bob-copy")).wait();
+
+      expect(await contract.connect(signers.alice).heldKey(teamId)).to.eq("v1.alice-copy");
+      expect(await contract.connect(signers.bob).heldKey(teamId)).to.eq("v1.bob-copy");
+      expect(await contract.connect(signers.carol).heldKey(teamId)).to.eq("");
+
+      await (await contract.connect(signers.bob).setHeldKey(teamId, "v1.bob-resealed")).wait();
+      expect(await contract.connect(signers.bob).heldKey(teamId)).to.eq("v1.bob-resealed");
+      await expect(contract.connect(signers.carol).setHeldKey(teamId, SEALED_KEY)).to.be.revertedWith("Not team member");
+    });
+
+    it("keeps the company key with the company admin and teams it is shared with", async function () {
+      await expect(contract.connect(signers.alice).setHeldKey(ethers.ZeroHash, SEALED_KEY)).to.be.revertedWith(
+        "Not company admin",
+      );
+      await (await contract.setHeldKey(ethers.ZeroHash, "v1.company-copy")).wait();
+      expect(await contract.heldKey(ethers.ZeroHash)).to.eq("v1.company-copy");
+
+      await expect(contract.connect(signers.alice).shareCompanyKey(TEAM_A, SEALED_KEY)).to.be.revertedWith("Not team admin");
+      await (await contract.shareCompanyKey(TEAM_A, "v1.company-for-team-a")).wait();
+      expect(await contract.teamCompanyKeys(TEAM_A)).to.eq("v1.company-for-team-a");
+    });
+
+    it("rejects sealed text over the length cap", async function () {
+      const limit = Number(await contract.MAX_SEALED_LENGTH());
+      await expect(contract.createTeam(ethers.id("team-c"), "x".repeat(limit + 1), SEALED_KEY)).to.be.revertedWith(
+        "Sealed text too long",
+      );
+      await expect(contract.createObjective("x".repeat(limit + 1), TEAM_A, 0)).to.be.revertedWith("Sealed text too long");
+      await expect(contract.createTeam(ethers.id("team-c"), SEALED_NAME, "")).to.be.revertedWith("Empty key");
+    });
+
+    it("keeps one text key check per account", async function () {
+      expect(await contract.textKeyChecks(signers.alice.address)).to.eq(ethers.ZeroHash);
+      await (await contract.connect(signers.alice).setTextKeyCheck(ethers.id("alice-check"))).wait();
+      expect(await contract.textKeyChecks(signers.alice.address)).to.eq(ethers.id("alice-check"));
+      expect(await contract.textKeyChecks(signers.bob.address)).to.eq(ethers.ZeroHash);
+      await expect(contract.connect(signers.bob).setTextKeyCheck(ethers.ZeroHash)).to.be.revertedWith("Empty key check");
+    });
+  });
+
+  describe("submitEncryptedOKR", function () {
+    it("stores the encrypted values under a new id", async function () {
+      const okrId = await submit(signers.alice, 40, TEAM_A);
+      expect(okrId).to.eq(1n);
+
+      const okr = await contract.getEncryptedOKR(okrId);
+      expect(okr.owner).to.eq(signers.alice.address);
+      expect(await fhevm.debugger.decryptEuint(FhevmType.euint32, okr.encryptedObjective)).to.eq(1234n);
+      expect(await fhevm.debugger.decryptEuint(FhevmType.euint32, okr.encryptedKeyResults)).to.eq(3n);
+      expect(await fhevm.debugger.decryptEuint(FhevmType.euint32, okr.encryptedProgress)).to.eq(40n);
+    });
+
+    it("emits OKRSubmitted", async function () {
+      const input = fhevm.createEncryptedInput(contractAddress, signers.alice.address);
+      input.add32(1).add32(1).add32(10).add32(1);
+      const encrypted = await input.encrypt();
+
+      await expect(
+        contract
+          .connect(signers.alice)
+          .submitEncryptedOKR(
+            encrypted.handles[0],
+            encrypted.handles[1],
+            encrypted.handles[2],
+            encrypted.handles[3],
+            [],
+            encrypted.inputProof,
+            TEAM_A,
+            0,
+            SEALED_RECORD,
+          ),
+      )
+        .to.emit(contract, "OKRSubmitted")
+        .withArgs(1n, signers.alice.address, (timestamp: bigint) => timestamp > 0n);
+    });
+
+    it("rejects team OKRs from non-members", async function () {
+      const teamId = ethers.id("team-c");
+      await (await contract.connect(signers.alice).createTeam(teamId, SEALED_NAME, SEALED_KEY)).wait();
+
+      const input = fhevm.createEncryptedInput(contractAddress, signers.bob.address);
+      input.add32(1).add32(1).add32(10).add32(1);
+      const encrypted = await input.encrypt();
+
+      await expect(
+        contract
+          .connect(signers.bob)
+          .submitEncryptedOKR(
+            encrypted.handles[0],
+            encrypted.handles[1],
+            encrypted.handles[2],
+            encrypted.handles[3],
+            [],
+            encrypted.inputProof,
+            teamId,
+            0,
+            SEALED_RECORD,
+          ),
+      ).to.be.revertedWith("Not team member");
+    });
+
+    it("accepts personal OKRs without a team", async function () {
+      expect(await submit(signers.alice, 10, ethers.ZeroHash)).to.eq(1n);
+    });
+
+    it("keeps the sealed record for the owner to replace", async function () {
+      const okrId = await submit(signers.alice, 10, TEAM_A);
+      expect(await contract.okrRecords(okrId)).to.eq(SEALED_RECORD);
+
+      await (await contract.connect(signers.alice).setOKRRecord(okrId, "v1.archived")).wait();
+      expect(await contract.okrRecords(okrId)).to.eq("v1.archived");
+      await expect(contract.connect(signers.bob).setOKRRecord(okrId, SEALED_RECORD)).to.be.revertedWith("Not OKR owner");
+
+      await (await contract.connect(signers.alice).deleteEncryptedOKR(okrId)).wait();
+      expect(await contract.okrRecords(okrId)).to.eq("");
+    });
+
+    it("rejects inputs encrypted for another sender", async function () {
+      const input = fhevm.createEncryptedInput(contractAddress, signers.bob.address);
+      input.add32(1).add32(1).add32(10).add32(1);
+      const encrypted = await input.encrypt();
+
+      await expect(
+        contract
+          .connect(signers.alice)
+          .submitEncryptedOKR(
+            encrypted.handles[0],
+            encrypted.handles[1],
+            encrypted.handles[2],
+            encrypted.handles[3],
+            [],
+            encrypted.inputProof,
+            TEAM_A,
+            0,
+            SEALED_RECORD,
+          ),
+      ).to.be.reverted;
+    });
+  });
+
+  describe("key results", function () {
+    async function submitWithKeyResults(signer: HardhatEthersSigner, values: number[], progress: number) {
+      const input = fhevm.createEncryptedInput(contractAddress, signer.address);
+      input.add32(1234).add32(values.length).add32(progress).add32(1);
+      values.forEach((value) => input.add32(value));
+      const encrypted = await input.encrypt();
+      const tx = await contract
+        .connect(signer)
+        .submitEncryptedOKR(
+          encrypted.handles[0],
+          encrypted.handles[1],
+          encrypted.handles[2],
+          encrypted.handles[3],
+          encrypted.handles.slice(4),
+          encrypted.inputProof,
+          TEAM_A,
+          0,
+          SEALED_RECORD,
+        );
+      await tx.wait();
+      return contract.okrCount();
+    }
+
+    async function decryptKeyResults(okrId: bigint) {
+      // the mock debugger replays coprocessor events and must not run concurrently
+      const values: bigint[] = [];
+      for (const handle of await contract.getEncryptedKeyResults(okrId)) {
+        values.push(await fhevm.debugger.decryptEuint(FhevmType.euint32, handle));
+      }
+      return values;
+    }
+
+    it("stores every key-result value under the same proof", async function () {
+      const okrId = await submitWithKeyResults(signers.alice, [50, 100, 0], 55);
+      expect(await decryptKeyResults(okrId)).to.deep.eq([50n, 100n, 0n]);
+    });
+
+    it("replaces key results together with the derived progress", async function () {
+      const okrId = await submitWithKeyResults(signers.alice, [50, 100, 0], 55);
+
+      const input = fhevm.createEncryptedInput(contractAddress, signers.alice.address);
+      input.add32(80).add32(100).add32(90).add32(7);
+      const encrypted = await input.encrypt();
+      await expect(
+        contract
+          .connect(signers.alice)
+          .updateEncryptedKeyResults(
+            okrId,
+            encrypted.handles.slice(0, 2),
+            encrypted.handles[2],
+            encrypted.handles[3],
+            encrypted.inputProof,
+            "",
+          ),
+      )
+        .to.emit(contract, "KeyResultsUpdated")
+        .withArgs(okrId, 2n, (timestamp: bigint) => timestamp > 0n);
+
+      expect(await decryptKeyResults(okrId)).to.deep.eq([80n, 100n]);
+      const okr = await contract.getEncryptedOKR(okrId);
+      expect(await fhevm.debugger.decryptEuint(FhevmType.euint32, okr.encryptedProgress)).to.eq(90n);
+      expect(await aggregateOf(TEAM_A)).to.eq(90n);
+    });
+
+    it("clamps oversized progress and key-result values to 100", async function () {
+      const okrId = await submitWithKeyResults(signers.alice, [250, 40], 4000);
+
+      expect(await decryptKeyResults(okrId)).to.deep.eq([100n, 40n]);
+      const okr = await contract.getEncryptedOKR(okrId);
+      expect(await fhevm.debugger.decryptEuint(FhevmType.euint32, okr.encryptedProgress)).to.eq(100n);
+      expect(await aggregateOf(TEAM_A)).to.eq(100n);
+    });
+
+    it("lets only the owner update key results", async function () {
+      const okrId = await submitWithKeyResults(signers.alice, [50], 50);
+
+      const input = fhevm.createEncryptedInput(contractAddress, signers.bob.address);
+      input.add32(10).add32(10).add32(5);
+      const encrypted = await input.encrypt();
+      await expect(
+        contract
+          .connect(signers.bob)
+          .updateEncryptedKeyResults(
+            okrId,
+            [encrypted.handles[0]],
+            encrypted.handles[1],
+            encrypted.handles[2],
+            encrypted.inputProof,
+            "",
+          ),
+      ).to.be.revertedWith("Not OKR owner");
+    });
+
+    it("updates several OKRs from one encrypted input", async function () {
+      const first = await submitWithKeyResults(signers.alice, [10, 20], 15);
+      const second = await submitWithKeyResults(signers.alice, [0], 0);
+
+      // per OKR: progress, confidence, key results
+      const input = fhevm.createEncryptedInput(contractAddress, signers.alice.address);
+      input.add32(60).add32(8).add32(40).add32(80);
+      input.add32(100).add32(10).add32(100);
+      const encrypted = await input.encrypt();
+      const tx = await contract
+        .connect(signers.alice)
+        .updateEncryptedKeyResultsBatch([first, second], [2, 1], encrypted.handles, encrypted.inputProof, ["", ""]);
+      await tx.wait();
+
+      expect(await decryptKeyResults(first)).to.deep.eq([40n, 80n]);
+      expect(await decryptKeyResults(second)).to.deep.eq([100n]);
+      const okr = await contract.getEncryptedOKR(second);
+      expect(await fhevm.debugger.decryptEuint(FhevmType.euint32, okr.encryptedProgress)).to.eq(100n);
+      expect(await contract.getCheckInCount(first)).to.eq(2n);
+      expect(await contract.getCheckInCount(second)).to.eq(2n);
+    });
+
+    it("rejects a batch touching someone else's OKR", async function () {
+      const mine = await submitWithKeyResults(signers.alice, [10], 10);
+      const theirs = await submitWithKeyResults(signers.bob, [10], 10);
+
+      const input = fhevm.createEncryptedInput(contractAddress, signers.alice.address);
+      input.add32(50).add32(5).add32(50).add32(50).add32(5).add32(50);
+      const encrypted = await input.encrypt();
+      await expect(
+        contract
+          .connect(signers.alice)
+          .updateEncryptedKeyResultsBatch([mine, theirs], [1, 1], encrypted.handles, encrypted.inputProof, ["", ""]),
+      ).to.be.revertedWith("Not OKR owner");
+    });
+
+    it("rejects a batch whose handles do not match the key-result counts", async function () {
+      const okrId = await submitWithKeyResults(signers.alice, [10, 10], 10);
+
+      const input = fhevm.createEncryptedInput(contractAddress, signers.alice.address);
+      input.add32(50).add32(5).add32(50);
+      const encrypted = await input.encrypt();
+      await expect(
+        contract.connect(signers.alice).updateEncryptedKeyResultsBatch([okrId], [2], encrypted.handles, encrypted.inputProof, [""]),
+      ).to.be.revertedWith("Length mismatch");
+      await expect(
+        contract.connect(signers.alice).updateEncryptedKeyResultsBatch([okrId], [], encrypted.handles, encrypted.inputProof, []),
+      ).to.be.revertedWith("Length mismatch");
+    });
+  });
+
+  describe("check-ins", function () {
+    async function checkIn(signer: HardhatEthersSigner, okrId: bigint, progress: number, confidence: number, note = "") {
+      const input = fhevm.createEncryptedInput(contractAddress, signer.address);
+      input.add32(progress).add32(progress).add32(confidence);
+      const encrypted = await input.encrypt();
+      const tx = await contract
+        .connect(signer)
+        .updateEncryptedKeyResults(okrId, [encrypted.handles[0]], encrypted.handles[1], encrypted.handles[2], encrypted.inputProof, note);
+      await tx.wait();
+    }
+
+    it("records the submission as the first check-in", async function () {
+      const okrId = await submit(signers.alice, 20, TEAM_A);
+
+      expect(await contract.getCheckInCount(okrId)).to.eq(1n);
+      const first = await contract.getCheckIn(okrId, 0);
+      expect(await fhevm.debugger.decryptEuint(FhevmType.euint32, first.progress)).to.eq(20n);
+      expect(first.confidence).to.eq(ethers.ZeroHash);
+    });
+
+    it("keeps every update instead of overwriting it", async function () {
+      const okrId = await submit(signers.alice, 20, TEAM_A);
+      await checkIn(signers.alice, okrId, 45, 6);
+      await checkIn(signers.alice, okrId, 70, 9);
+
+      expect(await contract.getCheckInCount(okrId)).to.eq(3n);
+      const history: bigint[] = [];
+      for (let i = 0; i < 3; i++) {
+        const entry = await contract.getCheckIn(okrId, i);
+        history.push(await fhevm.debugger.decryptEuint(FhevmType.euint32, entry.progress));
+      }
+      expect(history).to.deep.eq([20n, 45n, 70n]);
+
+      const last = await contract.getCheckIn(okrId, 2);
+      expect(await fhevm.debugger.decryptEuint(FhevmType.euint32, last.confidence)).to.eq(9n);
+    });
+
+    it("emits CheckInRecorded with the entry index", async function () {
+      const okrId = await submit(signers.alice, 20, TEAM_A);
+
+      const input = fhevm.createEncryptedInput(contractAddress, signers.alice.address);
+      input.add32(30).add32(30).add32(5);
+      const encrypted = await input.encrypt();
+      await expect(
+        contract
+          .connect(signers.alice)
+          .updateEncryptedKeyResults(okrId, [encrypted.handles[0]], encrypted.handles[1], encrypted.handles[2], encrypted.inputProof, ""),
+      )
+        .to.emit(contract, "CheckInRecorded")
+        .withArgs(okrId, 1n, (timestamp: bigint) => timestamp > 0n);
+    });
+
+    it("stores the sealed note with its check-in", async function () {
+      const okrId = await submit(signers.alice, 20, TEAM_A);
+      await checkIn(signers.alice, okrId, 45, 6, "v1.sealed-note");
+
+      expect((await contract.getCheckIn(okrId, 0)).sealedNote).to.eq("");
+      expect((await contract.getCheckIn(okrId, 1)).sealedNote).to.eq("v1.sealed-note");
+    });
+
+    it("rejects notes over the length cap", async function () {
+      const okrId = await submit(signers.alice, 20, TEAM_A);
+      const limit = Number(await contract.MAX_NOTE_LENGTH());
+
+      await checkIn(signers.alice, okrId, 45, 6, "x".repeat(limit));
+      await expect(checkIn(signers.alice, okrId, 50, 6, "x".repeat(limit + 1))).to.be.revertedWith("Note too long");
+    });
+
+    it("requires one note per OKR of a batch", async function () {
+      const okrId = await submit(signers.alice, 20, TEAM_A);
+
+      const input = fhevm.createEncryptedInput(contractAddress, signers.alice.address);
+      input.add32(30).add32(5);
+      const encrypted = await input.encrypt();
+      await expect(
+        contract.connect(signers.alice).updateEncryptedKeyResultsBatch([okrId], [0], encrypted.handles, encrypted.inputProof, []),
+      ).to.be.revertedWith("Length mismatch");
+    });
+
+    it("records plain progress updates too", async function () {
+      const okrId = await submit(signers.alice, 20, TEAM_A);
+      await updateProgress(signers.alice, okrId, 35);
+
+      expect(await contract.getCheckInCount(okrId)).to.eq(2n);
+    });
+  });
+
+  describe("updateEncryptedProgress", function () {
+    it("replaces the progress of the owner's OKR", async function () {
+      const okrId = await submit(signers.alice, 10, TEAM_A);
+      await updateProgress(signers.alice, okrId, 75);
+
+      const okr = await contract.getEncryptedOKR(okrId);
+      expect(await fhevm.debugger.decryptEuint(FhevmType.euint32, okr.encryptedProgress)).to.eq(75n);
+    });
+
+    it("clamps an oversized update to 100", async function () {
+      const okrId = await submit(signers.alice, 10, TEAM_A);
+      await updateProgress(signers.alice, okrId, 250);
+
+      const okr = await contract.getEncryptedOKR(okrId);
+      expect(await fhevm.debugger.decryptEuint(FhevmType.euint32, okr.encryptedProgress)).to.eq(100n);
+      const [checkInProgress] = await contract.getCheckIn(okrId, 1);
+      expect(await fhevm.debugger.decryptEuint(FhevmType.euint32, checkInProgress)).to.eq(100n);
+    });
+
+    it("reverts for anyone but the owner", async function () {
+      const okrId = await submit(signers.alice, 10, TEAM_A);
+
+      const input = fhevm.createEncryptedInput(contractAddress, signers.bob.address);
+      input.add32(99);
+      const encrypted = await input.encrypt();
+
+      await expect(
+        contract.connect(signers.bob).updateEncryptedProgress(okrId, encrypted.handles[0], encrypted.inputProof),
+      ).to.be.revertedWith("Not OKR owner");
+    });
+  });
+
+  describe("recomputeTeamAggregate", function () {
+    it("sums the progress of every member", async function () {
+      await submit(signers.alice, 30, TEAM_A);
+      await submit(signers.bob, 45, TEAM_A);
+      await submit(signers.carol, 20, TEAM_A);
+
+      expect(await aggregateOf(TEAM_A)).to.eq(95n);
+    });
+
+    it("emits TeamAggregated", async function () {
+      await submit(signers.alice, 30, TEAM_A);
+
+      await expect(contract.recomputeTeamAggregate(TEAM_A)).to.emit(contract, "TeamAggregated");
+    });
+
+    it("yields zero for a team without OKRs", async function () {
+      expect(await aggregateOf(TEAM_B)).to.eq(0n);
+    });
+
+    it("keeps teams separate", async function () {
+      await submit(signers.alice, 30, TEAM_A);
+      await submit(signers.bob, 50, TEAM_B);
+
+      expect(await aggregateOf(TEAM_A)).to.eq(30n);
+      expect(await aggregateOf(TEAM_B)).to.eq(50n);
+    });
+  });
+
+  describe("findLatestEncryptedProgress", function () {
+    it("counts only the latest OKR of a member", async function () {
+      await submit(signers.alice, 10, TEAM_A);
+      await submit(signers.alice, 60, TEAM_A);
+      await submit(signers.bob, 5, TEAM_A);
+
+      expect(await aggregateOf(TEAM_A)).to.eq(65n);
+    });
+
+    it("ignores the member's OKRs in other teams", async function () {
+      await submit(signers.alice, 10, TEAM_A);
+      await submit(signers.alice, 80, TEAM_B);
+
+      expect(await aggregateOf(TEAM_A)).to.eq(10n);
+    });
+
+    it("picks up progress updates", async function () {
+      const okrId = await submit(signers.alice, 10, TEAM_A);
+      await submit(signers.bob, 20, TEAM_A);
+      await updateProgress(signers.alice, okrId, 70);
+
+      expect(await aggregateOf(TEAM_A)).to.eq(90n);
+    });
+  });
+
+  describe("owner decryption", function () {
+    it("lets the owner decrypt their stored ciphertexts", async function () {
+      const input = fhevm.createEncryptedInput(contractAddress, signers.alice.address);
+      input.add32(1234).add32(1).add32(40).add32(2).add32(40);
+      const encrypted = await input.encrypt();
+      await (
+        await contract
+          .connect(signers.alice)
+          .submitEncryptedOKR(
+            encrypted.handles[0],
+            encrypted.handles[1],
+            encrypted.handles[2],
+            encrypted.handles[3],
+            encrypted.handles.slice(4),
+            encrypted.inputProof,
+            TEAM_A,
+            0,
+            SEALED_RECORD,
+          )
+      ).wait();
+      const okrId = await contract.okrCount();
+
+      const okr = await contract.getEncryptedOKR(okrId);
+      expect(
+        await fhevm.userDecryptEuint(FhevmType.euint32, okr.encryptedProgress, contractAddress, signers.alice),
+      ).to.eq(40n);
+      expect(
+        await fhevm.userDecryptEuint(FhevmType.euint32, okr.encryptedObjective, contractAddress, signers.alice),
+      ).to.eq(1234n);
+      const [keyResult] = await contract.getEncryptedKeyResults(okrId);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint32, keyResult, contractAddress, signers.alice)).to.eq(40n);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint32, okr.encryptedWeight, contractAddress, signers.alice)).to.eq(
+        2n,
+      );
+    });
+
+    it("keeps the owner's access after a progress update", async function () {
+      const okrId = await submit(signers.alice, 20, TEAM_A);
+      await updateProgress(signers.alice, okrId, 65);
+
+      const okr = await contract.getEncryptedOKR(okrId);
+      expect(
+        await fhevm.userDecryptEuint(FhevmType.euint32, okr.encryptedProgress, contractAddress, signers.alice),
+      ).to.eq(65n);
+      const first = await contract.getCheckIn(okrId, 0);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint32, first.progress, contractAddress, signers.alice)).to.eq(20n);
+    });
+
+    it("does not let other members decrypt someone else's progress", async function () {
+      const okrId = await submit(signers.alice, 20, TEAM_A);
+
+      const okr = await contract.getEncryptedOKR(okrId);
+      let rejected = false;
+      try {
+        await fhevm.userDecryptEuint(FhevmType.euint32, okr.encryptedProgress, contractAddress, signers.bob);
+      } catch {
+        rejected = true;
+      }
+      expect(rejected).to.eq(true);
+    });
+  });
+
+  describe("edit and delete", function () {
+    it("replaces the objective commitment and key results on edit", async function () {
+      const okrId = await submit(signers.alice, 20, TEAM_A);
+
+      const input = fhevm.createEncryptedInput(contractAddress, signers.alice.address);
+      input.add32(5678).add32(2).add32(50).add32(3).add32(40).add32(60);
+      const encrypted = await input.encrypt();
+      await expect(
+        contract
+          .connect(signers.alice)
+          .editEncryptedOKR(
+            okrId,
+            encrypted.handles[0],
+            encrypted.handles[1],
+            encrypted.handles[2],
+            encrypted.handles[3],
+            encrypted.handles.slice(4),
+            encrypted.inputProof,
+            SEALED_RECORD,
+          ),
+      )
+        .to.emit(contract, "OKREdited")
+        .withArgs(okrId, (timestamp: bigint) => timestamp > 0n);
+
+      const okr = await contract.getEncryptedOKR(okrId);
+      expect(await fhevm.debugger.decryptEuint(FhevmType.euint32, okr.encryptedObjective)).to.eq(5678n);
+      expect(await fhevm.debugger.decryptEuint(FhevmType.euint32, okr.encryptedKeyResults)).to.eq(2n);
+      expect(await fhevm.debugger.decryptEuint(FhevmType.euint32, okr.encryptedProgress)).to.eq(50n);
+      expect(await fhevm.debugger.decryptEuint(FhevmType.euint32, okr.encryptedWeight)).to.eq(3n);
+      expect(await contract.getCheckInCount(okrId)).to.eq(2n);
+    });
+
+    it("lets only the owner edit or delete", async function () {
+      const okrId = await submit(signers.alice, 20, TEAM_A);
+
+      const input = fhevm.createEncryptedInput(contractAddress, signers.bob.address);
+      input.add32(1).add32(0).add32(0).add32(1);
+      const encrypted = await input.encrypt();
+      await expect(
+        contract
+          .connect(signers.bob)
+          .editEncryptedOKR(
+            okrId,
+            encrypted.handles[0],
+            encrypted.handles[1],
+            encrypted.handles[2],
+            encrypted.handles[3],
+            [],
+            encrypted.inputProof,
+            SEALED_RECORD,
+          ),
+      ).to.be.revertedWith("Not OKR owner");
+      await expect(contract.connect(signers.bob).deleteEncryptedOKR(okrId)).to.be.revertedWith("Not OKR owner");
+    });
+
+    it("removes a deleted OKR from its objective", async function () {
+      const objective = await createObjective("Ship v2", TEAM_A);
+      const deleted = await submit(signers.alice, 30, TEAM_A, objective);
+      await submit(signers.bob, 45, TEAM_A, objective);
+
+      await expect(contract.connect(signers.alice).deleteEncryptedOKR(deleted))
+        .to.emit(contract, "OKRDeleted")
+        .withArgs(deleted, signers.alice.address);
+
+      expect((await contract.getEncryptedOKR(deleted)).owner).to.eq(ethers.ZeroAddress);
+      expect(await contract.getCheckInCount(deleted)).to.eq(0n);
+      const [, okrChildren] = await contract.getObjectiveChildCounts(objective);
+      expect(okrChildren).to.eq(1n);
+      expect(await objectiveAggregateOf(objective)).to.eq(45n);
+    });
+
+    it("falls back to the member's previous OKR in the team aggregate", async function () {
+      await submit(signers.alice, 30, TEAM_A);
+      const latest = await submit(signers.alice, 80, TEAM_A);
+      expect(await aggregateOf(TEAM_A)).to.eq(80n);
+
+      await (await contract.connect(signers.alice).deleteEncryptedOKR(latest)).wait();
+      expect(await aggregateOf(TEAM_A)).to.eq(30n);
+    });
+  });
+
+  describe("objective alignment", function () {
+    it("links team objectives under a company objective", async function () {
+      const company = await createObjective("Grow revenue", ethers.ZeroHash);
+      const team = await createObjective("Ship v2", TEAM_A, company);
+
+      expect((await contract.objectives(team)).parentId).to.eq(company);
+      expect((await contract.objectives(team)).sealedTitle).to.eq("Ship v2");
+      const [objectiveChildren] = await contract.getObjectiveChildCounts(company);
+      expect(objectiveChildren).to.eq(1n);
+    });
+
+    it("lets only the company admin create company objectives", async function () {
+      await expect(contract.connect(signers.alice).createObjective("Grow revenue", ethers.ZeroHash, 0)).to.be.revertedWith(
+        "Not company admin",
+      );
+    });
+
+    it("lets only the team admin create team objectives under company objectives", async function () {
+      const team = await createObjective("Ship v2", TEAM_A);
+
+      await expect(contract.connect(signers.alice).createObjective("Other", TEAM_A, 0)).to.be.revertedWith("Not team admin");
+      await expect(createObjective("Nested", TEAM_B, team)).to.be.revertedWith("Parent must be a company objective");
+    });
+
+    it("rejects aligning to another team's objective", async function () {
+      const objective = await createObjective("Ship v2", TEAM_B);
+      await expect(submit(signers.alice, 10, TEAM_A, objective)).to.be.revertedWith("Objective not in team");
+    });
+
+    it("sums only the OKRs aligned to a team objective", async function () {
+      const objective = await createObjective("Ship v2", TEAM_A);
+      await submit(signers.alice, 30, TEAM_A, objective);
+      await submit(signers.bob, 45, TEAM_A, objective);
+      await submit(signers.carol, 20, TEAM_A);
+
+      expect(await objectiveAggregateOf(objective)).to.eq(75n);
+      const [, okrChildren] = await contract.getObjectiveChildCounts(objective);
+      expect(okrChildren).to.eq(2n);
+    });
+
+    it("rolls aligned OKRs of every team up to the company objective", async function () {
+      const company = await createObjective("Grow revenue", ethers.ZeroHash);
+      const teamA = await createObjective("Ship v2", TEAM_A, company);
+      const teamB = await createObjective("Close deals", TEAM_B, company);
+      await submit(signers.alice, 30, TEAM_A, teamA);
+      await submit(signers.bob, 50, TEAM_B, teamB);
+
+      expect(await objectiveAggregateOf(company)).to.eq(80n);
+      expect((await contract.teamAggregates(await contract.objectiveAggregateKey(company))).contributors).to.eq(2n);
+    });
+
+    it("decrypts an objective aggregate for members of an aligned team", async function () {
+      const company = await createObjective("Grow revenue", ethers.ZeroHash);
+      const objective = await createObjective("Ship v2", TEAM_A, company);
+      await submit(signers.alice, 40, TEAM_A, objective);
+      await submit(signers.bob, 20, TEAM_A, objective);
+      await submit(signers.carol, 30, TEAM_A, objective);
+      await (await contract.configurePrivacyBudget(ethers.ZeroHash, 1000n, 5000n)).wait();
+      await (await contract.recomputeObjectiveAggregate(company)).wait();
+
+      await (await contract.connect(signers.bob).requestObjectiveAggregateDecryption(company, TEAM_A)).wait();
+      await fhevm.awaitDecryptionOracle();
+
+      const key = await contract.objectiveAggregateKey(company);
+      const events = await contract.queryFilter(contract.filters.AggregateDecrypted(key));
+      expect(events).to.have.length(1);
+      expect(events[0].args.clearValue).to.be.lte(900n);
+    });
+
+    it("refuses objective reveals until the owning team configures a privacy budget", async function () {
+      const company = await createObjective("Grow revenue", ethers.ZeroHash);
+      const objective = await createObjective("Ship v2", TEAM_A, company);
+      for (const signer of [signers.alice, signers.bob, signers.carol]) {
+        await submit(signer, 30, TEAM_A, objective);
+      }
+      await (await contract.recomputeObjectiveAggregate(objective)).wait();
+      await (await contract.recomputeObjectiveAggregate(company)).wait();
+
+      // exact team sums minus exact objective sums would single out whoever is not aligned
+      await expect(contract.requestObjectiveAggregateDecryption(objective, TEAM_A)).to.be.revertedWith(
+        "Privacy budget required",
+      );
+      await expect(contract.requestObjectiveAggregateDecryption(company, TEAM_A)).to.be.revertedWith(
+        "Privacy budget required",
+      );
+
+      await (await contract.configurePrivacyBudget(TEAM_A, 1000n, 5000n)).wait();
+      await expect(contract.requestObjectiveAggregateDecryption(objective, TEAM_A)).to.emit(
+        contract,
+        "DecryptionRequested",
+      );
+      // the team's budget does not cover the company objective above it
+      await expect(contract.requestObjectiveAggregateDecryption(company, TEAM_A)).to.be.revertedWith(
+        "Privacy budget required",
+      );
+    });
+
+    it("refuses objective decryption through an unrelated team", async function () {
+      const objective = await createObjective("Ship v2", TEAM_A);
+      await expect(
+        contract.connect(signers.alice).requestObjectiveAggregateDecryption(objective, TEAM_B),
+      ).to.be.revertedWith("Objective not in team");
+    });
+  });
+
+  describe("team aggregate decryption", function () {
+    it("is limited to team members", async function () {
+      const outsider = (await ethers.getSigners())[4];
+      await expect(contract.connect(outsider).requestTeamAggregateDecryption(TEAM_A)).to.be.revertedWith(
+        "Not team member",
+      );
+    });
+
+    it("reverts when no aggregate was computed", async function () {
+      await expect(contract.requestTeamAggregateDecryption(TEAM_A)).to.be.revertedWith("No aggregate");
+    });
+
+    it("emits DecryptionRequested and then AggregateDecrypted with the clear sum", async function () {
+      await submit(signers.alice, 25, TEAM_A);
+      await submit(signers.bob, 35, TEAM_A);
+      await submit(signers.carol, 20, TEAM_A);
+      await (await contract.recomputeTeamAggregate(TEAM_A)).wait();
+
+      await expect(contract.requestTeamAggregateDecryption(TEAM_A)).to.emit(contract, "DecryptionRequested");
+
+      await fhevm.awaitDecryptionOracle();
+
+      const events = await contract.queryFilter(contract.filters.AggregateDecrypted(TEAM_A));
+      expect(events.length).to.eq(1);
+      expect(events[0].args.clearValue).to.eq(80n);
+    });
+
+    it("marks the aggregate pending until the oracle answers, then stores the verified sum", async function () {
+      await submit(signers.alice, 25, TEAM_A);
+      await submit(signers.bob, 35, TEAM_A);
+      await submit(signers.carol, 20, TEAM_A);
+      await (await contract.recomputeTeamAggregate(TEAM_A)).wait();
+      const computedAt = (await contract.teamAggregates(TEAM_A)).lastUpdated;
+
+      await expect(contract.requestTeamAggregateDecryption(TEAM_A))
+        .to.emit(contract, "DecryptionRequested")
+        .withArgs(anyValue, TEAM_A);
+      expect(await contract.decryptionPending(TEAM_A)).to.eq(true);
+      expect((await contract.revealedAggregates(TEAM_A)).revealedAt).to.eq(0n);
+
+      await fhevm.awaitDecryptionOracle();
+
+      expect(await contract.decryptionPending(TEAM_A)).to.eq(false);
+      const revealed = await contract.revealedAggregates(TEAM_A);
+      expect(revealed.clearSum).to.eq(80n);
+      expect(revealed.contributors).to.eq(3n);
+      expect(revealed.computedAt).to.eq(computedAt);
+      expect(revealed.revealedAt).to.be.gte(computedAt);
+    });
+
+    it("replaces the stored value when a recomputed aggregate is revealed", async function () {
+      await submit(signers.alice, 25, TEAM_A);
+      await submit(signers.bob, 35, TEAM_A);
+      await submit(signers.carol, 20, TEAM_A);
+      await (await contract.recomputeTeamAggregate(TEAM_A)).wait();
+      await (await contract.requestTeamAggregateDecryption(TEAM_A)).wait();
+      await fhevm.awaitDecryptionOracle();
+
+      await time.increaseTo(await contract.nextRevealAt(TEAM_A));
+      await submit(signers.alice, 45, TEAM_A);
+      await submit(signers.bob, 15, TEAM_A);
+      await submit(signers.carol, 40, TEAM_A);
+      await (await contract.recomputeTeamAggregate(TEAM_A)).wait();
+      await (await contract.requestTeamAggregateDecryption(TEAM_A)).wait();
+      await fhevm.awaitDecryptionOracle();
+
+      const revealed = await contract.revealedAggregates(TEAM_A);
+      expect(revealed.clearSum).to.eq(100n);
+      expect(revealed.contributors).to.eq(3n);
+    });
+
+    it("rejects callbacks for unknown requests", async function () {
+      await expect(contract.decryptTeamAggregate(42n, "0x", "0x")).to.be.revertedWith("Invalid team");
+    });
+  });
+
+  describe("minimum contributors", function () {
+    async function requestTeamDecryption() {
+      await (await contract.recomputeTeamAggregate(TEAM_A)).wait();
+      return contract.requestTeamAggregateDecryption(TEAM_A);
+    }
+
+    it("defaults to three distinct contributors", async function () {
+      expect(await contract.minContributors(TEAM_A)).to.eq(await contract.DEFAULT_MIN_CONTRIBUTORS());
+      expect(await contract.minContributors(TEAM_A)).to.eq(3n);
+    });
+
+    it("refuses decryption one contributor below the minimum", async function () {
+      await submit(signers.alice, 25, TEAM_A);
+      await submit(signers.bob, 35, TEAM_A);
+      await expect(requestTeamDecryption()).to.be.revertedWith("Not enough contributors");
+    });
+
+    it("allows decryption at exactly the minimum", async function () {
+      await submit(signers.alice, 25, TEAM_A);
+      await submit(signers.bob, 35, TEAM_A);
+      await submit(signers.carol, 20, TEAM_A);
+      await expect(requestTeamDecryption()).to.emit(contract, "DecryptionRequested");
+    });
+
+    it("follows the minimum the team admin sets", async function () {
+      await submit(signers.alice, 25, TEAM_A);
+      await submit(signers.bob, 35, TEAM_A);
+      await submit(signers.carol, 20, TEAM_A);
+
+      await expect(contract.setMinContributors(TEAM_A, 4n))
+        .to.emit(contract, "MinContributorsChanged")
+        .withArgs(TEAM_A, 4n);
+      await expect(requestTeamDecryption()).to.be.revertedWith("Not enough contributors");
+
+      await (await contract.setMinContributors(TEAM_A, 2n)).wait();
+      await expect(requestTeamDecryption()).to.emit(contract, "DecryptionRequested");
+      expect(await contract.minContributors(TEAM_B)).to.eq(3n);
+    });
+
+    it("rejects a minimum below the floor or from anyone but the team admin", async function () {
+      await expect(contract.setMinContributors(TEAM_A, 1n)).to.be.revertedWith("Minimum too low");
+      await expect(contract.connect(signers.alice).setMinContributors(TEAM_A, 5n)).to.be.revertedWith(
+        "Not team admin",
+      );
+    });
+
+    it("counts one person's aligned OKRs once", async function () {
+      const objective = await createObjective("Ship v2", TEAM_A);
+      await (await contract.configurePrivacyBudget(TEAM_A, 1000n, 5000n)).wait();
+      await submit(signers.alice, 10, TEAM_A, objective);
+      await submit(signers.alice, 20, TEAM_A, objective);
+      await submit(signers.bob, 30, TEAM_A, objective);
+      await (await contract.recomputeObjectiveAggregate(objective)).wait();
+
+      const aggregate = await contract.teamAggregates(await contract.objectiveAggregateKey(objective));
+      expect(aggregate.contributors).to.eq(3n);
+      expect(aggregate.distinctContributors).to.eq(2n);
+      await expect(contract.requestObjectiveAggregateDecryption(objective, TEAM_A)).to.be.revertedWith(
+        "Not enough contributors",
+      );
+
+      await submit(signers.carol, 40, TEAM_A, objective);
+      await (await contract.recomputeObjectiveAggregate(objective)).wait();
+      await expect(contract.requestObjectiveAggregateDecryption(objective, TEAM_A)).to.emit(
+        contract,
+        "DecryptionRequested",
+      );
+    });
+  });
+
+  describe("reveal epochs", function () {
+    async function revealTeam() {
+      await (await contract.recomputeTeamAggregate(TEAM_A)).wait();
+      return contract.requestTeamAggregateDecryption(TEAM_A);
+    }
+
+    beforeEach(async function () {
+      await submit(signers.alice, 25, TEAM_A);
+      await submit(signers.bob, 35, TEAM_A);
+      await submit(signers.carol, 20, TEAM_A);
+      await (await revealTeam()).wait();
+    });
+
+    it("opens the next window at the following epoch boundary", async function () {
+      const epoch = await contract.REVEAL_EPOCH();
+      const now = BigInt(await time.latest());
+      expect(await contract.nextRevealAt(TEAM_A)).to.eq((now / epoch + 1n) * epoch);
+    });
+
+    it("refuses a second decryption within the same epoch", async function () {
+      await submit(signers.alice, 45, TEAM_A);
+      await submit(signers.bob, 15, TEAM_A);
+      await submit(signers.carol, 40, TEAM_A);
+      await expect(revealTeam()).to.be.revertedWith("Reveal window closed");
+    });
+
+    it("needs the minimum number of changed contributors after a reveal", async function () {
+      await time.increaseTo(await contract.nextRevealAt(TEAM_A));
+      await expect(revealTeam()).to.be.revertedWith("Not enough changes");
+
+      await submit(signers.alice, 45, TEAM_A);
+      await submit(signers.bob, 15, TEAM_A);
+      await expect(revealTeam()).to.be.revertedWith("Not enough changes");
+      expect((await contract.teamAggregates(TEAM_A)).changedContributors).to.eq(2n);
+
+      await submit(signers.carol, 40, TEAM_A);
+      await expect(revealTeam()).to.emit(contract, "DecryptionRequested");
+    });
+
+    it("counts a deleted OKR as a change", async function () {
+      await (await contract.setMinContributors(TEAM_A, 2n)).wait();
+      await time.increaseTo(await contract.nextRevealAt(TEAM_A));
+
+      const deleted = await submit(signers.alice, 60, TEAM_A);
+      await (await contract.connect(signers.alice).deleteEncryptedOKR(deleted)).wait();
+      await expect(revealTeam()).to.be.revertedWith("Not enough changes");
+
+      await submit(signers.bob, 15, TEAM_A);
+      await expect(revealTeam()).to.emit(contract, "DecryptionRequested");
+    });
+
+    it("limits the decryption requests a team makes per epoch", async function () {
+      await time.increaseTo(await contract.nextRevealAt(TEAM_A));
+      const limit = Number(await contract.MAX_TEAM_REQUESTS_PER_EPOCH());
+      await (await contract.configurePrivacyBudget(TEAM_A, 1000n, 10000n)).wait();
+      for (let i = 0; i <= limit; i++) {
+        const objective = await createObjective(`Objective ${i}`, TEAM_A);
+        for (const signer of [signers.alice, signers.bob, signers.carol]) {
+          await submit(signer, 10, TEAM_A, objective);
+        }
+        await (await contract.recomputeObjectiveAggregate(objective)).wait();
+        const request = contract.requestObjectiveAggregateDecryption(objective, TEAM_A);
+        if (i < limit) {
+          await expect(request).to.emit(contract, "DecryptionRequested");
+        } else {
+          await expect(request).to.be.revertedWith("Rate limited");
+        }
+      }
+    });
+  });
+
+  describe("privacy budget", function () {
+    async function revealTeam() {
+      await (await contract.recomputeTeamAggregate(TEAM_A)).wait();
+      return contract.requestTeamAggregateDecryption(TEAM_A);
+    }
+
+    beforeEach(async function () {
+      await submit(signers.alice, 25, TEAM_A);
+      await submit(signers.bob, 35, TEAM_A);
+      await submit(signers.carol, 20, TEAM_A);
+    });
+
+    it("reveals exact sums until the team opts in", async function () {
+      await (await revealTeam()).wait();
+      await fhevm.awaitDecryptionOracle();
+
+      const revealed = await contract.revealedAggregates(TEAM_A);
+      expect(revealed.clearSum).to.eq(80n);
+      expect(revealed.noiseScale).to.eq(0n);
+    });
+
+    it("lets only the team admin configure a budget of at least one reveal", async function () {
+      await expect(contract.connect(signers.alice).configurePrivacyBudget(TEAM_A, 1000n, 5000n)).to.be.revertedWith(
+        "Not team admin",
+      );
+      await expect(contract.configurePrivacyBudget(TEAM_A, 5n, 5000n)).to.be.revertedWith("Epsilon too small");
+      await expect(contract.configurePrivacyBudget(TEAM_A, 1000n, 500n)).to.be.revertedWith("Budget below one reveal");
+
+      await expect(contract.configurePrivacyBudget(TEAM_A, 1000n, 5000n))
+        .to.emit(contract, "PrivacyBudgetConfigured")
+        .withArgs(TEAM_A, 1000n, 5000n);
+    });
+
+    it("scales the noise with the sensitivity over epsilon", async function () {
+      // 100 * ln(2) / 1 and / 0.5, rounded up
+      expect(await contract.noiseScaleFor(1000n, 100n)).to.eq(70n);
+      expect(await contract.noiseScaleFor(500n, 100n)).to.eq(139n);
+      expect(await contract.noiseScaleFor(200n, 1n)).to.eq(4n);
+    });
+
+    it("reveals a noisy sum within the possible range and spends the budget", async function () {
+      await (await contract.configurePrivacyBudget(TEAM_A, 1000n, 5000n)).wait();
+      await (await revealTeam()).wait();
+      await fhevm.awaitDecryptionOracle();
+
+      // the sum, its weight total and the three bucket counts share epsilon 1 equally
+      const revealed = await contract.revealedAggregates(TEAM_A);
+      expect(revealed.noiseScale).to.eq(await contract.noiseScaleFor(200n, 300n));
+      expect(revealed.revealedAt).to.not.eq(0n);
+      expect(revealed.clearSum).to.be.lte(900n);
+      expect(revealed.weightTotal).to.be.lte(9n);
+      expect((await contract.privacyBudgets(TEAM_A)).spentEpsilon).to.eq(1000n);
+
+      const distribution = await contract.revealedDistributions(TEAM_A);
+      expect(distribution.noiseScale).to.eq(await contract.noiseScaleFor(200n, 1n));
+      // the member count is public already and revealed exactly
+      expect(distribution.count).to.eq(3n);
+    });
+
+    it("refuses reveals once the budget is spent", async function () {
+      await (await contract.configurePrivacyBudget(TEAM_A, 1000n, 1000n)).wait();
+      await (await revealTeam()).wait();
+
+      await time.increaseTo(await contract.nextRevealAt(TEAM_A));
+      await submit(signers.alice, 45, TEAM_A);
+      await submit(signers.bob, 15, TEAM_A);
+      await submit(signers.carol, 40, TEAM_A);
+      await expect(revealTeam()).to.be.revertedWith("Privacy budget exhausted");
+
+      // retuning cannot buy more reveals
+      await expect(contract.configurePrivacyBudget(TEAM_A, 1000n, 2000n)).to.be.revertedWith("Budget cannot grow");
+      await (await contract.configurePrivacyBudget(TEAM_A, 500n, 1000n)).wait();
+      await expect(revealTeam()).to.be.revertedWith("Privacy budget exhausted");
+    });
+
+    it("lets the admin lower the total but never raise it", async function () {
+      await (await contract.configurePrivacyBudget(TEAM_A, 1000n, 5000n)).wait();
+      await expect(contract.configurePrivacyBudget(TEAM_A, 1000n, 5001n)).to.be.revertedWith("Budget cannot grow");
+
+      await (await contract.configurePrivacyBudget(TEAM_A, 1000n, 3000n)).wait();
+      expect((await contract.privacyBudgets(TEAM_A)).totalEpsilon).to.eq(3000n);
+      await expect(contract.configurePrivacyBudget(TEAM_A, 1000n, 5000n)).to.be.revertedWith("Budget cannot grow");
+    });
+  });
+
+  describe("company objective privacy budget", function () {
+    let company: bigint;
+
+    async function revealCompany() {
+      await (await contract.recomputeObjectiveAggregate(company)).wait();
+      return contract.connect(signers.alice).requestObjectiveAggregateDecryption(company, TEAM_A);
+    }
+
+    beforeEach(async function () {
+      company = await createObjective("Grow revenue", ethers.ZeroHash);
+      const objective = await createObjective("Ship v2", TEAM_A, company);
+      await submit(signers.alice, 40, TEAM_A, objective);
+      await submit(signers.bob, 20, TEAM_A, objective);
+      await submit(signers.carol, 30, TEAM_A, objective);
+    });
+
+    it("is configured by the company admin alone", async function () {
+      await expect(contract.connect(signers.alice).configurePrivacyBudget(ethers.ZeroHash, 1000n, 1000n)).to.be.revertedWith(
+        "Not company admin",
+      );
+      await expect(contract.configurePrivacyBudget(ethers.ZeroHash, 1000n, 1000n))
+        .to.emit(contract, "PrivacyBudgetConfigured")
+        .withArgs(ethers.ZeroHash, 1000n, 1000n);
+    });
+
+    it("adds noise to company objective reveals and refuses them once spent", async function () {
+      await (await contract.configurePrivacyBudget(ethers.ZeroHash, 1000n, 1000n)).wait();
+      await (await revealCompany()).wait();
+      await fhevm.awaitDecryptionOracle();
+
+      // the sum and its weight total share epsilon 1; the aligned team's own budget is untouched
+      const key = await contract.objectiveAggregateKey(company);
+      const revealed = await contract.revealedAggregates(key);
+      expect(revealed.noiseScale).to.eq(await contract.noiseScaleFor(500n, 300n));
+      expect(revealed.clearSum).to.be.lte(900n);
+      expect((await contract.privacyBudgets(ethers.ZeroHash)).spentEpsilon).to.eq(1000n);
+      expect((await contract.privacyBudgets(TEAM_A)).spentEpsilon).to.eq(0n);
+
+      await time.increaseTo(await contract.nextRevealAt(key));
+      const objective = company + 1n;
+      await submit(signers.alice, 45, TEAM_A, objective);
+      await submit(signers.bob, 15, TEAM_A, objective);
+      await submit(signers.carol, 50, TEAM_A, objective);
+      await expect(revealCompany()).to.be.revertedWith("Privacy budget exhausted");
+    });
+  });
+
+  describe("team distribution", function () {
+    async function distributionOf(teamId: string) {
+      await (await contract.recomputeTeamAggregate(teamId)).wait();
+      const counts = await contract.getEncryptedDistribution(teamId);
+      const clear: bigint[] = [];
+      for (const handle of counts) {
+        clear.push(await fhevm.debugger.decryptEuint(FhevmType.euint32, handle));
+      }
+      return clear;
+    }
+
+    it("counts members below each bucket bound", async function () {
+      await submit(signers.deployer, 10, TEAM_A);
+      await submit(signers.alice, 30, TEAM_A);
+      await submit(signers.bob, 60, TEAM_A);
+      await submit(signers.carol, 80, TEAM_A);
+
+      expect(await distributionOf(TEAM_A)).to.deep.eq([1n, 2n, 3n]);
+    });
+
+    it("puts a value on a bound into the bucket above it", async function () {
+      await submit(signers.alice, 24, TEAM_A);
+      await submit(signers.bob, 25, TEAM_A);
+      await submit(signers.carol, 75, TEAM_A);
+
+      expect(await distributionOf(TEAM_A)).to.deep.eq([1n, 2n, 2n]);
+    });
+
+    it("is revealed together with the team sum", async function () {
+      await submit(signers.alice, 10, TEAM_A);
+      await submit(signers.bob, 40, TEAM_A);
+      await submit(signers.carol, 90, TEAM_A);
+      await (await contract.recomputeTeamAggregate(TEAM_A)).wait();
+      await (await contract.requestTeamAggregateDecryption(TEAM_A)).wait();
+      await fhevm.awaitDecryptionOracle();
+
+      expect((await contract.revealedAggregates(TEAM_A)).clearSum).to.eq(140n);
+      const distribution = await contract.revealedDistributions(TEAM_A);
+      expect([distribution.below25, distribution.below50, distribution.below75, distribution.count]).to.deep.eq([
+        1n,
+        2n,
+        2n,
+        3n,
+      ]);
+      expect(distribution.noiseScale).to.eq(0n);
+    });
+
+    it("counts members whose latest check-in falls in the cycle", async function () {
+      const aliceOkr = await submit(signers.alice, 10, TEAM_A);
+      await submit(signers.bob, 40, TEAM_A);
+      const cycleStart = BigInt(await time.latest()) + 1n;
+
+      expect(await contract.checkedInSince(TEAM_A, cycleStart)).to.eq(0n);
+      await updateProgress(signers.alice, aliceOkr, 30);
+      await submit(signers.carol, 50, TEAM_A);
+      expect(await contract.checkedInSince(TEAM_A, cycleStart)).to.eq(2n);
+    });
+  });
+
+  describe("weighted aggregation", function () {
+    async function weightTotalOf(key: string) {
+      return fhevm.debugger.decryptEuint(FhevmType.euint32, await contract.getEncryptedWeightTotal(key));
+    }
+
+    it("weights each member's progress by the priority of their OKR", async function () {
+      await submit(signers.alice, 30, TEAM_A, 0n, 1);
+      await submit(signers.bob, 60, TEAM_A, 0n, 3);
+      await submit(signers.carol, 90, TEAM_A, 0n, 2);
+
+      expect(await aggregateOf(TEAM_A)).to.eq(390n);
+      expect(await weightTotalOf(TEAM_A)).to.eq(6n);
+    });
+
+    it("clamps priorities to the supported range", async function () {
+      const low = await submit(signers.alice, 40, TEAM_A, 0n, 0);
+      const high = await submit(signers.bob, 40, TEAM_A, 0n, 50);
+
+      expect(
+        await fhevm.debugger.decryptEuint(FhevmType.euint32, (await contract.getEncryptedOKR(low)).encryptedWeight),
+      ).to.eq(1n);
+      expect(
+        await fhevm.debugger.decryptEuint(FhevmType.euint32, (await contract.getEncryptedOKR(high)).encryptedWeight),
+      ).to.eq(await contract.MAX_PRIORITY());
+      expect(await aggregateOf(TEAM_A)).to.eq(160n);
+    });
+
+    it("weights objective aggregates the same way", async function () {
+      const objective = await createObjective("Ship v2", TEAM_A);
+      await submit(signers.alice, 50, TEAM_A, objective, 2);
+      await submit(signers.bob, 20, TEAM_A, objective, 1);
+
+      expect(await objectiveAggregateOf(objective)).to.eq(120n);
+      expect(await weightTotalOf(await contract.objectiveAggregateKey(objective))).to.eq(3n);
+    });
+
+    it("reveals the weighted sum with its weight total", async function () {
+      await submit(signers.alice, 20, TEAM_A, 0n, 3);
+      await submit(signers.bob, 50, TEAM_A, 0n, 1);
+      await submit(signers.carol, 80, TEAM_A, 0n, 1);
+      await (await contract.recomputeTeamAggregate(TEAM_A)).wait();
+      await (await contract.requestTeamAggregateDecryption(TEAM_A)).wait();
+      await fhevm.awaitDecryptionOracle();
+
+      const revealed = await contract.revealedAggregates(TEAM_A);
+      expect(revealed.clearSum).to.eq(190n);
+      expect(revealed.weightTotal).to.eq(5n);
+      expect(revealed.contributors).to.eq(3n);
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { UniversalAdapter, UniversalAdapter__factory } from "../types";
+
+const encode = (value: unknown) => ethers.toUtf8Bytes(JSON.stringify(value));
+
+describe("UniversalAdapter", function () {
+  let deployer: HardhatEthersSigner;
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let contract: UniversalAdapter;
+
+  before(async function () {
+    [deployer, alice, bob] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    const factory = (await ethers.getContractFactory("UniversalAdapter")) as UniversalAdapter__factory;
+    contract = (await factory.deploy()) as UniversalAdapter;
+  });
+
+  it("bumps the version on every write", async function () {
+    expect(await contract.getVersion(deployer.address, "okr_1")).to.eq(0n);
+    await (await contract.setData("okr_1", encode({ status: "active" }))).wait();
+    await (await contract.setData("okr_1", encode({ status: "archived" }))).wait();
+    expect(await contract.getVersion(deployer.address, "okr_1")).to.eq(2n);
+  });
+
+  it("writes a record and its index in one transaction", async function () {
+    const tx = await contract
+      .connect(alice)
+      .setDataAtomic(["okr_1", "okr_keys_alice"], [encode({ owner: "alice" }), encode(["1"])], [0, 0]);
+    await expect(tx).to.emit(contract, "DataStored").withArgs(alice.address, "okr_keys_alice", ethers.hexlify(encode(["1"])));
+
+    expect(ethers.toUtf8String(await contract.getData(alice.address, "okr_keys_alice"))).to.eq('["1"]');
+    expect(await contract.getVersion(alice.address, "okr_1")).to.eq(1n);
+  });
+
+  it("keeps every account's keys apart", async function () {
+    await (await contract.connect(alice).setData("okr_keys_alice", encode(["1"]))).wait();
+    await (await contract.connect(bob).setData("okr_keys_alice", encode(["2"]))).wait();
+
+    expect(ethers.toUtf8String(await contract.getData(alice.address, "okr_keys_alice"))).to.eq('["1"]');
+    expect(await contract.getVersion(alice.address, "okr_keys_alice")).to.eq(1n);
+    expect(ethers.toUtf8String(await contract.getData(bob.address, "okr_keys_alice"))).to.eq('["2"]');
+  });
+
+  it("rejects a stale index write and leaves every key untouched", async function () {
+    await (await contract.setDataAtomic(["okr_1", "okr_keys_alice"], [encode({}), encode(["1"])], [0, 0])).wait();
+
+    // a second tab still holding version 0 of the index
+    await expect(
+      contract.setDataAtomic(["okr_2", "okr_keys_alice"], [encode({}), encode(["2"])], [0, 0])
+    ).to.be.revertedWith("Stale version");
+
+    expect(await contract.getData(deployer.address, "okr_2")).to.eq("0x");
+    expect(ethers.toUtf8String(await contract.getData(deployer.address, "okr_keys_alice"))).to.eq('["1"]');
+  });
+
+  it("refuses to overwrite an existing record when creating", async function () {
+    await (await contract.setData("okr_1", encode({}))).wait();
+    await expect(contract.setDataAtomic(["okr_1"], [encode({})], [0])).to.be.revertedWith("Stale version");
+  });
+
+  it("rejects mismatched argument lengths", async function () {
+    await expect(contract.setDataAtomic(["okr_1"], [], [0])).to.be.revertedWith("Length mismatch");
+  });
+});
@@ -0,0 +1,7 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type * as config from "./config";
+export type { config };
+import type * as lib from "./lib";
+export type { lib };
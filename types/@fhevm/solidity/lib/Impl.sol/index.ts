@@ -0,0 +1,6 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export type { IACL } from "./IACL";
+export type { IFHEVMExecutor } from "./IFHEVMExecutor";
+export type { IInputVerifier } from "./IInputVerifier";
@@ -0,0 +1,7 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type * as fheSol from "./FHE.sol";
+export type { fheSol };
+import type * as implSol from "./Impl.sol";
+export type { implSol };
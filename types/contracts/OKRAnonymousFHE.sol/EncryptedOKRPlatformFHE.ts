@@ -0,0 +1,2036 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../../common";
+
+export interface EncryptedOKRPlatformFHEInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "DEFAULT_MIN_CONTRIBUTORS"
+      | "MAX_KEY_RESULTS"
+      | "MAX_NOTE_LENGTH"
+      | "MAX_PRIORITY"
+      | "MAX_SEALED_LENGTH"
+      | "MAX_TEAM_REQUESTS_PER_EPOCH"
+      | "MIN_CONTRIBUTORS_FLOOR"
+      | "MIN_EPSILON_PER_REVEAL"
+      | "PROGRESS_SENSITIVITY"
+      | "REVEAL_EPOCH"
+      | "addInvite"
+      | "allowMember"
+      | "checkedInSince"
+      | "companyAdmin"
+      | "configurePrivacyBudget"
+      | "createObjective"
+      | "createTeam"
+      | "decryptTeamAggregate"
+      | "decryptTeamDistribution"
+      | "decryptionPending"
+      | "deleteEncryptedOKR"
+      | "editEncryptedOKR"
+      | "encryptedOkrs"
+      | "getCheckIn"
+      | "getCheckInCount"
+      | "getEncryptedAggregate"
+      | "getEncryptedDistribution"
+      | "getEncryptedKeyResults"
+      | "getEncryptedOKR"
+      | "getEncryptedWeightTotal"
+      | "getObjectiveChildCounts"
+      | "heldKey"
+      | "inviteHashFor"
+      | "isMemberOf"
+      | "joinTeam"
+      | "minContributors"
+      | "nextRevealAt"
+      | "noiseScaleFor"
+      | "objectiveAggregateKey"
+      | "objectiveCount"
+      | "objectives"
+      | "okrCount"
+      | "okrRecords"
+      | "privacyBudgets"
+      | "protocolId"
+      | "recomputeObjectiveAggregate"
+      | "recomputeTeamAggregate"
+      | "requestObjectiveAggregateDecryption"
+      | "requestTeamAggregateDecryption"
+      | "revealedAggregates"
+      | "revealedDistributions"
+      | "setHeldKey"
+      | "setMinContributors"
+      | "setOKRRecord"
+      | "setTextKeyCheck"
+      | "shareCompanyKey"
+      | "submitEncryptedOKR"
+      | "teamAggregates"
+      | "teamCompanyKeys"
+      | "teams"
+      | "textKeyChecks"
+      | "updateEncryptedKeyResults"
+      | "updateEncryptedKeyResultsBatch"
+      | "updateEncryptedProgress"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "AggregateDecrypted"
+      | "CheckInRecorded"
+      | "DecryptionFulfilled"
+      | "DecryptionRequested"
+      | "KeyResultsUpdated"
+      | "MinContributorsChanged"
+      | "OKRDeleted"
+      | "OKREdited"
+      | "OKRSubmitted"
+      | "ObjectiveAggregated"
+      | "ObjectiveCreated"
+      | "PrivacyBudgetConfigured"
+      | "ProgressUpdated"
+      | "TeamAggregated"
+      | "TeamCreated"
+      | "TeamJoined"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "DEFAULT_MIN_CONTRIBUTORS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_KEY_RESULTS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_NOTE_LENGTH",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_PRIORITY",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_SEALED_LENGTH",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_TEAM_REQUESTS_PER_EPOCH",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MIN_CONTRIBUTORS_FLOOR",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MIN_EPSILON_PER_REVEAL",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "PROGRESS_SENSITIVITY",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "REVEAL_EPOCH",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "addInvite",
+    values: [BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "allowMember",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "checkedInSince",
+    values: [BytesLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "companyAdmin",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "configurePrivacyBudget",
+    values: [BytesLike, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createObjective",
+    values: [string, BytesLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createTeam",
+    values: [BytesLike, string, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "decryptTeamAggregate",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "decryptTeamDistribution",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "decryptionPending",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "deleteEncryptedOKR",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "editEncryptedOKR",
+    values: [
+      BigNumberish,
+      BytesLike,
+      BytesLike,
+      BytesLike,
+      BytesLike,
+      BytesLike[],
+      BytesLike,
+      string
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "encryptedOkrs",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getCheckIn",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getCheckInCount",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEncryptedAggregate",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEncryptedDistribution",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEncryptedKeyResults",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEncryptedOKR",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEncryptedWeightTotal",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getObjectiveChildCounts",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "heldKey", values: [BytesLike]): string;
+  encodeFunctionData(
+    functionFragment: "inviteHashFor",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isMemberOf",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "joinTeam",
+    values: [BytesLike, BytesLike, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "minContributors",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "nextRevealAt",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "noiseScaleFor",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "objectiveAggregateKey",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "objectiveCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "objectives",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "okrCount", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "okrRecords",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "privacyBudgets",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "recomputeObjectiveAggregate",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "recomputeTeamAggregate",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestObjectiveAggregateDecryption",
+    values: [BigNumberish, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestTeamAggregateDecryption",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revealedAggregates",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revealedDistributions",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setHeldKey",
+    values: [BytesLike, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setMinContributors",
+    values: [BytesLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setOKRRecord",
+    values: [BigNumberish, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setTextKeyCheck",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "shareCompanyKey",
+    values: [BytesLike, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitEncryptedOKR",
+    values: [
+      BytesLike,
+      BytesLike,
+      BytesLike,
+      BytesLike,
+      BytesLike[],
+      BytesLike,
+      BytesLike,
+      BigNumberish,
+      string
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "teamAggregates",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "teamCompanyKeys",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(functionFragment: "teams", values: [BytesLike]): string;
+  encodeFunctionData(
+    functionFragment: "textKeyChecks",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "updateEncryptedKeyResults",
+    values: [BigNumberish, BytesLike[], BytesLike, BytesLike, BytesLike, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "updateEncryptedKeyResultsBatch",
+    values: [BigNumberish[], BigNumberish[], BytesLike[], BytesLike, string[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "updateEncryptedProgress",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "DEFAULT_MIN_CONTRIBUTORS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_KEY_RESULTS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_NOTE_LENGTH",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_PRIORITY",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_SEALED_LENGTH",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_TEAM_REQUESTS_PER_EPOCH",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MIN_CONTRIBUTORS_FLOOR",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MIN_EPSILON_PER_REVEAL",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "PROGRESS_SENSITIVITY",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "REVEAL_EPOCH",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "addInvite", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "allowMember",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "checkedInSince",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "companyAdmin",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "configurePrivacyBudget",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "createObjective",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "createTeam", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "decryptTeamAggregate",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "decryptTeamDistribution",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "decryptionPending",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "deleteEncryptedOKR",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "editEncryptedOKR",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "encryptedOkrs",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getCheckIn", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getCheckInCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEncryptedAggregate",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEncryptedDistribution",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEncryptedKeyResults",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEncryptedOKR",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEncryptedWeightTotal",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getObjectiveChildCounts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "heldKey", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "inviteHashFor",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "isMemberOf", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "joinTeam", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "minContributors",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "nextRevealAt",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "noiseScaleFor",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "objectiveAggregateKey",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "objectiveCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "objectives", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "okrCount", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "okrRecords", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "privacyBudgets",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "recomputeObjectiveAggregate",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "recomputeTeamAggregate",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestObjectiveAggregateDecryption",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestTeamAggregateDecryption",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "revealedAggregates",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "revealedDistributions",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "setHeldKey", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "setMinContributors",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setOKRRecord",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setTextKeyCheck",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "shareCompanyKey",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitEncryptedOKR",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "teamAggregates",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "teamCompanyKeys",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "teams", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "textKeyChecks",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "updateEncryptedKeyResults",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "updateEncryptedKeyResultsBatch",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "updateEncryptedProgress",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace AggregateDecryptedEvent {
+  export type InputTuple = [teamId: BytesLike, clearValue: BigNumberish];
+  export type OutputTuple = [teamId: string, clearValue: bigint];
+  export interface OutputObject {
+    teamId: string;
+    clearValue: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CheckInRecordedEvent {
+  export type InputTuple = [
+    id: BigNumberish,
+    index: BigNumberish,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [id: bigint, index: bigint, timestamp: bigint];
+  export interface OutputObject {
+    id: bigint;
+    index: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionFulfilledEvent {
+  export type InputTuple = [requestID: BigNumberish];
+  export type OutputTuple = [requestID: bigint];
+  export interface OutputObject {
+    requestID: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionRequestedEvent {
+  export type InputTuple = [requestId: BigNumberish, aggregateKey: BytesLike];
+  export type OutputTuple = [requestId: bigint, aggregateKey: string];
+  export interface OutputObject {
+    requestId: bigint;
+    aggregateKey: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace KeyResultsUpdatedEvent {
+  export type InputTuple = [
+    id: BigNumberish,
+    count: BigNumberish,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [id: bigint, count: bigint, timestamp: bigint];
+  export interface OutputObject {
+    id: bigint;
+    count: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MinContributorsChangedEvent {
+  export type InputTuple = [teamId: BytesLike, minimum: BigNumberish];
+  export type OutputTuple = [teamId: string, minimum: bigint];
+  export interface OutputObject {
+    teamId: string;
+    minimum: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OKRDeletedEvent {
+  export type InputTuple = [id: BigNumberish, owner: AddressLike];
+  export type OutputTuple = [id: bigint, owner: string];
+  export interface OutputObject {
+    id: bigint;
+    owner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OKREditedEvent {
+  export type InputTuple = [id: BigNumberish, timestamp: BigNumberish];
+  export type OutputTuple = [id: bigint, timestamp: bigint];
+  export interface OutputObject {
+    id: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OKRSubmittedEvent {
+  export type InputTuple = [
+    id: BigNumberish,
+    owner: AddressLike,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [id: bigint, owner: string, timestamp: bigint];
+  export interface OutputObject {
+    id: bigint;
+    owner: string;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ObjectiveAggregatedEvent {
+  export type InputTuple = [
+    objectiveId: BigNumberish,
+    aggregateKey: BytesLike,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    objectiveId: bigint,
+    aggregateKey: string,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    objectiveId: bigint;
+    aggregateKey: string;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ObjectiveCreatedEvent {
+  export type InputTuple = [
+    id: BigNumberish,
+    teamId: BytesLike,
+    parentId: BigNumberish
+  ];
+  export type OutputTuple = [id: bigint, teamId: string, parentId: bigint];
+  export interface OutputObject {
+    id: bigint;
+    teamId: string;
+    parentId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PrivacyBudgetConfiguredEvent {
+  export type InputTuple = [
+    teamId: BytesLike,
+    epsilonPerReveal: BigNumberish,
+    totalEpsilon: BigNumberish
+  ];
+  export type OutputTuple = [
+    teamId: string,
+    epsilonPerReveal: bigint,
+    totalEpsilon: bigint
+  ];
+  export interface OutputObject {
+    teamId: string;
+    epsilonPerReveal: bigint;
+    totalEpsilon: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProgressUpdatedEvent {
+  export type InputTuple = [id: BigNumberish, timestamp: BigNumberish];
+  export type OutputTuple = [id: bigint, timestamp: bigint];
+  export interface OutputObject {
+    id: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TeamAggregatedEvent {
+  export type InputTuple = [teamId: BytesLike, timestamp: BigNumberish];
+  export type OutputTuple = [teamId: string, timestamp: bigint];
+  export interface OutputObject {
+    teamId: string;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TeamCreatedEvent {
+  export type InputTuple = [teamId: BytesLike];
+  export type OutputTuple = [teamId: string];
+  export interface OutputObject {
+    teamId: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TeamJoinedEvent {
+  export type InputTuple = [teamId: BytesLike, memberCount: BigNumberish];
+  export type OutputTuple = [teamId: string, memberCount: bigint];
+  export interface OutputObject {
+    teamId: string;
+    memberCount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface EncryptedOKRPlatformFHE extends BaseContract {
+  connect(runner?: ContractRunner | null): EncryptedOKRPlatformFHE;
+  waitForDeployment(): Promise<this>;
+
+  interface: EncryptedOKRPlatformFHEInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  DEFAULT_MIN_CONTRIBUTORS: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_KEY_RESULTS: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_NOTE_LENGTH: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_PRIORITY: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_SEALED_LENGTH: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_TEAM_REQUESTS_PER_EPOCH: TypedContractMethod<[], [bigint], "view">;
+
+  MIN_CONTRIBUTORS_FLOOR: TypedContractMethod<[], [bigint], "view">;
+
+  MIN_EPSILON_PER_REVEAL: TypedContractMethod<[], [bigint], "view">;
+
+  PROGRESS_SENSITIVITY: TypedContractMethod<[], [bigint], "view">;
+
+  REVEAL_EPOCH: TypedContractMethod<[], [bigint], "view">;
+
+  addInvite: TypedContractMethod<
+    [teamId: BytesLike, codeHash: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  allowMember: TypedContractMethod<
+    [teamId: BytesLike, member: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  checkedInSince: TypedContractMethod<
+    [teamId: BytesLike, since: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  companyAdmin: TypedContractMethod<[], [string], "view">;
+
+  configurePrivacyBudget: TypedContractMethod<
+    [
+      teamId: BytesLike,
+      epsilonPerReveal: BigNumberish,
+      totalEpsilon: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  createObjective: TypedContractMethod<
+    [sealedTitle: string, teamId: BytesLike, parentId: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+
+  createTeam: TypedContractMethod<
+    [teamId: BytesLike, sealedName: string, sealedKey: string],
+    [void],
+    "nonpayable"
+  >;
+
+  decryptTeamAggregate: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  decryptTeamDistribution: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  decryptionPending: TypedContractMethod<[arg0: BytesLike], [boolean], "view">;
+
+  deleteEncryptedOKR: TypedContractMethod<
+    [okrId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  editEncryptedOKR: TypedContractMethod<
+    [
+      okrId: BigNumberish,
+      encryptedObjective: BytesLike,
+      encryptedKeyResultCount: BytesLike,
+      encryptedProgress: BytesLike,
+      encryptedPriority: BytesLike,
+      encryptedKeyResultProgress: BytesLike[],
+      inputProof: BytesLike,
+      sealedRecord: string
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  encryptedOkrs: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, string, string, string, string, bigint, string] & {
+        id: bigint;
+        owner: string;
+        encryptedObjective: string;
+        encryptedKeyResults: string;
+        encryptedProgress: string;
+        teamId: string;
+        timestamp: bigint;
+        encryptedWeight: string;
+      }
+    ],
+    "view"
+  >;
+
+  getCheckIn: TypedContractMethod<
+    [okrId: BigNumberish, index: BigNumberish],
+    [
+      [string, string, bigint, string] & {
+        progress: string;
+        confidence: string;
+        timestamp: bigint;
+        sealedNote: string;
+      }
+    ],
+    "view"
+  >;
+
+  getCheckInCount: TypedContractMethod<[okrId: BigNumberish], [bigint], "view">;
+
+  getEncryptedAggregate: TypedContractMethod<
+    [teamId: BytesLike],
+    [[string, bigint]],
+    "view"
+  >;
+
+  getEncryptedDistribution: TypedContractMethod<
+    [teamId: BytesLike],
+    [
+      [string, string, string] & {
+        below25: string;
+        below50: string;
+        below75: string;
+      }
+    ],
+    "view"
+  >;
+
+  getEncryptedKeyResults: TypedContractMethod<
+    [okrId: BigNumberish],
+    [string[]],
+    "view"
+  >;
+
+  getEncryptedOKR: TypedContractMethod<
+    [okrId: BigNumberish],
+    [
+      [bigint, string, string, string, string, bigint, string] & {
+        id: bigint;
+        owner: string;
+        encryptedObjective: string;
+        encryptedKeyResults: string;
+        encryptedProgress: string;
+        timestamp: bigint;
+        encryptedWeight: string;
+      }
+    ],
+    "view"
+  >;
+
+  getEncryptedWeightTotal: TypedContractMethod<
+    [key: BytesLike],
+    [string],
+    "view"
+  >;
+
+  getObjectiveChildCounts: TypedContractMethod<
+    [objectiveId: BigNumberish],
+    [[bigint, bigint] & { objectiveChildren: bigint; okrChildren: bigint }],
+    "view"
+  >;
+
+  heldKey: TypedContractMethod<[teamId: BytesLike], [string], "view">;
+
+  inviteHashFor: TypedContractMethod<
+    [inviteCode: BytesLike, member: AddressLike],
+    [string],
+    "view"
+  >;
+
+  isMemberOf: TypedContractMethod<[teamId: BytesLike], [boolean], "view">;
+
+  joinTeam: TypedContractMethod<
+    [teamId: BytesLike, inviteCode: BytesLike, sealedKey: string],
+    [void],
+    "nonpayable"
+  >;
+
+  minContributors: TypedContractMethod<[teamId: BytesLike], [bigint], "view">;
+
+  nextRevealAt: TypedContractMethod<[arg0: BytesLike], [bigint], "view">;
+
+  noiseScaleFor: TypedContractMethod<
+    [epsilon: BigNumberish, sensitivity: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  objectiveAggregateKey: TypedContractMethod<
+    [objectiveId: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  objectiveCount: TypedContractMethod<[], [bigint], "view">;
+
+  objectives: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, string, bigint, bigint] & {
+        id: bigint;
+        sealedTitle: string;
+        teamId: string;
+        parentId: bigint;
+        createdAt: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  okrCount: TypedContractMethod<[], [bigint], "view">;
+
+  okrRecords: TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+
+  privacyBudgets: TypedContractMethod<
+    [arg0: BytesLike],
+    [
+      [bigint, bigint, bigint] & {
+        epsilonPerReveal: bigint;
+        totalEpsilon: bigint;
+        spentEpsilon: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  recomputeObjectiveAggregate: TypedContractMethod<
+    [objectiveId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  recomputeTeamAggregate: TypedContractMethod<
+    [teamId: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  requestObjectiveAggregateDecryption: TypedContractMethod<
+    [objectiveId: BigNumberish, viaTeamId: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  requestTeamAggregateDecryption: TypedContractMethod<
+    [teamId: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  revealedAggregates: TypedContractMethod<
+    [arg0: BytesLike],
+    [
+      [bigint, bigint, bigint, bigint, bigint, bigint] & {
+        clearSum: bigint;
+        weightTotal: bigint;
+        contributors: bigint;
+        computedAt: bigint;
+        revealedAt: bigint;
+        noiseScale: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  revealedDistributions: TypedContractMethod<
+    [arg0: BytesLike],
+    [
+      [bigint, bigint, bigint, bigint, bigint, bigint] & {
+        below25: bigint;
+        below50: bigint;
+        below75: bigint;
+        count: bigint;
+        noiseScale: bigint;
+        revealedAt: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  setHeldKey: TypedContractMethod<
+    [teamId: BytesLike, sealedKey: string],
+    [void],
+    "nonpayable"
+  >;
+
+  setMinContributors: TypedContractMethod<
+    [teamId: BytesLike, minimum: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setOKRRecord: TypedContractMethod<
+    [okrId: BigNumberish, sealedRecord: string],
+    [void],
+    "nonpayable"
+  >;
+
+  setTextKeyCheck: TypedContractMethod<
+    [check: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  shareCompanyKey: TypedContractMethod<
+    [teamId: BytesLike, sealedCompanyKey: string],
+    [void],
+    "nonpayable"
+  >;
+
+  submitEncryptedOKR: TypedContractMethod<
+    [
+      encryptedObjective: BytesLike,
+      encryptedKeyResults: BytesLike,
+      encryptedProgress: BytesLike,
+      encryptedPriority: BytesLike,
+      encryptedKeyResultProgress: BytesLike[],
+      inputProof: BytesLike,
+      teamId: BytesLike,
+      objectiveId: BigNumberish,
+      sealedRecord: string
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  teamAggregates: TypedContractMethod<
+    [arg0: BytesLike],
+    [
+      [string, string, string, bigint, bigint, bigint, bigint] & {
+        idHash: string;
+        encryptedSum: string;
+        encryptedWeightTotal: string;
+        contributors: bigint;
+        distinctContributors: bigint;
+        changedContributors: bigint;
+        lastUpdated: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  teamCompanyKeys: TypedContractMethod<[arg0: BytesLike], [string], "view">;
+
+  teams: TypedContractMethod<
+    [arg0: BytesLike],
+    [
+      [string, string, bigint, bigint] & {
+        sealedName: string;
+        admin: string;
+        memberCount: bigint;
+        createdAt: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  textKeyChecks: TypedContractMethod<[arg0: AddressLike], [string], "view">;
+
+  updateEncryptedKeyResults: TypedContractMethod<
+    [
+      okrId: BigNumberish,
+      encryptedKeyResultProgress: BytesLike[],
+      encryptedProgress: BytesLike,
+      encryptedConfidence: BytesLike,
+      inputProof: BytesLike,
+      sealedNote: string
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  updateEncryptedKeyResultsBatch: TypedContractMethod<
+    [
+      okrIds: BigNumberish[],
+      keyResultCounts: BigNumberish[],
+      handles: BytesLike[],
+      inputProof: BytesLike,
+      sealedNotes: string[]
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  updateEncryptedProgress: TypedContractMethod<
+    [okrId: BigNumberish, encryptedProgress: BytesLike, inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "DEFAULT_MIN_CONTRIBUTORS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_KEY_RESULTS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_NOTE_LENGTH"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_PRIORITY"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_SEALED_LENGTH"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_TEAM_REQUESTS_PER_EPOCH"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MIN_CONTRIBUTORS_FLOOR"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MIN_EPSILON_PER_REVEAL"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "PROGRESS_SENSITIVITY"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "REVEAL_EPOCH"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "addInvite"
+  ): TypedContractMethod<
+    [teamId: BytesLike, codeHash: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "allowMember"
+  ): TypedContractMethod<
+    [teamId: BytesLike, member: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "checkedInSince"
+  ): TypedContractMethod<
+    [teamId: BytesLike, since: BigNumberish],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "companyAdmin"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "configurePrivacyBudget"
+  ): TypedContractMethod<
+    [
+      teamId: BytesLike,
+      epsilonPerReveal: BigNumberish,
+      totalEpsilon: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "createObjective"
+  ): TypedContractMethod<
+    [sealedTitle: string, teamId: BytesLike, parentId: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "createTeam"
+  ): TypedContractMethod<
+    [teamId: BytesLike, sealedName: string, sealedKey: string],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "decryptTeamAggregate"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "decryptTeamDistribution"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "decryptionPending"
+  ): TypedContractMethod<[arg0: BytesLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "deleteEncryptedOKR"
+  ): TypedContractMethod<[okrId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "editEncryptedOKR"
+  ): TypedContractMethod<
+    [
+      okrId: BigNumberish,
+      encryptedObjective: BytesLike,
+      encryptedKeyResultCount: BytesLike,
+      encryptedProgress: BytesLike,
+      encryptedPriority: BytesLike,
+      encryptedKeyResultProgress: BytesLike[],
+      inputProof: BytesLike,
+      sealedRecord: string
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "encryptedOkrs"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, string, string, string, string, bigint, string] & {
+        id: bigint;
+        owner: string;
+        encryptedObjective: string;
+        encryptedKeyResults: string;
+        encryptedProgress: string;
+        teamId: string;
+        timestamp: bigint;
+        encryptedWeight: string;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getCheckIn"
+  ): TypedContractMethod<
+    [okrId: BigNumberish, index: BigNumberish],
+    [
+      [string, string, bigint, string] & {
+        progress: string;
+        confidence: string;
+        timestamp: bigint;
+        sealedNote: string;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getCheckInCount"
+  ): TypedContractMethod<[okrId: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getEncryptedAggregate"
+  ): TypedContractMethod<[teamId: BytesLike], [[string, bigint]], "view">;
+  getFunction(
+    nameOrSignature: "getEncryptedDistribution"
+  ): TypedContractMethod<
+    [teamId: BytesLike],
+    [
+      [string, string, string] & {
+        below25: string;
+        below50: string;
+        below75: string;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getEncryptedKeyResults"
+  ): TypedContractMethod<[okrId: BigNumberish], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getEncryptedOKR"
+  ): TypedContractMethod<
+    [okrId: BigNumberish],
+    [
+      [bigint, string, string, string, string, bigint, string] & {
+        id: bigint;
+        owner: string;
+        encryptedObjective: string;
+        encryptedKeyResults: string;
+        encryptedProgress: string;
+        timestamp: bigint;
+        encryptedWeight: string;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getEncryptedWeightTotal"
+  ): TypedContractMethod<[key: BytesLike], [string], "view">;
+  getFunction(
+    nameOrSignature: "getObjectiveChildCounts"
+  ): TypedContractMethod<
+    [objectiveId: BigNumberish],
+    [[bigint, bigint] & { objectiveChildren: bigint; okrChildren: bigint }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "heldKey"
+  ): TypedContractMethod<[teamId: BytesLike], [string], "view">;
+  getFunction(
+    nameOrSignature: "inviteHashFor"
+  ): TypedContractMethod<
+    [inviteCode: BytesLike, member: AddressLike],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "isMemberOf"
+  ): TypedContractMethod<[teamId: BytesLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "joinTeam"
+  ): TypedContractMethod<
+    [teamId: BytesLike, inviteCode: BytesLike, sealedKey: string],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "minContributors"
+  ): TypedContractMethod<[teamId: BytesLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "nextRevealAt"
+  ): TypedContractMethod<[arg0: BytesLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "noiseScaleFor"
+  ): TypedContractMethod<
+    [epsilon: BigNumberish, sensitivity: BigNumberish],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "objectiveAggregateKey"
+  ): TypedContractMethod<[objectiveId: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "objectiveCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "objectives"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, string, bigint, bigint] & {
+        id: bigint;
+        sealedTitle: string;
+        teamId: string;
+        parentId: bigint;
+        createdAt: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "okrCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "okrRecords"
+  ): TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "privacyBudgets"
+  ): TypedContractMethod<
+    [arg0: BytesLike],
+    [
+      [bigint, bigint, bigint] & {
+        epsilonPerReveal: bigint;
+        totalEpsilon: bigint;
+        spentEpsilon: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "recomputeObjectiveAggregate"
+  ): TypedContractMethod<[objectiveId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "recomputeTeamAggregate"
+  ): TypedContractMethod<[teamId: BytesLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestObjectiveAggregateDecryption"
+  ): TypedContractMethod<
+    [objectiveId: BigNumberish, viaTeamId: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "requestTeamAggregateDecryption"
+  ): TypedContractMethod<[teamId: BytesLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "revealedAggregates"
+  ): TypedContractMethod<
+    [arg0: BytesLike],
+    [
+      [bigint, bigint, bigint, bigint, bigint, bigint] & {
+        clearSum: bigint;
+        weightTotal: bigint;
+        contributors: bigint;
+        computedAt: bigint;
+        revealedAt: bigint;
+        noiseScale: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "revealedDistributions"
+  ): TypedContractMethod<
+    [arg0: BytesLike],
+    [
+      [bigint, bigint, bigint, bigint, bigint, bigint] & {
+        below25: bigint;
+        below50: bigint;
+        below75: bigint;
+        count: bigint;
+        noiseScale: bigint;
+        revealedAt: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "setHeldKey"
+  ): TypedContractMethod<
+    [teamId: BytesLike, sealedKey: string],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setMinContributors"
+  ): TypedContractMethod<
+    [teamId: BytesLike, minimum: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setOKRRecord"
+  ): TypedContractMethod<
+    [okrId: BigNumberish, sealedRecord: string],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setTextKeyCheck"
+  ): TypedContractMethod<[check: BytesLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "shareCompanyKey"
+  ): TypedContractMethod<
+    [teamId: BytesLike, sealedCompanyKey: string],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "submitEncryptedOKR"
+  ): TypedContractMethod<
+    [
+      encryptedObjective: BytesLike,
+      encryptedKeyResults: BytesLike,
+      encryptedProgress: BytesLike,
+      encryptedPriority: BytesLike,
+      encryptedKeyResultProgress: BytesLike[],
+      inputProof: BytesLike,
+      teamId: BytesLike,
+      objectiveId: BigNumberish,
+      sealedRecord: string
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "teamAggregates"
+  ): TypedContractMethod<
+    [arg0: BytesLike],
+    [
+      [string, string, string, bigint, bigint, bigint, bigint] & {
+        idHash: string;
+        encryptedSum: string;
+        encryptedWeightTotal: string;
+        contributors: bigint;
+        distinctContributors: bigint;
+        changedContributors: bigint;
+        lastUpdated: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "teamCompanyKeys"
+  ): TypedContractMethod<[arg0: BytesLike], [string], "view">;
+  getFunction(
+    nameOrSignature: "teams"
+  ): TypedContractMethod<
+    [arg0: BytesLike],
+    [
+      [string, string, bigint, bigint] & {
+        sealedName: string;
+        admin: string;
+        memberCount: bigint;
+        createdAt: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "textKeyChecks"
+  ): TypedContractMethod<[arg0: AddressLike], [string], "view">;
+  getFunction(
+    nameOrSignature: "updateEncryptedKeyResults"
+  ): TypedContractMethod<
+    [
+      okrId: BigNumberish,
+      encryptedKeyResultProgress: BytesLike[],
+      encryptedProgress: BytesLike,
+      encryptedConfidence: BytesLike,
+      inputProof: BytesLike,
+      sealedNote: string
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "updateEncryptedKeyResultsBatch"
+  ): TypedContractMethod<
+    [
+      okrIds: BigNumberish[],
+      keyResultCounts: BigNumberish[],
+      handles: BytesLike[],
+      inputProof: BytesLike,
+      sealedNotes: string[]
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "updateEncryptedProgress"
+  ): TypedContractMethod<
+    [okrId: BigNumberish, encryptedProgress: BytesLike, inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  getEvent(
+    key: "AggregateDecrypted"
+  ): TypedContractEvent<
+    AggregateDecryptedEvent.InputTuple,
+    AggregateDecryptedEvent.OutputTuple,
+    AggregateDecryptedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CheckInRecorded"
+  ): TypedContractEvent<
+    CheckInRecordedEvent.InputTuple,
+    CheckInRecordedEvent.OutputTuple,
+    CheckInRecordedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionFulfilled"
+  ): TypedContractEvent<
+    DecryptionFulfilledEvent.InputTuple,
+    DecryptionFulfilledEvent.OutputTuple,
+    DecryptionFulfilledEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionRequested"
+  ): TypedContractEvent<
+    DecryptionRequestedEvent.InputTuple,
+    DecryptionRequestedEvent.OutputTuple,
+    DecryptionRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "KeyResultsUpdated"
+  ): TypedContractEvent<
+    KeyResultsUpdatedEvent.InputTuple,
+    KeyResultsUpdatedEvent.OutputTuple,
+    KeyResultsUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "MinContributorsChanged"
+  ): TypedContractEvent<
+    MinContributorsChangedEvent.InputTuple,
+    MinContributorsChangedEvent.OutputTuple,
+    MinContributorsChangedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OKRDeleted"
+  ): TypedContractEvent<
+    OKRDeletedEvent.InputTuple,
+    OKRDeletedEvent.OutputTuple,
+    OKRDeletedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OKREdited"
+  ): TypedContractEvent<
+    OKREditedEvent.InputTuple,
+    OKREditedEvent.OutputTuple,
+    OKREditedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OKRSubmitted"
+  ): TypedContractEvent<
+    OKRSubmittedEvent.InputTuple,
+    OKRSubmittedEvent.OutputTuple,
+    OKRSubmittedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ObjectiveAggregated"
+  ): TypedContractEvent<
+    ObjectiveAggregatedEvent.InputTuple,
+    ObjectiveAggregatedEvent.OutputTuple,
+    ObjectiveAggregatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ObjectiveCreated"
+  ): TypedContractEvent<
+    ObjectiveCreatedEvent.InputTuple,
+    ObjectiveCreatedEvent.OutputTuple,
+    ObjectiveCreatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PrivacyBudgetConfigured"
+  ): TypedContractEvent<
+    PrivacyBudgetConfiguredEvent.InputTuple,
+    PrivacyBudgetConfiguredEvent.OutputTuple,
+    PrivacyBudgetConfiguredEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProgressUpdated"
+  ): TypedContractEvent<
+    ProgressUpdatedEvent.InputTuple,
+    ProgressUpdatedEvent.OutputTuple,
+    ProgressUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TeamAggregated"
+  ): TypedContractEvent<
+    TeamAggregatedEvent.InputTuple,
+    TeamAggregatedEvent.OutputTuple,
+    TeamAggregatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TeamCreated"
+  ): TypedContractEvent<
+    TeamCreatedEvent.InputTuple,
+    TeamCreatedEvent.OutputTuple,
+    TeamCreatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TeamJoined"
+  ): TypedContractEvent<
+    TeamJoinedEvent.InputTuple,
+    TeamJoinedEvent.OutputTuple,
+    TeamJoinedEvent.OutputObject
+  >;
+
+  filters: {
+    "AggregateDecrypted(bytes32,uint32)": TypedContractEvent<
+      AggregateDecryptedEvent.InputTuple,
+      AggregateDecryptedEvent.OutputTuple,
+      AggregateDecryptedEvent.OutputObject
+    >;
+    AggregateDecrypted: TypedContractEvent<
+      AggregateDecryptedEvent.InputTuple,
+      AggregateDecryptedEvent.OutputTuple,
+      AggregateDecryptedEvent.OutputObject
+    >;
+
+    "CheckInRecorded(uint256,uint256,uint256)": TypedContractEvent<
+      CheckInRecordedEvent.InputTuple,
+      CheckInRecordedEvent.OutputTuple,
+      CheckInRecordedEvent.OutputObject
+    >;
+    CheckInRecorded: TypedContractEvent<
+      CheckInRecordedEvent.InputTuple,
+      CheckInRecordedEvent.OutputTuple,
+      CheckInRecordedEvent.OutputObject
+    >;
+
+    "DecryptionFulfilled(uint256)": TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+    DecryptionFulfilled: TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+
+    "DecryptionRequested(uint256,bytes32)": TypedContractEvent<
+      DecryptionRequestedEvent.InputTuple,
+      DecryptionRequestedEvent.OutputTuple,
+      DecryptionRequestedEvent.OutputObject
+    >;
+    DecryptionRequested: TypedContractEvent<
+      DecryptionRequestedEvent.InputTuple,
+      DecryptionRequestedEvent.OutputTuple,
+      DecryptionRequestedEvent.OutputObject
+    >;
+
+    "KeyResultsUpdated(uint256,uint256,uint256)": TypedContractEvent<
+      KeyResultsUpdatedEvent.InputTuple,
+      KeyResultsUpdatedEvent.OutputTuple,
+      KeyResultsUpdatedEvent.OutputObject
+    >;
+    KeyResultsUpdated: TypedContractEvent<
+      KeyResultsUpdatedEvent.InputTuple,
+      KeyResultsUpdatedEvent.OutputTuple,
+      KeyResultsUpdatedEvent.OutputObject
+    >;
+
+    "MinContributorsChanged(bytes32,uint256)": TypedContractEvent<
+      MinContributorsChangedEvent.InputTuple,
+      MinContributorsChangedEvent.OutputTuple,
+      MinContributorsChangedEvent.OutputObject
+    >;
+    MinContributorsChanged: TypedContractEvent<
+      MinContributorsChangedEvent.InputTuple,
+      MinContributorsChangedEvent.OutputTuple,
+      MinContributorsChangedEvent.OutputObject
+    >;
+
+    "OKRDeleted(uint256,address)": TypedContractEvent<
+      OKRDeletedEvent.InputTuple,
+      OKRDeletedEvent.OutputTuple,
+      OKRDeletedEvent.OutputObject
+    >;
+    OKRDeleted: TypedContractEvent<
+      OKRDeletedEvent.InputTuple,
+      OKRDeletedEvent.OutputTuple,
+      OKRDeletedEvent.OutputObject
+    >;
+
+    "OKREdited(uint256,uint256)": TypedContractEvent<
+      OKREditedEvent.InputTuple,
+      OKREditedEvent.OutputTuple,
+      OKREditedEvent.OutputObject
+    >;
+    OKREdited: TypedContractEvent<
+      OKREditedEvent.InputTuple,
+      OKREditedEvent.OutputTuple,
+      OKREditedEvent.OutputObject
+    >;
+
+    "OKRSubmitted(uint256,address,uint256)": TypedContractEvent<
+      OKRSubmittedEvent.InputTuple,
+      OKRSubmittedEvent.OutputTuple,
+      OKRSubmittedEvent.OutputObject
+    >;
+    OKRSubmitted: TypedContractEvent<
+      OKRSubmittedEvent.InputTuple,
+      OKRSubmittedEvent.OutputTuple,
+      OKRSubmittedEvent.OutputObject
+    >;
+
+    "ObjectiveAggregated(uint256,bytes32,uint256)": TypedContractEvent<
+      ObjectiveAggregatedEvent.InputTuple,
+      ObjectiveAggregatedEvent.OutputTuple,
+      ObjectiveAggregatedEvent.OutputObject
+    >;
+    ObjectiveAggregated: TypedContractEvent<
+      ObjectiveAggregatedEvent.InputTuple,
+      ObjectiveAggregatedEvent.OutputTuple,
+      ObjectiveAggregatedEvent.OutputObject
+    >;
+
+    "ObjectiveCreated(uint256,bytes32,uint256)": TypedContractEvent<
+      ObjectiveCreatedEvent.InputTuple,
+      ObjectiveCreatedEvent.OutputTuple,
+      ObjectiveCreatedEvent.OutputObject
+    >;
+    ObjectiveCreated: TypedContractEvent<
+      ObjectiveCreatedEvent.InputTuple,
+      ObjectiveCreatedEvent.OutputTuple,
+      ObjectiveCreatedEvent.OutputObject
+    >;
+
+    "PrivacyBudgetConfigured(bytes32,uint256,uint256)": TypedContractEvent<
+      PrivacyBudgetConfiguredEvent.InputTuple,
+      PrivacyBudgetConfiguredEvent.OutputTuple,
+      PrivacyBudgetConfiguredEvent.OutputObject
+    >;
+    PrivacyBudgetConfigured: TypedContractEvent<
+      PrivacyBudgetConfiguredEvent.InputTuple,
+      PrivacyBudgetConfiguredEvent.OutputTuple,
+      PrivacyBudgetConfiguredEvent.OutputObject
+    >;
+
+    "ProgressUpdated(uint256,uint256)": TypedContractEvent<
+      ProgressUpdatedEvent.InputTuple,
+      ProgressUpdatedEvent.OutputTuple,
+      ProgressUpdatedEvent.OutputObject
+    >;
+    ProgressUpdated: TypedContractEvent<
+      ProgressUpdatedEvent.InputTuple,
+      ProgressUpdatedEvent.OutputTuple,
+      ProgressUpdatedEvent.OutputObject
+    >;
+
+    "TeamAggregated(bytes32,uint256)": TypedContractEvent<
+      TeamAggregatedEvent.InputTuple,
+      TeamAggregatedEvent.OutputTuple,
+      TeamAggregatedEvent.OutputObject
+    >;
+    TeamAggregated: TypedContractEvent<
+      TeamAggregatedEvent.InputTuple,
+      TeamAggregatedEvent.OutputTuple,
+      TeamAggregatedEvent.OutputObject
+    >;
+
+    "TeamCreated(bytes32)": TypedContractEvent<
+      TeamCreatedEvent.InputTuple,
+      TeamCreatedEvent.OutputTuple,
+      TeamCreatedEvent.OutputObject
+    >;
+    TeamCreated: TypedContractEvent<
+      TeamCreatedEvent.InputTuple,
+      TeamCreatedEvent.OutputTuple,
+      TeamCreatedEvent.OutputObject
+    >;
+
+    "TeamJoined(bytes32,uint256)": TypedContractEvent<
+      TeamJoinedEvent.InputTuple,
+      TeamJoinedEvent.OutputTuple,
+      TeamJoinedEvent.OutputObject
+    >;
+    TeamJoined: TypedContractEvent<
+      TeamJoinedEvent.InputTuple,
+      TeamJoinedEvent.OutputTuple,
+      TeamJoinedEvent.OutputObject
+    >;
+  };
+}
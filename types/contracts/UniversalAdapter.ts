@@ -3,6 +3,7 @@
 /* eslint-disable */
 import type {
   BaseContract,
+  BigNumberish,
   BytesLike,
   FunctionFragment,
   Result,
@@ -20,16 +21,28 @@ import type {
   TypedLogDescription,
   TypedListener,
   TypedContractMethod,
-} from "./common";
+} from "../common";
 
 export interface UniversalAdapterInterface extends Interface {
   getFunction(
-    nameOrSignature: "getData" | "isAvailable" | "setData"
+    nameOrSignature:
+      | "getData"
+      | "getVersion"
+      | "isAvailable"
+      | "setData"
+      | "setDataAtomic"
   ): FunctionFragment;
 
   getEvent(nameOrSignatureOrTopic: "DataStored"): EventFragment;
 
-  encodeFunctionData(functionFragment: "getData", values: [string]): string;
+  encodeFunctionData(
+    functionFragment: "getData",
+    values: [AddressLike, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getVersion",
+    values: [AddressLike, string]
+  ): string;
   encodeFunctionData(
     functionFragment: "isAvailable",
     values?: undefined
@@ -38,13 +51,22 @@ export interface UniversalAdapterInterface extends Interface {
     functionFragment: "setData",
     values: [string, BytesLike]
   ): string;
+  encodeFunctionData(
+    functionFragment: "setDataAtomic",
+    values: [string[], BytesLike[], BigNumberish[]]
+  ): string;
 
   decodeFunctionResult(functionFragment: "getData", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "getVersion", data: BytesLike): Result;
   decodeFunctionResult(
     functionFragment: "isAvailable",
     data: BytesLike
   ): Result;
   decodeFunctionResult(functionFragment: "setData", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "setDataAtomic",
+    data: BytesLike
+  ): Result;
 }
 
 export namespace DataStoredEvent {
@@ -104,7 +126,17 @@ export interface UniversalAdapter extends BaseContract {
     event?: TCEvent
   ): Promise<this>;
 
-  getData: TypedContractMethod<[key: string], [string], "view">;
+  getData: TypedContractMethod<
+    [owner: AddressLike, key: string],
+    [string],
+    "view"
+  >;
+
+  getVersion: TypedContractMethod<
+    [owner: AddressLike, key: string],
+    [bigint],
+    "view"
+  >;
 
   isAvailable: TypedContractMethod<[], [boolean], "view">;
 
@@ -114,19 +146,35 @@ export interface UniversalAdapter extends BaseContract {
     "nonpayable"
   >;
 
+  setDataAtomic: TypedContractMethod<
+    [keys: string[], values: BytesLike[], expectedVersions: BigNumberish[]],
+    [void],
+    "nonpayable"
+  >;
+
   getFunction<T extends ContractMethod = ContractMethod>(
     key: string | FunctionFragment
   ): T;
 
   getFunction(
     nameOrSignature: "getData"
-  ): TypedContractMethod<[key: string], [string], "view">;
+  ): TypedContractMethod<[owner: AddressLike, key: string], [string], "view">;
+  getFunction(
+    nameOrSignature: "getVersion"
+  ): TypedContractMethod<[owner: AddressLike, key: string], [bigint], "view">;
   getFunction(
     nameOrSignature: "isAvailable"
   ): TypedContractMethod<[], [boolean], "view">;
   getFunction(
     nameOrSignature: "setData"
   ): TypedContractMethod<[key: string, value: BytesLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setDataAtomic"
+  ): TypedContractMethod<
+    [keys: string[], values: BytesLike[], expectedVersions: BigNumberish[]],
+    [void],
+    "nonpayable"
+  >;
 
   getEvent(
     key: "DataStored"
@@ -0,0 +1,6 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type * as okrAnonymousFheSol from "./OKRAnonymousFHE.sol";
+export type { okrAnonymousFheSol };
+export type { UniversalAdapter } from "./UniversalAdapter";
@@ -0,0 +1,85 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../../../../common";
+import type {
+  EthereumConfig,
+  EthereumConfigInterface,
+} from "../../../../../@fhevm/solidity/config/ZamaConfig.sol/EthereumConfig";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x6080604052346100f3575f60606100146100f7565b82815282602082015282604082015201525f60606100306100f7565b828152826020820152826040820152015260018060a01b03197f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497008181541690557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497018181541690557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497028181541690557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703908154169055604051604b908161012b8239f35b5f80fd5b60405190608082016001600160401b0381118382101761011657604052565b634e487b7160e01b5f52604160045260245ffdfe60808060405260043610156011575f80fd5b5f3560e01c63da1f12ab146023575f80fd5b34603a575f366003190112603a5780600160209252f35b5f80fdfea164736f6c6343000818000a";
+
+type EthereumConfigConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: EthereumConfigConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class EthereumConfig__factory extends ContractFactory {
+  constructor(...args: EthereumConfigConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      EthereumConfig & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): EthereumConfig__factory {
+    return super.connect(runner) as EthereumConfig__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): EthereumConfigInterface {
+    return new Interface(_abi) as EthereumConfigInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): EthereumConfig {
+    return new Contract(address, _abi, runner) as unknown as EthereumConfig;
+  }
+}
@@ -0,0 +1,1897 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  EncryptedOKRPlatformFHE,
+  EncryptedOKRPlatformFHEInterface,
+} from "../../../contracts/OKRAnonymousFHE.sol/EncryptedOKRPlatformFHE";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "teamId",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "clearValue",
+        type: "uint32",
+      },
+    ],
+    name: "AggregateDecrypted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "CheckInRecorded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "aggregateKey",
+        type: "bytes32",
+      },
+    ],
+    name: "DecryptionRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "count",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "KeyResultsUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "teamId",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "minimum",
+        type: "uint256",
+      },
+    ],
+    name: "MinContributorsChanged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "OKRDeleted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "OKREdited",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "OKRSubmitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "objectiveId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "aggregateKey",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "ObjectiveAggregated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "teamId",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "parentId",
+        type: "uint256",
+      },
+    ],
+    name: "ObjectiveCreated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "teamId",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "epsilonPerReveal",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "totalEpsilon",
+        type: "uint256",
+      },
+    ],
+    name: "PrivacyBudgetConfigured",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "ProgressUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "teamId",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "TeamAggregated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "teamId",
+        type: "bytes32",
+      },
+    ],
+    name: "TeamCreated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "teamId",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "memberCount",
+        type: "uint256",
+      },
+    ],
+    name: "TeamJoined",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "DEFAULT_MIN_CONTRIBUTORS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_KEY_RESULTS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_NOTE_LENGTH",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_PRIORITY",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_SEALED_LENGTH",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_TEAM_REQUESTS_PER_EPOCH",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MIN_CONTRIBUTORS_FLOOR",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MIN_EPSILON_PER_REVEAL",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "PROGRESS_SENSITIVITY",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "REVEAL_EPOCH",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "teamId",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes32",
+        name: "codeHash",
+        type: "bytes32",
+      },
+    ],
+    name: "addInvite",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "teamId",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "member",
+        type: "address",
+      },
+    ],
+    name: "allowMember",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "teamId",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "since",
+        type: "uint256",
+      },
+    ],
+    name: "checkedInSince",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "count",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "companyAdmin",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "teamId",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "epsilonPerReveal",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "totalEpsilon",
+        type: "uint256",
+      },
+    ],
+    name: "configurePrivacyBudget",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "sealedTitle",
+        type: "string",
+      },
+      {
+        internalType: "bytes32",
+        name: "teamId",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "parentId",
+        type: "uint256",
+      },
+    ],
+    name: "createObjective",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "teamId",
+        type: "bytes32",
+      },
+      {
+        internalType: "string",
+        name: "sealedName",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "sealedKey",
+        type: "string",
+      },
+    ],
+    name: "createTeam",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "decryptTeamAggregate",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "decryptTeamDistribution",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    name: "decryptionPending",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "okrId",
+        type: "uint256",
+      },
+    ],
+    name: "deleteEncryptedOKR",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "okrId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedObjective",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedKeyResultCount",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedProgress",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedPriority",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32[]",
+        name: "encryptedKeyResultProgress",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+      {
+        internalType: "string",
+        name: "sealedRecord",
+        type: "string",
+      },
+    ],
+    name: "editEncryptedOKR",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "encryptedOkrs",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedObjective",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedKeyResults",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedProgress",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes32",
+        name: "teamId",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedWeight",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "okrId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+    ],
+    name: "getCheckIn",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "progress",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "confidence",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "sealedNote",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "okrId",
+        type: "uint256",
+      },
+    ],
+    name: "getCheckInCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "teamId",
+        type: "bytes32",
+      },
+    ],
+    name: "getEncryptedAggregate",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "teamId",
+        type: "bytes32",
+      },
+    ],
+    name: "getEncryptedDistribution",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "below25",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "below50",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "below75",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "okrId",
+        type: "uint256",
+      },
+    ],
+    name: "getEncryptedKeyResults",
+    outputs: [
+      {
+        internalType: "euint32[]",
+        name: "",
+        type: "bytes32[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "okrId",
+        type: "uint256",
+      },
+    ],
+    name: "getEncryptedOKR",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedObjective",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedKeyResults",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedProgress",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedWeight",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "key",
+        type: "bytes32",
+      },
+    ],
+    name: "getEncryptedWeightTotal",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "objectiveId",
+        type: "uint256",
+      },
+    ],
+    name: "getObjectiveChildCounts",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "objectiveChildren",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "okrChildren",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "teamId",
+        type: "bytes32",
+      },
+    ],
+    name: "heldKey",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "inviteCode",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "member",
+        type: "address",
+      },
+    ],
+    name: "inviteHashFor",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "teamId",
+        type: "bytes32",
+      },
+    ],
+    name: "isMemberOf",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "teamId",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes32",
+        name: "inviteCode",
+        type: "bytes32",
+      },
+      {
+        internalType: "string",
+        name: "sealedKey",
+        type: "string",
+      },
+    ],
+    name: "joinTeam",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "teamId",
+        type: "bytes32",
+      },
+    ],
+    name: "minContributors",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    name: "nextRevealAt",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "epsilon",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "sensitivity",
+        type: "uint256",
+      },
+    ],
+    name: "noiseScaleFor",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "objectiveId",
+        type: "uint256",
+      },
+    ],
+    name: "objectiveAggregateKey",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "objectiveCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "objectives",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "sealedTitle",
+        type: "string",
+      },
+      {
+        internalType: "bytes32",
+        name: "teamId",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "parentId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "createdAt",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "okrCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "okrRecords",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    name: "privacyBudgets",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "epsilonPerReveal",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "totalEpsilon",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "spentEpsilon",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "objectiveId",
+        type: "uint256",
+      },
+    ],
+    name: "recomputeObjectiveAggregate",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "teamId",
+        type: "bytes32",
+      },
+    ],
+    name: "recomputeTeamAggregate",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "objectiveId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "viaTeamId",
+        type: "bytes32",
+      },
+    ],
+    name: "requestObjectiveAggregateDecryption",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "teamId",
+        type: "bytes32",
+      },
+    ],
+    name: "requestTeamAggregateDecryption",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    name: "revealedAggregates",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "clearSum",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "weightTotal",
+        type: "uint32",
+      },
+      {
+        internalType: "uint256",
+        name: "contributors",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "computedAt",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "revealedAt",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "noiseScale",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    name: "revealedDistributions",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "below25",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "below50",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "below75",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "count",
+        type: "uint32",
+      },
+      {
+        internalType: "uint256",
+        name: "noiseScale",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "revealedAt",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "teamId",
+        type: "bytes32",
+      },
+      {
+        internalType: "string",
+        name: "sealedKey",
+        type: "string",
+      },
+    ],
+    name: "setHeldKey",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "teamId",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "minimum",
+        type: "uint256",
+      },
+    ],
+    name: "setMinContributors",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "okrId",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "sealedRecord",
+        type: "string",
+      },
+    ],
+    name: "setOKRRecord",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "check",
+        type: "bytes32",
+      },
+    ],
+    name: "setTextKeyCheck",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "teamId",
+        type: "bytes32",
+      },
+      {
+        internalType: "string",
+        name: "sealedCompanyKey",
+        type: "string",
+      },
+    ],
+    name: "shareCompanyKey",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "externalEuint32",
+        name: "encryptedObjective",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedKeyResults",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedProgress",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedPriority",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32[]",
+        name: "encryptedKeyResultProgress",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes32",
+        name: "teamId",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "objectiveId",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "sealedRecord",
+        type: "string",
+      },
+    ],
+    name: "submitEncryptedOKR",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    name: "teamAggregates",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "idHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedSum",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedWeightTotal",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "contributors",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "distinctContributors",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "changedContributors",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "lastUpdated",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    name: "teamCompanyKeys",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    name: "teams",
+    outputs: [
+      {
+        internalType: "string",
+        name: "sealedName",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "admin",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "memberCount",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "createdAt",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "textKeyChecks",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "okrId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint32[]",
+        name: "encryptedKeyResultProgress",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedProgress",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedConfidence",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+      {
+        internalType: "string",
+        name: "sealedNote",
+        type: "string",
+      },
+    ],
+    name: "updateEncryptedKeyResults",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256[]",
+        name: "okrIds",
+        type: "uint256[]",
+      },
+      {
+        internalType: "uint256[]",
+        name: "keyResultCounts",
+        type: "uint256[]",
+      },
+      {
+        internalType: "externalEuint32[]",
+        name: "handles",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+      {
+        internalType: "string[]",
+        name: "sealedNotes",
+        type: "string[]",
+      },
+    ],
+    name: "updateEncryptedKeyResultsBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "okrId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedProgress",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "updateEncryptedProgress",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60806040523462000165575f60606200001762000169565b82815282602082015282604082015201526200003262000169565b60607350157cffd6bbfa2dece204a89ec419c23ef5755d9182815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf6980602083015273a02cda4ca3a71d7c46997716f4283aa851c2881291826040820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac938491015260018060a01b0319937f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090858254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190848254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290838254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703908282541617905533906002541617600255604051615eb090816200019e8239f35b5f80fd5b60405190608082016001600160401b038111838210176200018957604052565b634e487b7160e01b5f52604160045260245ffdfe60806040526004361015610011575f80fd5b5f3560e01c80630157261714613b2c578063065d1c6b14613b1157806308bd882914613ae25780630f072ba614613a6f578063128470b4146138a757806315626a77146138815780631c108e05146131d25780631d99a4d31461316357806328c11148146131455780632a0b11341461308f57806332a9936d14612fef57806338f2a12514612f8d578063417e804e14612f72578063426b00c214612ccb5780634a07b06814612c865780634e6b8b981461293e5780635502fcbf146129145780635632bbdb146128a75780635a6d8c881461288b5780635b9c860f1461285e5780635c0df87d14611fa85780635ec6bf271461146457806364ab5ca714611f6557806366af122914611f475780636a79a3f814611efc5780636e71a50a14611d9b5780636fa6665614611d71578063799f25ce14611d115780638120358314611ce75780638437e1e314611b5b5780638689db8514611b3e57806395b4203b14611b0a578063a2f0326214611836578063a38bef1d1461181a578063a4301fa714611505578063ae8f36da146114e8578063aeeda0ea146114a7578063b568e57614611469578063badc6f2514611464578063bb91b4171461101d578063c03b4f2b14610fe4578063c310a29914610fc9578063c4134f7714610f62578063c6be585514610f47578063caf587b014610f1f578063cb7440f314610ee9578063d588c72814610e6a578063d8a05f0814610c36578063da1f12ab14610c1a578063da55147914610bfe578063da5f625a14610b96578063e165286214610b06578063e2e1229f1461095f578063e8c78f5a14610932578063e9d708ea146108f6578063ec802a96146108b5578063ec992d2d1461084c578063ed274de1146107f8578063ee73436c14610741578063eff75499146105ff578063f10f99f414610594578063f4468c071461032e578063f6a00c0e146103135763fd799fe0146102d9575f80fd5b3461030f57602036600319011261030f576004355f52600b6020526040805f2054600c602052815f205482519182526020820152f35b5f80fd5b3461030f575f36600319011261030f57602060405160048152f35b3461030f5760208060031936011261030f576004359061034d82614363565b815f52600390818152600560405f20015480610583575b50825f52600d815260405f205480610471575b509080825260405f205f815560015f60018301555f600760029382600282015582868201558260048201558260058201558260068201550155600484526103c060405f20614277565b845f52600e84526103d360405f206142bf565b845f52600f845260405f20938454945f815585610413575b33877f75dda5a67e38b07f5202f5d91cc2a42c0f04e0480914df19b5cb75ae5d0a94405f80a3005b6001600160fe1b038616860361045d575f525f209360021b8401935b84811061043c57806103eb565b805f600492555f838201555f84820155610457858201614277565b0161042f565b634e487b7160e01b5f52601160045260245ffd5b61048461047d826140e6565b33906155d5565b805f52600a82528260405f2001548061056a575b505f52600c815260405f20915f5b83548082101561056057856104bb8387613f54565b905490851b1c146104cf57506001016104a6565b919293905f199283810190811161045d576104fd6104f06105139285613f54565b905490871b1c9284613f54565b819391549060031b91821b915f19901b19161790565b90558054801561054c5782019161052a8383613f54565b9091825491861b1b19169055555b825f52600d82525f60408120559083610377565b634e487b7160e01b5f52603160045260245ffd5b5050909150610538565b61057d9061057833916140e6565b6155d5565b84610498565b61058e9033906155d5565b83610364565b3461030f57602036600319011261030f576004355f52601060205260e060405f20805490600181015490600281015460038201546004830154916006600585015494015494604051968752602087015260408601526060850152608084015260a083015260c0820152f35b3461030f5761060d36613f21565b9161061781614cd0565b6102008311610705575f52602091601660205260405f20916001600160401b0382116106f1576106518261064b8554613c82565b85614039565b5f93601f83116001146106905750610681929382915f92610685575b50508160011b915f199060031b1c19161790565b9055005b01359050848061066d565b90601f19831694845f5260205f20925f905b8782106106d95750508360019596106106c0575b505050811b019055005b01355f19600384901b60f8161c191690558380806106b6565b806001849682949587013581550195019201906106a2565b634e487b7160e01b5f52604160045260245ffd5b60405162461bcd60e51b81526020600482015260146024820152735365616c6564207465787420746f6f206c6f6e6760601b6044820152606490fd5b3461030f5760c036600319011261030f576001600160401b0360043560243582811161030f57610775903690600401613c0f565b9060843584811161030f5761078e903690600401613c3f565b92909160a43595861161030f576107ac6107f6963690600401613c3f565b9290916107b887614363565b6107f06107d16107c9368989613e78565b604435614485565b936107e86107e0368a8a613e78565b606435614485565b953691613e78565b966146ad565b005b3461030f57604036600319011261030f57600435610814613c6c565b9061081e81614cd0565b5f9081526007602090815260408083206001600160a01b03909416835292905220805460ff19166001179055005b3461030f57602036600319011261030f576004355f52601260205260c060405f2080549063ffffffff906002600182015491015491604051938181168552818160201c166020860152818160401c16604086015260601c166060840152608083015260a0820152f35b3461030f57602036600319011261030f576004355f526011602052606060405f20805490600260018201549101549060405192835260208301526040820152f35b3461030f57602036600319011261030f576004356001600160a01b0381169081900361030f575f526017602052602060405f2054604051908152f35b3461030f576107f661094336613f21565b918061095657610951614d28565b6152d0565b61095181614947565b3461030f57606036600319011261030f576004356044356001600160401b03811161030f57610992903690600401613c3f565b90825f526020926005845260018060a01b03600160405f2001541615610ad257805f526014845260405f20335f52845260ff60405f205416610a9a57805f526007845260405f20335f52845260ff60405f2054165f14610a17576107f693815f526007815260405f2090335f525260405f2060ff1981541690555b610951338261523f565b610a2333602435613f8f565b815f526006855260405f20815f52855260ff60405f20541615610a64576107f694825f526006815260405f20915f525260405f2060ff198154169055610a0d565b60405162461bcd60e51b815260048101869052600e60248201526d496e76616c696420696e7669746560901b6044820152606490fd5b60405162461bcd60e51b815260048101859052601060248201526f20b63932b0b23c90309036b2b6b132b960811b6044820152606490fd5b60405162461bcd60e51b815260048101859052600c60248201526b556e6b6e6f776e207465616d60a01b6044820152606490fd5b3461030f57610b1436613bf9565b610b1d82614cd0565b60028110610b5f5760207f155b3530b51964688a275f2e7e4dfdb64ecf6594a77f6b38d6dc676a82aa93a391835f52600882528060405f2055604051908152a2005b60405162461bcd60e51b815260206004820152600f60248201526e4d696e696d756d20746f6f206c6f7760881b6044820152606490fd5b3461030f57602036600319011261030f576004355f52601d60205260c060405f2080549063ffffffff906001810154600282015490600460038401549301549360405195818116875260201c16602086015260408501526060840152608083015260a0820152f35b3461030f575f36600319011261030f5760205f54604051908152f35b3461030f575f36600319011261030f5760206040516127118152f35b3461030f5760a036600319011261030f576004356001600160401b03811161030f57610c66903690600401613c0f565b6024356001600160401b03811161030f57610c85903690600401613c0f565b90916044356001600160401b03811161030f57610ca6903690600401613c0f565b946064356001600160401b03811161030f57610cc6903690600401613c3f565b916084356001600160401b03811161030f579287949192610ced8a98953690600401613c0f565b949097610cfb878214614229565b610d06868214614229565b5f985f985b828a10610d1d576107f68c8c14614229565b90919293949596979899610d3b610d358c8688614267565b35614363565b60028101811161045d578b610d8c610d7a83610d678f8f90610d5d9189614267565b3560028301613f82565b93610d7481861115614229565b8c614267565b35610d86368b8b613e78565b90614485565b60018301831161045d5782610dc78f8f95610d868c8f8f9390610dbf956001610db6930191614267565b35923691613e78565b94888a614267565b3583600283011161030f578f841161030f578c8f1015610e56578e60051b870135601e198836030181121561030f5787016001600160401b0381351161030f5780353603602082011361030f57600195610e46948e948e94610e318f953690602081359101613e78565b9660028b19848c0301930160051b01906146ad565b9a01989796959493929190610d0b565b634e487b7160e01b5f52603260045260245ffd5b3461030f57602036600319011261030f576004355f52600360205261010060405f2080549060018060a01b0360018201541690600281015460038201546004830154906005840154926007600686015495015495604051978852602088015260408701526060860152608085015260a084015260c083015260e0820152f35b3461030f57602036600319011261030f576004355f5260106020526040805f206006600182015491015482519182526020820152f35b3461030f575f36600319011261030f576002546040516001600160a01b039091168152602090f35b3461030f575f36600319011261030f57602060405160648152f35b3461030f57610f84610f7336613bf9565b905f52600f60205260405f20613f69565b508054610fc5600183015492610fa1600360028301549201613d75565b90604051948594855260208501526040840152608060608401526080830190613e38565b0390f35b3461030f575f36600319011261030f57602060405160108152f35b3461030f57602036600319011261030f576004355f52601460205260405f20335f52602052602060ff60405f2054166040519015158152f35b3461030f57602036600319011261030f576110366158c7565b61103e6158c7565b6110466158c7565b9161104f6158c7565b6110576158c7565b9060405194606086018681106001600160401b038211176106f1576040528552602085015260408401525f80936004355f52601f60205260405f205491601360205260405f20915f5b83548110156113d6576110d06110b68286613f54565b905460039190911b1c6001600160a01b03166004356142ef565b6110f76110dd8387613f54565b905460039190911b1c6001600160a01b03166004356154ce565b908061111e575b5061110c575b6001016110a0565b966001810180911161045d5796611104565b9361115660079998865f52600360205261115060405f209161114a60048401549d8e94015480946154ff565b906155a6565b996155a6565b985f85518283156113c4575b5f80516020615e4483398151915254604051637210768160e01b8152600481019290925260196024830152600160f81b6044830152909260209184916064918391906001600160a01b03165af191821561132b575f9261138e575b5061114a6111ca92615dd4565b855260208501519080811561137a575b5f80516020615e4483398151915254604051637210768160e01b8152600481019290925260326024830152600160f81b6044830152602090829060649082905f906001600160a01b03165af190811561132b575f91611348575b505f9261114a61124392615dd4565b60208701526040860151908015611336575b5f80516020615e4483398151915254604051637210768160e01b81526004810192909252604b6024830152600160f81b6044830152909260209184916064918391906001600160a01b03165af191821561132b575f926112f5575b5061114a6112bd92615dd4565b60408501526001810180911161045d579381156112dc575b50896110fe565b90505f52600360205284600660405f20015411896112d5565b91506020823d602011611323575b8161131060209383613d54565b8101031261030f5790519061114a6112b0565b3d9150611303565b6040513d5f823e3d90fd5b5060206113416158c7565b9050611255565b90506020813d602011611372575b8161136360209383613d54565b8101031261030f57515f611234565b3d9150611356565b505f60206113866158c7565b9150506111da565b91506020823d6020116113bc575b816113a960209383613d54565b8101031261030f5790519061114a6111bd565b3d915061139c565b5060206113cf6158c7565b9050611162565b506113e78783808989600435614c47565b6113f381513090615a43565b611401306020830151615a43565b61140f306040830151615a43565b6004355f52601160205260026040805f2092805184556020810151600185015501519101556040514281527f203e49108655e605935ef1dcbb2e24917ed7a606a4785cbf3b6f57efa89878d4602060043592a2005b613e5d565b3461030f57602036600319011261030f576004355f526016602052610fc561149360405f20613d75565b604051918291602083526020830190613e38565b3461030f57602036600319011261030f576004355f526009602052606060405f20805490600260018201549101549060405192835260208301526040820152f35b3461030f575f36600319011261030f57602060405162093a808152f35b3461030f5761012036600319011261030f576084356001600160401b03811161030f57611536903690600401613c0f565b60a4356001600160401b03811161030f57611555903690600401613c3f565b92610104356001600160401b03811161030f57611576903690600401613c3f565b93909460c43515801590816117f3575b61158f906141eb565b60e4356117c0575b506115ae6115a6368387613e78565b600435614485565b936115c56115bd368484613e78565b602435614485565b926115dc6115d76107c9368686613e78565b61562e565b946115f36115ee6107e0368787613e78565b614579565b946115fe3089615a43565b6116083389615a43565b6116123082615a43565b61161c3382615a43565b6116263088615a43565b6116303388615a43565b61163a3087615a43565b6116443387615a43565b5f549860018a018a1161045d5760018a015f556040519a8b6001600160401b036101008281810110920111176106f1578b600761173c998d60209f9d8d6117559f986101006117339a01604052600184018752602087019233845260408801908152606088019182526080880192835260a088019360c4358552600160c08a019642885260e08b01988952015f5260206003905260405f2098518955600189019060018060a01b039051166001600160601b0360a01b8254161790555160028801555160038701555160048601555160058501555160068401555191015560e435611790575b60018b016143ba565b600188016153c0565b6040519061174982613d1e565b5f825260018401614968565b60405142815233907fd529bcc566c92ceb9f69b02aa0d1eb0f8da63540f9b80ad68e8ed7ace5bcaebe846001850192a3600160405191018152f35b60e4355f52600c8c526117a960018c0160405f2061407c565b60018b015f52600d8c5260e43560405f205561172a565b806117d5575b6117cf906140a2565b86611597565b5060e4355f908152600a602052604090206002015460c435146117c6565b5060c4355f52601460205260405f20335f5260205261158f60ff60405f2054169050611586565b3461030f575f36600319011261030f5760206040516102008152f35b3461030f57606036600319011261030f5760043560246001600160401b03813581811161030f5761186b903690600401613c3f565b60449491943583811161030f57611886903690600401613c3f565b9490938315611ad4578215611aa3576102008311611a6857835f526020906005825260018060a01b039060019882600160405f20015416611a36576118d990604051966118d288613cf0565b3691613e78565b85528285019233845260408601945f8652606087019a428c52885f526005835260405f209751918251948511611a23575061191e846119188a54613c82565b8a614039565b82601f85116001146119b5575050826107f69b95936003979593611956935f926119aa5750508160011b915f199060031b1c19161790565b86555b600186019151166001600160601b0360a01b82541617905551600284015551910155807f5e9b81a62265501c16f18db4e3e5c129a093888b895be5a07e018b8f3ebaf7045f80a2610951338261523f565b015190508d8061066d565b5f898152818120949392601f19871692905b838310611a0c575050509260019285926107f69e989660039a9896106119f5575b505050811b018655611959565b01515f19838a1b60f8161c191690558c80806119e8565b8486015187559586019594810194918101916119c7565b634e487b7160e01b5f9081526041600452fd5b60405162461bcd60e51b815260048101859052600b818701526a5465616d2065786973747360a81b6044820152606490fd5b60405162461bcd60e51b815260206004820152601481840152735365616c6564207465787420746f6f206c6f6e6760601b6044820152606490fd5b60405162461bcd60e51b815260206004820152600a8184015269456d707479206e616d6560b01b6044820152606490fd5b60405162461bcd60e51b815260206004820152600f818401526e125b9d985b1a59081d19585b481a59608a1b6044820152606490fd5b3461030f57602036600319011261030f576004355f52601560205260405f20335f52602052610fc561149360405f20613d75565b3461030f575f36600319011261030f576020600154604051908152f35b3461030f57611b76611b6c36613edb565b8183949294614dd2565b60a08380518101031261030f57611b8f6020840161410f565b91611b9c6040850161410f565b92611ba96060860161410f565b93611bec611bc560a0611bbe60808a0161410f565b980161410f565b91845f52601a602052600160405f20015493601b60205260405f20955f8754975587614ff7565b611bf257005b611c9a611c188385611c128282611c0c828260029e6151cc565b9c6151cc565b946151cc565b9163ffffffff908160405199611c2d8b613cd5565b1689528160208a01911681528160408a01941684528160608a01951685526080890195865260a08901964288525f5260126020528160405f2099511663ffffffff198a54161789555116879067ffffffff0000000082549160201b169067ffffffff000000001916179055565b51855491516fffffffffffffffff00000000000000001990921660409190911b6bffffffff0000000000000000161760609190911b63ffffffff60601b1617845551600184015551910155005b3461030f57602036600319011261030f576004355f526004602052610fc561149360405f20613d75565b3461030f57611d1f36613bf9565b620a939b9081810291818304149015171561045d576103e89182810292818404149015171561045d5781611d5291613f82565b5f19810190811161045d57602091611d6991614120565b604051908152f35b3461030f57602036600319011261030f576004355f52601e602052602060405f2054604051908152f35b3461030f57606036600319011261030f5760043560243560443582611eee57611dc2614d28565b600a8210611eb557818110611e7057825f52600960205260405f2091600183019182548015908115611e65575b5015611e2b5780604093837f22459fc3ae1ca9ff2ffabd918f8539b00b3995b4c59a5a326806d18046502d7b96555582519182526020820152a2005b60405162461bcd60e51b81526020600482015260126024820152714275646765742063616e6e6f742067726f7760701b6044820152606490fd5b905081111586611def565b60405162461bcd60e51b815260206004820152601760248201527f4275646765742062656c6f77206f6e652072657665616c0000000000000000006044820152606490fd5b60405162461bcd60e51b8152602060048201526011602482015270115c1cda5b1bdb881d1bdbc81cdb585b1b607a1b6044820152606490fd5b611ef783614cd0565b611dc2565b3461030f57611f17611f0d36613edb565b8183949293614dd2565b9060408180518101031261030f576107f692611f416040611f3a6020850161410f565b930161410f565b92614ff7565b3461030f57602036600319011261030f576020611d696004356140e6565b3461030f57604036600319011261030f57600435611f8281614cd0565b5f52600660205260405f206024355f5260205260405f20600160ff198254161790555f80f35b3461030f57604036600319011261030f57600435602435611fc881614947565b815f52600a602052600260405f20015491818303612833575b825f52600960205260405f2054156127ee57611ffc906140e6565b6040519261200984613d1e565b5f845261201581614009565b905f90835f52601060205260405f209460018601938454156127ba578060048801541061277557855f52601e60205260405f20544210612739576005870154106126ff5762093a809081420490805f52602260205260405f20825f52602052600460405f205410156126cb575f52602260205260405f20815f5260205260405f208054906001820180921161045d57556001810180911161045d5781810291818304149015171561045d57845f52601e60205260405f20556006850154601f60205260405f20556020805260405f20955f5b87548110156121d8576120fa8189613f54565b90546003916001600160a01b039161211791841b1c8216896154ce565b1561212f575050612127906156a6565b955b956120e7565b875f99939952602160205260405f20816121498b8d613f54565b905490851b1c165f526020525f60408120558954905f199283830192831161045d576121786121a6938d613f54565b9054911b1c166121888a8c613f54565b90919060018060a01b038084549260031b9316831b921b1916179055565b8854801561054c57016121d16121bc828b613f54565b81549060018060a01b039060031b1b19169055565b8855612129565b5084865f945f80955f52600960205260405f208054908161261c575b50508451976002890180991161045d576122266122108a613fc1565b9961221e6040519b8c613d54565b808b52613fc1565b601f19013660208b0137878061260d5750545b61224289613fd8565b52600283015481806125ff57505b61225989613fe5565b525f5b85518110156122a75761226f8187613ff5565b5187806122985750905b600281019182821161045d576122916001938c613ff5565b520161225c565b6122a1916156b4565b90612279565b5087948691885f80516020615e84833981519152549560018060a01b035f80516020615e648339815191525416803b1561030f575f61230681928c604051948580948193637d6e912360e11b8352602060048401526024830190615da1565b03925af1801561132b576125ec575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649702546001600160a01b0316803b156125e857868a612379928a83604051809681958294633263b83b60e01b84526004840152606060248401526064830190615da1565b630d4f347f60e31b604483015203925af180156125dd579087916125c5575b508790525f80516020615e2483398151915260205260408620546125b3578686525f80516020615e2483398151915260205260408620988051906001600160401b03821161259f57600160401b821161259f578a54828c55808310612578575b50602001998752602087209987905b828210612564575050507f0170267a42a2a50742099143ac731e7657f4a2a459fb53660f9a1094eb06cf0d9697985061244d5f80516020615e84833981519152546156a6565b5f80516020615e84833981519152558786526019602052886040872055600488600660038401549301546040519061248482613cd5565b89825260208083018b8152604080850197885260608501938452608085018d815260a086018a8152968e52601a8452908d2094518554925167ffffffffffffffff1990931663ffffffff91909116179190921b67ffffffff0000000016178355919451600186015551600285015551600384015551910155612554575b508115159081612549575b50612539575b50838152602360205260408120600160ff19825416179055602460205282604082205580a3005b601b602052604082205584612512565b90505115158661250c565b601c602052604084205586612501565b80518c830155600190910190602001612407565b8b895260208920908382015b81830181106125945750506123f8565b5f8155600101612584565b634e487b7160e01b88526041600452602488fd5b604051633f06d22b60e01b8152600490fd5b6125ce90613d0b565b6125d957858a612398565b8580fd5b6040513d89823e3d90fd5b8680fd5b6125f7919650613d0b565b5f9489612315565b612608916156b4565b612250565b61261791546156b4565b612239565b92975092955050600281019081549060016126378584613f82565b91015410612686578261264991613f82565b905582516002810180911161045d5761266191614120565b9261266b8461413e565b9461267e61267886614179565b956141b2565b9488806121f4565b60405162461bcd60e51b815260206004820152601860248201527f50726976616379206275646765742065786861757374656400000000000000006044820152606490fd5b60405162461bcd60e51b815260206004820152600c60248201526b14985d19481b1a5b5a5d195960a21b6044820152606490fd5b60405162461bcd60e51b81526020600482015260126024820152714e6f7420656e6f756768206368616e67657360701b6044820152606490fd5b60405162461bcd60e51b815260206004820152601460248201527314995d99585b081dda5b991bddc818db1bdcd95960621b6044820152606490fd5b60405162461bcd60e51b815260206004820152601760248201527f4e6f7420656e6f75676820636f6e7472696275746f72730000000000000000006044820152606490fd5b60405162461bcd60e51b815260206004820152600c60248201526b4e6f2061676772656761746560a01b6044820152606490fd5b60405162461bcd60e51b815260206004820152601760248201527f50726976616379206275646765742072657175697265640000000000000000006044820152606490fd5b821580612849575b612844906140a2565b611fe1565b506128446128578383614d75565b905061283b565b3461030f57602036600319011261030f576004355f5260106020526020600260405f200154604051908152f35b3461030f575f36600319011261030f5760206040516104008152f35b3461030f57602036600319011261030f576004355f52600560205261290060405f206128d281613d75565b9060018060a01b03600182015416906003600282015491015490604051948594608086526080860190613e38565b926020850152604084015260608301520390f35b3461030f57602036600319011261030f576004355f52600f602052602060405f2054604051908152f35b3461030f57606036600319011261030f576001600160401b0360043581811161030f5761296f903690600401613c3f565b602491823591604435908015612c54576102008111612c195783612b9257612995614d28565b81612b44575b6001805493818501809511612b31578482556040519260a084018481108a821117612b1e576040528584526129d291369190613e78565b96602097888401908152604084019087825260608501928684526080860194428652885f52600a8c5260405f209651875580870192519a8b51928311611a235750612a218261064b8554613c82565b8b908c601f8411600114612ab75750509080612a5892600498999a9b9c5f926119aa5750508160011b915f199060031b1c19161790565b90555b5160028501555160038401555191015580612a9e575b60405192827f9c93eb4f330451086328ffe0d73cbd14cee617607d4276ccb2aea20cc91edda45f80a48152f35b805f52600b8452612ab28260405f2061407c565b612a71565b909291601f1983169c855f528d835f20935f915b8210612b065750508360049a9b9c9d9e10612aee575b505050811b019055612a5b565b01515f1960f88460031b161c191690558c8080612ae1565b8284015185559386019392830192908101908f612acb565b88634e487b7160e01b5f5260416004525ffd5b86634e487b7160e01b5f5260116004525ffd5b60405162461bcd60e51b8152602060048201526021818701527f436f6d70616e79206f626a656374697665732068617665206e6f20706172656e6044820152601d60fa1b6064820152608490fd5b612b9b84614cd0565b811561299b57815f52600a60205260405f20805415159081612c0c575b5061299b5760405162461bcd60e51b8152602060048201526022818701527f506172656e74206d757374206265206120636f6d70616e79206f626a65637469604482015261766560f01b6064820152608490fd5b6002915001541587612bb8565b60405162461bcd60e51b815260206004820152601481870152735365616c6564207465787420746f6f206c6f6e6760601b6044820152606490fd5b60405162461bcd60e51b815260206004820152600b818701526a456d707479207469746c6560a81b6044820152606490fd5b3461030f57604036600319011261030f576024356004356001600160401b03821161030f57612cbc6107f6923690600401613c3f565b91612cc681614363565b6143ba565b3461030f5760208060031936011261030f5760043590815f52600a815260405f205415612f3a57815f52600b815260405f2090600c92600c825260405f2054935f908454905b818310612f0757505050612d24816140e6565b90612d2d6158c7565b93612d366158c7565b91612d4087613fc1565b96612d4e6040519889613d54565b808852612d5a81613fc1565b601f19908101368a890137612d87612d7183613fc1565b92612d7f6040519485613d54565b808452613fc1565b01368783013760405196612d9a88613cba565b875285870193845260408701975f89526060880152608087015260a08601925f845260c087015f8152855f52601f94601f8852612ddc8960405f205486614b26565b5f5b8554811015612e175780612e118b8b8b8b612dfb6001978d613f54565b939054925f525260405f20549160031b1c614b26565b01612dde565b5091879187938b8b865f5285805260405f205f908054915b828110612e81578a7f8f411d157e5e3571810f43acfd50d1d0e6f218429ea206fee6727015cdab76ff60408c8c612e748d8d8d8d8d5193519051915192519387614c47565b82519182524290820152a2005b612e8b8183613f54565b90546001600160a01b0391600391612ea891831b1c83168d6154ce565b15612efd5790612ec891612ebc8486613f54565b9054911b1c168561596c565b8651811015612ee45790612ede600192866159b2565b01612e2f565b508651906001820180921161045d576001918852612ede565b5050600190612ede565b909195612f31600191612f1a8989613f54565b90549060031b1c5f5283875260405f205490613f82565b96019190612d11565b6064906040519062461bcd60e51b825260048201526011602482015270556e6b6e6f776e206f626a65637469766560781b6044820152fd5b3461030f575f36600319011261030f57602060405160028152f35b3461030f57602036600319011261030f576004358015612fb857335f52601760205260405f20555f80f35b60405162461bcd60e51b815260206004820152600f60248201526e456d707479206b657920636865636b60881b6044820152606490fd5b3461030f5760208060031936011261030f576004355f52600e815260405f20604051908183825491828152019081925f52845f20905f5b8682821061307b57868661303c82880383613d54565b60405192839281840190828552518091526040840192915f5b82811061306457505050500390f35b835185528695509381019392810192600101613055565b835485529093019260019283019201613026565b3461030f57606036600319011261030f576004356044356001600160401b03811161030f576130d76115d76115bd6130ce613119943690600401613c3f565b6118d287614363565b6130e13082615a43565b6130eb3382615a43565b825f52600360205260405f208160048201556006429101556040519061311082613d1e565b5f825283614968565b7f5872cdf71af29d433728d329d247d308a6b6c7c2b51cca3f43624e687a812d356020604051428152a2005b3461030f57602036600319011261030f576020611d69600435614009565b3461030f57602036600319011261030f576004355f52600a60205260405f20805461319060018301613d75565b9160028101549060046003820154910154906131be604051958695865260a0602087015260a0860190613e38565b926040850152606084015260808301520390f35b3461030f57602036600319011261030f576131ee600435614947565b6004355f52601160205260405f2060026040519161320b83613cf0565b600383526060366020850137805461322284613fd8565b52600181015461323184613fe5565b520154815160021015610e5657606082015261324e600435614009565b905f906004355f52601060205260405f20926001840154156127ba5780600485015410612775576004355f52601e60205260405f20544210612739576005840154106126ff5762093a808042046004355f52602260205260405f20815f52602052600460405f205410156126cb576004355f52602260205260405f20815f5260205260405f208054906001820180921161045d57556001810180911161045d5781810291818304149015171561045d576004355f52601e60205260405f20556006830154601f60205260405f20556020805260405f20925f5b84548110156133e85761335761333d8287613f54565b90546001600160a01b03929160031b1c82166004356154ce565b1561336e5750613366906156a6565b925b92613327565b6004949194355f52602160205260405f208161338a8789613f54565b90549060031b1c165f526020525f604081205585545f199182820191821161045d576133b96133cb9289613f54565b90549060031b1c166121888789613f54565b8554801561054c57016133e16121bc8288613f54565b8555613368565b50825f925f915f926004355f52600960205260405f2080549081613817575b50508251956002870180971161045d5761343961342388613fc1565b97613431604051998a613d54565b808952613fc1565b601f1901366020890137806138045760018601545b61345788613fd8565b52600286015482806137f657505b61346e88613fe5565b525f5b84518110156134bc576134848186613ff5565b5186806134ad5750905b600281019182821161045d576134a66001938b613ff5565b5201613471565b6134b6916156b4565b9061348e565b50909195945f80516020615e84833981519152549560018060a01b035f80516020615e648339815191525416803b1561030f575f6040518092637d6e912360e11b8252602060048301528183816135166024820189615da1565b03925af1801561132b576137e3575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025488906001600160a01b0316803b156137df57816040518092633263b83b60e01b82528b600483015260606024830152818381613587606482018a615da1565b638437e1e360e01b604483015203925af180156137d4576137bc575b508790525f80516020615e2483398151915260205260408820546125b3578688525f80516020615e24833981519152602052604088208151916001600160401b0383116137a857600160401b83116137a8578154838355808410613781575b5060200190895260208920895b83811061376d57505050506136315f80516020615e84833981519152546156a6565b5f80516020615e84833981519152558587526019602052600435604088205560048688600660038501549401546040519461366b86613cd5565b82865260208087018481526040808901938452606089019485526080890186815260a08a018b8152978752601a8452952097518854915167ffffffffffffffff1990921663ffffffff9190911617911b67ffffffff00000000161786555160018601555160028501555160038401555191015561375d575b508115159081613752575b50613742575b506004358252602360205260408220600160ff1982541617905560246020528060408320557f0170267a42a2a50742099143ac731e7657f4a2a459fb53660f9a1094eb06cf0d6004359280a3005b601b6020526040832055826136f4565b9050511515846136ee565b601c6020526040852055846136e3565b60019060208451940193818401550161360f565b828b5260208b20908482015b818301811061379d575050613602565b5f815560010161378d565b634e487b7160e01b8a52604160045260248afd5b6137c590613d0b565b6137d05787896135a3565b8780fd5b6040513d84823e3d90fd5b5080fd5b6137ee919850613d0b565b5f9688613525565b6137ff916156b4565b613465565b6138128160018801546156b4565b61344e565b92965092935050600281019081549060016138328584613f82565b91015410612686578261384491613f82565b905581516002810180911161045d5761385c91614120565b906138668261413e565b9361387961387384614179565b936141b2565b928680613407565b3461030f57604036600319011261030f576020611d6961389f613c6c565b600435613f8f565b3461030f5761010036600319011261030f576004356001600160401b0360a43581811161030f576138dc903690600401613c0f565b9060c43583811161030f576138f5903690600401613c3f565b60e49491943591821161030f57613a189461392a61391a613a12943690600401613c3f565b906139248a614363565b896143ba565b6139386115bd368484613e78565b60076139486107c9368686613e78565b916139626115ee61395a368888613e78565b608435614485565b9261396d3083615a43565b6139773383615a43565b6139813082615a43565b61398b3382615a43565b6139953085615a43565b61399f3385615a43565b8a5f52600360205260405f20916002830155600382015501556139c66107e0368484613e78565b946139df604051966139d788613d1e565b5f885261562e565b946139ea3087615a43565b6139f43387615a43565b885f52600360205260405f20866004820155600642910155886153c0565b83614968565b807f5872cdf71af29d433728d329d247d308a6b6c7c2b51cca3f43624e687a812d356020604051428152a27f4328c7c81ab0f51a58fb8cf63655ee0cab7692eca22ddcb32b57b4ace7c5a44d6020604051428152a2005b3461030f57602036600319011261030f576004355f52600360205260e060405f2080549060018060a01b0360018201541690600281015460038201546004830154916007600685015494015494604051968752602087015260408601526060850152608084015260a083015260c0820152f35b3461030f57602036600319011261030f576004355f526023602052602060ff60405f2054166040519015158152f35b3461030f575f36600319011261030f576020604051600a8152f35b3461030f57613b3a36613bf9565b905f91815f526020601360205260405f20925f938054945b858110613b6457602087604051908152f35b613b89613b718284613f54565b905460039190911b1c6001600160a01b0316846142ef565b8015613bf0575f52600f845260405f208054908115159182613bc9575b5050613bb7575b6001905b01613b52565b956001810180911161045d5795613bad565b9091505f19810190811161045d57613be46002918893613f69565b50015410158880613ba6565b50600190613bb1565b604090600319011261030f576004359060243590565b9181601f8401121561030f578235916001600160401b03831161030f576020808501948460051b01011161030f57565b9181601f8401121561030f578235916001600160401b03831161030f576020838186019501011161030f57565b602435906001600160a01b038216820361030f57565b90600182811c92168015613cb0575b6020831014613c9c57565b634e487b7160e01b5f52602260045260245ffd5b91607f1691613c91565b60e081019081106001600160401b038211176106f157604052565b60c081019081106001600160401b038211176106f157604052565b608081019081106001600160401b038211176106f157604052565b6001600160401b0381116106f157604052565b602081019081106001600160401b038211176106f157604052565b606081019081106001600160401b038211176106f157604052565b90601f801991011681019081106001600160401b038211176106f157604052565b9060405191825f8254613d8781613c82565b908184526020946001916001811690815f14613df55750600114613db7575b505050613db592500383613d54565b565b5f90815285812095935091905b818310613ddd575050613db593508201015f8080613da6565b85548884018501529485019487945091830191613dc4565b92505050613db594925060ff191682840152151560051b8201015f8080613da6565b5f5b838110613e285750505f910152565b8181015183820152602001613e19565b90602091613e5181518092818552858086019101613e17565b601f01601f1916010190565b3461030f575f36600319011261030f57602060405160038152f35b9291926001600160401b0382116106f15760405191613ea1601f8201601f191660200184613d54565b82948184528183011161030f578281602093845f960137010152565b9080601f8301121561030f57816020613ed893359101613e78565b90565b606060031982011261030f57600435916001600160401b0360243581811161030f5783613f0a91600401613ebd565b9260443591821161030f57613ed891600401613ebd565b90604060031983011261030f5760043591602435906001600160401b03821161030f57613f5091600401613c3f565b9091565b8054821015610e56575f5260205f2001905f90565b8054821015610e56575f5260205f209060021b01905f90565b9190820180921161045d57565b9060405190602082019283526001600160601b03199060601b16604082015260348152613fbb81613d39565b51902090565b6001600160401b0381116106f15760051b60200190565b805115610e565760200190565b805160011015610e565760400190565b8051821015610e565760209160051b010190565b5f52600860205260405f205480155f14613ed85750600390565b81811061402e575050565b5f8155600101614023565b9190601f811161404857505050565b613db5925f5260205f20906020601f840160051c83019310614072575b601f0160051c0190614023565b9091508190614065565b805490600160401b8210156106f157816104fd91600161409e94018155613f54565b9055565b156140a957565b60405162461bcd60e51b81526020600482015260156024820152744f626a656374697665206e6f7420696e207465616d60581b6044820152606490fd5b6040516020810191686f626a65637469766560b81b8352602982015260298152613fbb81613d39565b519063ffffffff8216820361030f57565b811561412a570490565b634e487b7160e01b5f52601260045260245ffd5b6103e89081810291818304149015171561045d57630c64f9a49080820180921161045d57630c64f9a3810191821161045d57613ed891614120565b6103e89081810291818304149015171561045d57621fbad19080820180921161045d57621fbad0810191821161045d57613ed891614120565b6103e89081810291818304149015171561045d57620a939b9080820180921161045d57620a939a810191821161045d57613ed891614120565b156141f257565b60405162461bcd60e51b815260206004820152600f60248201526e2737ba103a32b0b69036b2b6b132b960891b6044820152606490fd5b1561423057565b60405162461bcd60e51b815260206004820152600f60248201526e098cadccee8d040dad2e6dac2e8c6d608b1b6044820152606490fd5b9190811015610e565760051b0190565b6142818154613c82565b908161428b575050565b81601f5f931160011461429c575055565b9080839182526142bb601f60208420940160051c840160018501614023565b5555565b8054905f8155816142ce575050565b5f5260205f20908101905b8181106142e4575050565b5f81556001016142d9565b9190915f545b600180821061435b575f828152600360205260409020818101546001600160a01b038781169116149084908261434d575b505061434757811461434057801561045d575f19016142f5565b505f925050565b50925050565b60050154149050835f614326565b505f93505050565b5f908152600360205260409020600101546001600160a01b0316330361438557565b60405162461bcd60e51b815260206004820152600d60248201526c2737ba1027a5a91037bbb732b960991b6044820152606490fd5b9291925f52602092600460205260405f20916001600160401b0382116106f1576143e88261064b8554613c82565b5f94601f8311600114614423575061409e92939482915f926144185750508160011b915f199060031b1c19161790565b013590505f8061066d565b90601f19831695845f5260205f20925f905b88821061446d57505083600195969710614454575b505050811b019055565b01355f19600384901b60f8161c191690555f808061444a565b80600184968294958701358155019501920190614435565b60206144d59260018060a01b0392835f80516020615e448339815191525416905f60405180978195829463196d0b9b60e01b84526004840152336024840152608060448401526084830190613e38565b6004606483015203925af191821561132b575f92614545575b505f80516020615e648339815191525416803b1561030f57604051630f8e573b60e21b815260048101839052336024820152905f908290604490829084905af1801561132b5761453c575090565b613ed890613d0b565b9091506020813d602011614571575b8161456160209383613d54565b8101031261030f5751905f6144ee565b3d9150614554565b801561469c575b5f80516020615e448339815191528054604051630d8c635960e21b8152600481019390935260016024840152600160f81b60448401819052602093916001600160a01b03908590849060649082905f9086165af193841561132b5785935f9561466b575b508415614655575b906064915416935f60405195869485936304559f7160e01b855260048501526003602485015260448401525af191821561132b575f9261462b57505090565b90809250813d831161464e575b6146428183613d54565b8101031261030f575190565b503d614638565b93506064906146626158c7565b949091506145ec565b8481959296503d8311614695575b6146838183613d54565b8101031261030f57849251935f6145e4565b503d614679565b505f6146a66158c7565b9050614580565b96926146c16147019197929593969761562e565b916146cc3084615a43565b6146d63384615a43565b8361492e575b885f5260209760038952604097885f2097600498868a8201556006429101558b6153c0565b6104008351116148fb57865f52600f8652845f209185519161472283613cf0565b825286820190815285820190428252606083019485528354600160401b8110156148e85761475890600195600182018155613f69565b9390936148d657906003939291518355516001830155516002820155019151908151906001600160401b0382116148c35761479d826147978654613c82565b86614039565b8690601f831160011461485d575081906147cb935f926148525750508160011b915f199060031b1c19161790565b90555b835f52600f8352815f2054905f19820191821161483f575090837f95530ac5ba3faa4aabaa3fb8d55910fd594038f35995451bfe87a18a2ec64c50827f5872cdf71af29d433728d329d247d308a6b6c7c2b51cca3f43624e687a812d35959481519081524286820152a251428152a2565b601190634e487b7160e01b5f525260245ffd5b015190505f8061066d565b9192601f198416855f52885f20935f905b8a8383106148ac57505050908460019594939210614894575b505050811b0190556147ce565b01515f1960f88460031b161c191690555f8080614887565b81869782939497870151815501960194019061486e565b604185634e487b7160e01b5f525260245ffd5b5f87634e487b7160e01b82525260245ffd5b604187634e487b7160e01b5f525260245ffd5b845162461bcd60e51b8152808501879052600d60248201526c4e6f746520746f6f206c6f6e6760981b6044820152606490fd5b6149383085615a43565b6149423385615a43565b6146dc565b5f52601460205260405f20335f52602052613db560ff60405f2054166141eb565b9190610400825111614af157825f52602091600f8352604091825f209083519061499182613cf0565b81528481015f8152848201428152606083019485528354600160401b8110156106f1576149c690600195600182018155613f69565b929092614ade57600393518355516001830155516002820155019151908151906001600160401b0382116106f157614a02826147978654613c82565b8590601f8311600114614a7857508190614a30935f926148525750508160011b915f199060031b1c19161790565b90555b825f52600f8252805f20545f19810190811161045d577f95530ac5ba3faa4aabaa3fb8d55910fd594038f35995451bfe87a18a2ec64c509282519182524290820152a2565b9192601f198416855f52875f20935f905b89838310614ac757505050908460019594939210614aaf575b505050811b019055614a33565b01515f1960f88460031b161c191690555f8080614aa2565b818697829394978701518155019601940190614a89565b634e487b7160e01b5f525f60045260245ffd5b60405162461bcd60e51b815260206004820152600d60248201526c4e6f746520746f6f206c6f6e6760981b6044820152606490fd5b929190925f526020600c60205260409360405f205f5b8154811015614c3e57614b4f8183613f54565b9054600391821b1c5f528452865f20908551600490614b7c828501549161114a60078701938454906154ff565b8852614b8f8789019182519054906155a6565b9052888701928351600194858201809211614c2b5752838101546001600160a01b031693869190614bc0868b61596c565b9360a08b019081518614614bf7575b505050600194506006015411614be7575b5001614b3c565b614bf190876159b2565b5f614be0565b91935091939495614c0c8660608d0151613ff5565b52815192830180931161483f5750526001929190859060065f80614bcf565b601184634e487b7160e01b5f525260245ffd5b50505050509050565b92600694919592614c583088615a43565b614c623082615a43565b60405196614c6f88613cba565b8588526020880190815260408801918252606088019283526080880193845260a0880194855260c08801954287525f52601060205260405f209751885551600188015551600287015551600386015551600485015551600584015551910155565b5f908152600560205260409020600101546001600160a01b03163303614cf257565b60405162461bcd60e51b815260206004820152600e60248201526d2737ba103a32b0b69030b236b4b760911b6044820152606490fd5b6002546001600160a01b03163303614d3c57565b60405162461bcd60e51b81526020600482015260116024820152702737ba1031b7b6b830b73c9030b236b4b760791b6044820152606490fd5b5f908152600b60209081526040808320805494935b858110614d9b575050505050505f90565b614da58183613f54565b90549060031b1c5f52600a8452846002845f20015414614dc757600101614d8a565b505050505050600190565b909291815f52602060198152604091825f205495865f5260108352835f205415614fc457845f525f80516020615e24833981519152808452845f205415614fb357855f528352835f209084518083868295549384815201905f52865f20925f5b88828210614f9d57505050614e4992500383613d54565b80518085019081861161045d57860180911161045d57614eea5f8694614e9889614efd9681519681614e8489935180928d8087019101613e17565b8201908a8201520388810187520185613d54565b614f0c60018060a01b037f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497035416948a51988997889687956378542ead60e01b8752606060048801526064870190615da1565b6003199384878303016024880152613e38565b91848303016044850152613e38565b03925af1918215614f93575f92614f5c575b505015614f4c57507f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d5f80a2565b5163cf6c44e960e01b8152600490fd5b90809250813d8311614f8c575b614f738183613d54565b8101031261030f5751801515810361030f575f80614f1e565b503d614f69565b83513d5f823e3d90fd5b8554845260019586019588955093019201614e32565b845163d66ca67560e01b8152600490fd5b835162461bcd60e51b815260048101849052600c60248201526b496e76616c6964207465616d60a01b6044820152606490fd5b91909392845f52602090601a8252604090815f2082519061501782613cd5565b80549063ffffffff9384831684528487850193881c16835260018201549186850192835260028101549b606086019c8d5260046003830154926080880193845201549260a08701938452815f52601a8a525f60048a82208281558260018201558260028201558260038201550155601c8a52885f205490855160038102908082046003149015171561045d5789926150ae926151cc565b168552805f52601c89525f88812055825184519a60038c029b808d046003148115171561045d5761012c029b808d046064149015171561045d577f8c11eeff8bade20bdf3a18faa15433a8b6b0d357da39db0584cda07340ed294e9b8992615115926151cc565b1686528a5f5260248952875f2054146151b8575b8b51601d89526002885f20015411159b8c61514e575b505050505051169051908152a2565b6004934283528b5f52601d8a52615198888a5f2097818a511663ffffffff198a54161789555116879067ffffffff0000000082549160201b169067ffffffff000000001916179055565b516001860155516002850155516003840155519101555f8080808061513f565b60238852865f2060ff198154169055615129565b91908015615217576009810290810460090361045d5763ffffffff809316908082111561520f57810390811161045d578181111561520957501690565b90501690565b505050505f90565b505090565b90815491600160401b8310156106f15782612188916001613db595018155613f54565b90815f5260206014815261527c604092835f2060018060a01b0382165f528352835f20600160ff19825416179055845f5260138352835f2061521c565b825f52600581526002825f20019182546001810180911161045d577f192f4177177261ed7fa347346f3124567155a156b85a75bda584bd684294588e9355835f52600582526002815f2001549051908152a2565b929192831561538f576102008411610705575f52602092601560205260405f20335f5260205260405f20916001600160401b0382116106f1576153178261064b8554613c82565b5f94601f8311600114615347575061409e92939482915f926144185750508160011b915f199060031b1c19161790565b90601f19831695845f5260205f20925f905b8882106153775750508360019596971061445457505050811b019055565b80600184968294958701358155019501920190615359565b60405162461bcd60e51b8152602060048201526009602482015268456d707479206b657960b81b6044820152606490fd5b93929091926010841161549257845f52600e90602090600e6020526040936153ea60405f206142bf565b5f5b87811061542c575050505050505060407f7537809ceeef7189b1b22286346cf611a7df522e95e2a26d23722e446553450c918151908152426020820152a2565b6154496115d761543d838b8b614267565b35610d86368787613e78565b906154543083615a43565b61545e3383615a43565b895f52858552865f20918254600160401b8110156106f1576104fd816001958661548a94018155613f54565b9055016153ec565b60405162461bcd60e51b8152602060048201526014602482015273546f6f206d616e79206b657920726573756c747360601b6044820152606490fd5b90815f52602160205260405f209060018060a01b03165f5260205260405f2054905f52601f60205260405f20541090565b908115615596575b8015615584575b602090606460018060a01b035f80516020615e448339815191525416935f6040519586948593630afe14ad60e31b8552600485015260248401528160448401525af190811561132b575f91615561575090565b90506020813d60201161557c575b8161464260209383613d54565b3d915061556f565b50602061558f6158c7565b905061550e565b90506155a06158c7565b90615507565b90613ed89180156155c7575b816159ef5790506155c16158c7565b906159ef565b506155d06158c7565b6155b2565b805f526020906021825260405f209260018060a01b03811693845f52835260405f205415615615575b505f526021815260405f20915f52524260405f2055565b61562890825f5283805260405f2061521c565b5f6155fe565b8015615692575b5f80516020615e44833981519152546040516304559f7160e01b81526004810192909252606460248301819052600160f81b604484015260209183919082905f906001600160a01b03165af190811561132b575f91615561575090565b505f602061569e6158c7565b915050615635565b5f19811461045d5760010190565b6156bc615aaa565b9081156158b7575b5f60018060a01b03935f80516020615e448339815191528581541660409586519063022f65e760e31b8252600482015260096024820152600160f81b918260448301528160648160209889945af1908115615862575f9161588a575b508461572a615aaa565b821561587a575b801561586c575b60648a865416935f8b5195869485936303056db360e31b8552600485015260248401528160448401525af1908115615862575f91615829575b509163ffffffff97606492615787879695615dd4565b918215615817575b5f929354169089519a8b968795630afe14ad60e31b8752600487015216602485015260448401525af192831561580e57505f926157dc575b506157d292506155a6565b613ed83082615a43565b90915082813d8311615807575b6157f38183613d54565b8101031261030f576157d29151905f6157c7565b503d6157e9565b513d5f823e3d90fd5b5f92506158226158c7565b925061578f565b91939290508482813d831161585b575b6158438183613d54565b8101031261030f5790519192909163ffffffff615771565b503d615839565b87513d5f823e3d90fd5b50615875615919565b615738565b9150615884615919565b91615731565b90508481813d83116158b0575b6158a18183613d54565b8101031261030f57515f615720565b503d615897565b90506158c1615919565b906156c4565b5f80516020615e4483398151915254604051639cd07acb60e01b81525f600480830182905260248301529091602091839160449183916001600160a01b03165af190811561132b575f91615561575090565b5f80516020615e4483398151915254604051639cd07acb60e01b81525f60048201819052600260248301529091602091839160449183916001600160a01b03165af190811561132b575f91615561575090565b905f5b60a08301518110156159a95760018060a01b0380615991836060870151613ff5565b5116908316146159a35760010161596f565b91505090565b505060a0015190565b60808101916159c2818451613ff5565b51156159cd57505050565b6159dc60019160c09451613ff5565b52018051906001820180921161045d5752565b90602090606460018060a01b035f80516020615e448339815191525416935f604051958694859363022f65e760e31b8552600485015260248401528160448401525af190811561132b575f91615561575090565b5f80516020615e64833981519152546001600160a01b031691823b1561030f57604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af1801561132b57615aa15750565b613db590613d0b565b60018060a01b035f80516020615e4483398151915281815416905f604092835194636baeb74560e11b86526003948660049360038583015260209182918160249889925af1978815615d97575f98615d68575b50969593929190615b0c615919565b976001978896875b615b26575b5050505050505050505090565b9091929394959697989a9960ff808d1660098111615d5f5760100390808211615d4d57908a8992898e8d8a8a978d8b8d15615cb8575b50505050509061ffff9392915416938a5195637210768160e01b87528d870152161b168a83015285826064815f604495600160f81b878401525af1918215615862579186918a8a8f8e97965f95615c7d575b50905f91541660028c5198899687956307227b9160e21b87528601528401525af1908115615c73575f91615c42575b615bf49250818115615c32575b15615c28576159ef565b9860ff809c169b8c14615c165788809a9b9c0199979695949392919098615b14565b87601188634e487b7160e01b5f52525ffd5b90506155c1615919565b9050615c3c615919565b90615bea565b90508482813d8311615c6c575b615c598183613d54565b8101031261030f57615bf4915190615bdd565b503d615c4f565b86513d5f823e3d90fd5b975050505091905083813d8311615cb1575b615c998183613d54565b8101031261030f57915189928691908a8a8f5f615bae565b503d615c8f565b90919399505f95869397985060449554169151998a968795639cd07acb60e01b87528601528401525af18015615d43578d92918a8e925f90615d07575b95509293919290918d8a8e8d8b615b5c565b5050919250508683813d8311615d3c575b615d228183613d54565b8101031261030f578b61ffff918a8f955186959450615cf5565b503d615d18565b88513d5f823e3d90fd5b8960118a634e487b7160e01b5f52525ffd5b5050999a615b19565b9080985081813d8311615d90575b615d808183613d54565b8101031261030f5751965f615afd565b503d615d76565b82513d5f823e3d90fd5b9081518082526020808093019301915f5b828110615dc0575050505090565b835185529381019392810192600101615db2565b60205f91604460018060a01b035f80516020615e4483398151915254169160405194859384926307227b9160e21b84526004840152600460248401525af190811561132b575f9161556157509056fe878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf00a164736f6c6343000818000a";
+
+type EncryptedOKRPlatformFHEConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: EncryptedOKRPlatformFHEConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class EncryptedOKRPlatformFHE__factory extends ContractFactory {
+  constructor(...args: EncryptedOKRPlatformFHEConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      EncryptedOKRPlatformFHE & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(
+    runner: ContractRunner | null
+  ): EncryptedOKRPlatformFHE__factory {
+    return super.connect(runner) as EncryptedOKRPlatformFHE__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): EncryptedOKRPlatformFHEInterface {
+    return new Interface(_abi) as EncryptedOKRPlatformFHEInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): EncryptedOKRPlatformFHE {
+    return new Contract(
+      address,
+      _abi,
+      runner
+    ) as unknown as EncryptedOKRPlatformFHE;
+  }
+}
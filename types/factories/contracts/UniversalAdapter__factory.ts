@@ -0,0 +1,194 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  UniversalAdapter,
+  UniversalAdapterInterface,
+} from "../../contracts/UniversalAdapter";
+
+const _abi = [
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "key",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "bytes",
+        name: "value",
+        type: "bytes",
+      },
+    ],
+    name: "DataStored",
+    type: "event",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        internalType: "string",
+        name: "key",
+        type: "string",
+      },
+    ],
+    name: "getData",
+    outputs: [
+      {
+        internalType: "bytes",
+        name: "",
+        type: "bytes",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        internalType: "string",
+        name: "key",
+        type: "string",
+      },
+    ],
+    name: "getVersion",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "isAvailable",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "key",
+        type: "string",
+      },
+      {
+        internalType: "bytes",
+        name: "value",
+        type: "bytes",
+      },
+    ],
+    name: "setData",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string[]",
+        name: "keys",
+        type: "string[]",
+      },
+      {
+        internalType: "bytes[]",
+        name: "values",
+        type: "bytes[]",
+      },
+      {
+        internalType: "uint256[]",
+        name: "expectedVersions",
+        type: "uint256[]",
+      },
+    ],
+    name: "setDataAtomic",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60808060405234610016576106c5908161001b8239f35b5f80fdfe60406080815260049081361015610014575f80fd5b5f3560e01c80632902ad2b1461032c5780633bf58dba146102235780636c67bdfa146101d7578063856c71dd146101bc5763a898b93014610053575f80fd5b346101b85760603660031901126101b85767ffffffffffffffff9180358381116101b85761008490369083016103c4565b906024926024358681116101b85761009f90369083016103c4565b9690946044916044359081116101b8576100bc90369085016103c4565b97898714806101af575b1561017b575f5b8781106100d657005b6100eb6100e4828a8a610463565b90336104b9565b5f52602060018152825f20548b831015610169578260051b850135036101395750806101338c8b61012b846101236001978f8f610463565b949093610463565b929091610521565b016100cd565b866c29ba30b632903b32b939b4b7b760991b87600d8860649588519562461bcd60e51b8752860152840152820152fd5b85603289634e487b7160e01b5f52525ffd5b5162461bcd60e51b8152602081860152600f60248201526e098cadccee8d040dad2e6dac2e8c6d608b1b6044820152606490fd5b508887146100c6565b5f80fd5b50346101b8575f3660031901126101b8576020905160018152f35b50346101b8573660031901126101b85767ffffffffffffffff81358181116101b8576102069036908401610352565b916024359081116101b8576102219361012b91369101610352565b005b50346101b85761023b61023536610380565b916104b9565b5f526020905f8252805f2082825180925f908054610258816103f5565b8085529160019180831690811561030957506001146102cb575b5050506102849250949294038461042d565b815192818492835281519182828501525f5b8381106102b55750505f83830185015250601f01601f19168101030190f35b8181018301518782018701528694508201610296565b5f90815285812095935091905b8183106102f15750879450508201016102848780610272565b855487840185015294850194869450918301916102d8565b9250505061028494925060ff191682840152151560051b82010185928780610272565b50346101b85760209061034161023536610380565b5f5260018252805f20549051908152f35b9181601f840112156101b85782359167ffffffffffffffff83116101b857602083818601950101116101b857565b9060406003198301126101b8576004356001600160a01b03811681036101b857916024359067ffffffffffffffff82116101b8576103c091600401610352565b9091565b9181601f840112156101b85782359167ffffffffffffffff83116101b8576020808501948460051b0101116101b857565b90600182811c92168015610423575b602083101461040f57565b634e487b7160e01b5f52602260045260245ffd5b91607f1691610404565b90601f8019910116810190811067ffffffffffffffff82111761044f57604052565b634e487b7160e01b5f52604160045260245ffd5b91908110156104a55760051b81013590601e19813603018212156101b857019081359167ffffffffffffffff83116101b85760200182360381136101b8579190565b634e487b7160e01b5f52603260045260245ffd5b919060346104fb918360405194859260208401976bffffffffffffffffffffffff199060601b1688528484013781015f8382015203601481018452018261042d565b51902090565b908060209392818452848401375f828201840152601f01601f1916010190565b909291926105308183336104b9565b805f526020905f825260405f2067ffffffffffffffff861161044f5761055681546103f5565b601f8111610675575b50855f601f8211600114610611575f91610606575b508660011b905f198860031b1c19161790555b5f526001815260405f2090815494600186018096116105f2577ff63f64b35cf7063a692d2f089698eda74616257a8ad9e106839e165690b15782956105ed93556105de604051958695604087526040870191610501565b91848303908501523396610501565b0390a2565b634e487b7160e01b5f52601160045260245ffd5b90508701355f610574565b5f83815285812092508890601f198216905b878c83831061065d5750505010610644575b5050600186811b019055610587565b8801355f19600389901b60f8161c191690555f80610635565b8501358655600190950194938401938b935001610623565b815f52835f20601f880160051c8101918589106106ae575b601f0160051c01905b8181106106a3575061055f565b5f8155600101610696565b909150819061068d56fea164736f6c6343000818000a";
+
+type UniversalAdapterConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: UniversalAdapterConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class UniversalAdapter__factory extends ContractFactory {
+  constructor(...args: UniversalAdapterConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      UniversalAdapter & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): UniversalAdapter__factory {
+    return super.connect(runner) as UniversalAdapter__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): UniversalAdapterInterface {
+    return new Interface(_abi) as UniversalAdapterInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): UniversalAdapter {
+    return new Contract(address, _abi, runner) as unknown as UniversalAdapter;
+  }
+}
@@ -0,0 +1,5 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export * as okrAnonymousFheSol from "./OKRAnonymousFHE.sol";
+export { UniversalAdapter__factory } from "./UniversalAdapter__factory";
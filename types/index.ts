@@ -1,6 +1,28 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
-export type { UniversalAdapter } from "./UniversalAdapter";
+import type * as fhevm from "./@fhevm";
+export type { fhevm };
+import type * as contracts from "./contracts";
+export type { contracts };
 export * as factories from "./factories";
-export { UniversalAdapter__factory } from "./factories/UniversalAdapter__factory";
+export type { EthereumConfig } from "./@fhevm/solidity/config/ZamaConfig.sol/EthereumConfig";
+export { EthereumConfig__factory } from "./factories/@fhevm/solidity/config/ZamaConfig.sol/EthereumConfig__factory";
+export type { SepoliaConfig } from "./@fhevm/solidity/config/ZamaConfig.sol/SepoliaConfig";
+export { SepoliaConfig__factory } from "./factories/@fhevm/solidity/config/ZamaConfig.sol/SepoliaConfig__factory";
+export type { FHE } from "./@fhevm/solidity/lib/FHE.sol/FHE";
+export { FHE__factory } from "./factories/@fhevm/solidity/lib/FHE.sol/FHE__factory";
+export type { IDecryptionOracle } from "./@fhevm/solidity/lib/FHE.sol/IDecryptionOracle";
+export { IDecryptionOracle__factory } from "./factories/@fhevm/solidity/lib/FHE.sol/IDecryptionOracle__factory";
+export type { IKMSVerifier } from "./@fhevm/solidity/lib/FHE.sol/IKMSVerifier";
+export { IKMSVerifier__factory } from "./factories/@fhevm/solidity/lib/FHE.sol/IKMSVerifier__factory";
+export type { IACL } from "./@fhevm/solidity/lib/Impl.sol/IACL";
+export { IACL__factory } from "./factories/@fhevm/solidity/lib/Impl.sol/IACL__factory";
+export type { IFHEVMExecutor } from "./@fhevm/solidity/lib/Impl.sol/IFHEVMExecutor";
+export { IFHEVMExecutor__factory } from "./factories/@fhevm/solidity/lib/Impl.sol/IFHEVMExecutor__factory";
+export type { IInputVerifier } from "./@fhevm/solidity/lib/Impl.sol/IInputVerifier";
+export { IInputVerifier__factory } from "./factories/@fhevm/solidity/lib/Impl.sol/IInputVerifier__factory";
+export type { EncryptedOKRPlatformFHE } from "./contracts/OKRAnonymousFHE.sol/EncryptedOKRPlatformFHE";
+export { EncryptedOKRPlatformFHE__factory } from "./factories/contracts/OKRAnonymousFHE.sol/EncryptedOKRPlatformFHE__factory";
+export type { UniversalAdapter } from "./contracts/UniversalAdapter";
+export { UniversalAdapter__factory } from "./factories/contracts/UniversalAdapter__factory";